@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Slide } from '../redux/presentationSlice';
+import { AssetTable, findUsedAssetIds } from '../utils/assets';
+
+interface AssetLibraryProps {
+  assets: AssetTable;
+  slides: Slide[];
+  onInsert: (assetId: string) => void;
+  onRemoveUnused: () => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Every image embedded in the presentation, stored once however often it is
+ * used. Images can be inserted again on the current slide.
+ */
+export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, slides, onInsert, onRemoveUnused, onClose }) => {
+  // Number of slides each image appears on
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    slides.forEach(slide => {
+      findUsedAssetIds([slide]).forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+    });
+    return counts;
+  }, [slides]);
+
+  const assetList = Object.values(assets);
+  const unusedCount = assetList.filter(asset => !usage.has(asset.id)).length;
+  const totalSize = assetList.reduce((sum, asset) => sum + asset.size, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-2xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="asset-library-title"
+      >
+        <div className="p-4 border-b border-gray-200">
+          <h4 id="asset-library-title" className="font-medium text-gray-900">Image library</h4>
+          <p className="text-sm text-gray-600 mt-1">
+            {assetList.length === 0
+              ? 'Images you add to slides appear here.'
+              : `${assetList.length} image${assetList.length === 1 ? '' : 's'}, ${formatBytes(totalSize)}. Click an image to add it to the current slide.`}
+          </p>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {assetList.map((asset) => {
+              const slideCount = usage.get(asset.id) ?? 0;
+              return (
+                <button
+                  key={asset.id}
+                  type="button"
+                  onClick={() => onInsert(asset.id)}
+                  className="rounded-lg border border-gray-200 hover:border-blue-300 hover:ring-2 hover:ring-blue-200 p-2 text-left transition-colors duration-200"
+                  title={asset.name ?? 'Add to slide'}
+                >
+                  <div className="aspect-square bg-gray-50 rounded flex items-center justify-center overflow-hidden">
+                    <img src={asset.src} alt={asset.name ?? ''} className="max-w-full max-h-full object-contain" />
+                  </div>
+                  {asset.name && <div className="mt-1 text-xs font-medium text-gray-800 truncate">{asset.name}</div>}
+                  <div className={`text-xs ${slideCount === 0 ? 'text-amber-700' : 'text-gray-500'}`}>
+                    {slideCount === 0 ? 'Unused' : `${slideCount} slide${slideCount === 1 ? '' : 's'}`} · {formatBytes(asset.size)}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between gap-2">
+          <button
+            type="button"
+            onClick={onRemoveUnused}
+            disabled={unusedCount === 0}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-colors duration-200 disabled:opacity-50"
+          >
+            Remove unused{unusedCount > 0 ? ` (${unusedCount})` : ''}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-colors duration-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Slide } from '../redux/presentationSlice';
+import {
+  ImageExportFormat,
+  ImageExportOptions,
+  DEFAULT_FILE_NAME_PATTERN,
+  formatSlideFileName,
+} from '../utils/slideImageExporter';
+
+interface ExportImagesDialogProps {
+  slides: Slide[];
+  progress: { completed: number; total: number } | null; // Set while exporting
+  onExport: (options: ImageExportOptions) => void;
+  onClose: () => void;
+}
+
+const formats: { id: ImageExportFormat; name: string }[] = [
+  { id: 'png', name: 'PNG' },
+  { id: 'jpeg', name: 'JPEG' },
+  { id: 'svg', name: 'SVG' },
+];
+
+const scales = [1, 2, 4];
+
+export const ExportImagesDialog: React.FC<ExportImagesDialogProps> = ({ slides, progress, onExport, onClose }) => {
+  const [format, setFormat] = useState<ImageExportFormat>('png');
+  const [quality, setQuality] = useState(0.9);
+  const [scale, setScale] = useState(2);
+  const [fileNamePattern, setFileNamePattern] = useState(DEFAULT_FILE_NAME_PATTERN);
+
+  const isExporting = progress !== null;
+  const examples = slides
+    .slice(0, 2)
+    .map((slide, index) => formatSlideFileName(fileNamePattern, slide, index, slides.length, format));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onExport({ format, quality, scale, fileNamePattern });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-center justify-center p-4" onClick={isExporting ? undefined : onClose}>
+      <form
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-labelledby="export-images-title"
+      >
+        <div className="p-4 border-b border-gray-200">
+          <h4 id="export-images-title" className="font-medium text-gray-900">Export all slides</h4>
+          <p className="text-sm text-gray-600 mt-1">
+            {slides.length} slide{slides.length === 1 ? '' : 's'} will be saved as images in one zip file.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div className="text-sm font-medium text-gray-800 mb-2">Format</div>
+            <div className="flex gap-2">
+              {formats.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setFormat(option.id)}
+                  className={`flex-1 px-3 py-2 rounded-md border text-sm font-medium transition-colors duration-200 ${
+                    format === option.id
+                      ? 'bg-blue-100 border-blue-300 text-blue-800'
+                      : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format === 'jpeg' && (
+            <div>
+              <label htmlFor="export-quality" className="text-sm font-medium text-gray-800 flex justify-between mb-2">
+                <span>Quality</span>
+                <span className="text-gray-500">{Math.round(quality * 100)}%</span>
+              </label>
+              <input
+                id="export-quality"
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={quality}
+                onChange={(e) => setQuality(parseFloat(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          <div>
+            <div className="text-sm font-medium text-gray-800 mb-2">{format === 'svg' ? 'Size' : 'Resolution'}</div>
+            <div className="flex gap-2">
+              {scales.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScale(option)}
+                  className={`flex-1 px-3 py-2 rounded-md border text-sm font-medium transition-colors duration-200 ${
+                    scale === option
+                      ? 'bg-blue-100 border-blue-300 text-blue-800'
+                      : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'
+                  }`}
+                >
+                  {option}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="export-file-name" className="text-sm font-medium text-gray-800 block mb-2">File names</label>
+            <input
+              id="export-file-name"
+              type="text"
+              value={fileNamePattern}
+              onChange={(e) => setFileNamePattern(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use <code>{'{index}'}</code> for the slide number and <code>{'{name}'}</code> for the slide name.
+              {examples.length > 0 && <> For example: {examples.join(', ')}</>}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          {progress && (
+            <span className="mr-auto text-sm text-gray-600">
+              Rendering slide {Math.min(progress.completed + 1, progress.total)} of {progress.total}...
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isExporting}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-colors duration-200 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isExporting || slides.length === 0}
+            className="px-4 py-2 rounded-md bg-blue-100 border border-blue-300 hover:bg-blue-200 text-blue-800 text-sm font-medium transition-colors duration-200 disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
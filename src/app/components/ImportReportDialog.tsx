@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { SlideImportReport } from '../utils/pptx/importer';
+
+interface ImportReportDialogProps {
+  report: SlideImportReport[];
+  onClose: () => void;
+}
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onClose }) => {
+  const totalSkipped = report.reduce((count, entry) => count + entry.skipped.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="import-report-title"
+      >
+        <div className="p-4 border-b border-gray-200">
+          <h4 id="import-report-title" className="font-medium text-gray-900">Import finished with warnings</h4>
+          <p className="text-sm text-gray-600 mt-1">
+            {totalSkipped} element{totalSkipped === 1 ? '' : 's'} could not be imported exactly. Everything else was loaded.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {report.map((entry) => (
+            <div key={entry.slideNumber}>
+              <div className="text-sm font-medium text-gray-800">
+                Slide {entry.slideNumber}: {entry.slideName}
+              </div>
+              <ul className="mt-1 list-disc list-inside text-xs text-gray-600 space-y-0.5">
+                {entry.skipped.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-blue-100 border border-blue-300 hover:bg-blue-200 text-blue-800 text-sm font-medium transition-colors duration-200"
+            autoFocus
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { LayerInfo } from '../utils/layers';
+
+interface LayersPanelProps {
+  layers: LayerInfo[];
+  onSelect: (path: number[]) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onSetVisible: (path: number[], visible: boolean) => void;
+  onSetLocked: (path: number[], locked: boolean) => void;
+  onRename: (path: number[], name: string) => void;
+  className?: string;
+}
+
+interface LayerRow {
+  layer: LayerInfo;
+  key: string;
+  depth: number;
+}
+
+/**
+ * The current slide's objects from top to bottom, with groups as expandable
+ * trees. Top-level rows can be dragged to restack objects, and objects can be
+ * hidden, locked and renamed.
+ */
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  onSelect,
+  onMove,
+  onSetVisible,
+  onSetLocked,
+  onRename,
+  className,
+}) => {
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // Escape removes the input, which must not commit the name on blur
+  const renameCancelledRef = useRef(false);
+
+  const startRename = (layer: LayerInfo) => {
+    renameCancelledRef.current = false;
+    setEditingKey(layer.path.join('-'));
+    setEditingName(layer.name);
+  };
+
+  const commitRename = () => {
+    if (editingKey !== null && !renameCancelledRef.current) {
+      onRename(editingKey.split('-').map(Number), editingName.trim());
+    }
+    setEditingKey(null);
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (draggedIndex !== null && draggedIndex !== index) {
+      onMove(draggedIndex, index);
+    }
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  // Top of the stack first, like in other design tools, with the objects of
+  // expanded groups under them
+  const rows: LayerRow[] = [];
+  const addRows = (layers: LayerInfo[], depth: number) => {
+    [...layers].reverse().forEach(layer => {
+      const key = layer.path.join('-');
+      rows.push({ layer, key, depth });
+      if (layer.children && expanded.has(key)) addRows(layer.children, depth + 1);
+    });
+  };
+  addRows(layers, 0);
+
+  return (
+    <div className={`bg-white border-l border-gray-200 flex flex-col ${className || ''}`}>
+      <div className="px-4 pt-3 pb-2 text-xs font-medium uppercase tracking-wide text-gray-500">Layers</div>
+
+      {rows.length === 0 ? (
+        <p className="px-4 text-sm text-gray-500">Objects you add to the slide appear here.</p>
+      ) : (
+        <ul className="flex-1 min-h-0 overflow-y-auto pb-2" role="listbox" aria-label="Layers">
+          {rows.map(({ layer, key, depth }) => {
+            // Only top-level objects can be restacked and locked; grouped ones move with their group
+            const index = depth === 0 ? layer.path[0] : null;
+            return (
+              <li
+                key={key}
+                role="option"
+                aria-selected={layer.selected}
+                draggable={index !== null && editingKey !== key}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (index === null || draggedIndex === null) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDragLeave={() => setDropIndex(prev => (prev === index ? null : prev))}
+                onDrop={(e) => index !== null && handleDrop(e, index)}
+                onDragEnd={() => {
+                  setDraggedIndex(null);
+                  setDropIndex(null);
+                }}
+                onClick={() => !layer.locked && layer.visible && onSelect(layer.path)}
+                className={`group flex items-center gap-1 px-2 py-1.5 mx-2 rounded-md text-sm cursor-pointer transition-colors duration-200
+                  ${layer.selected ? 'bg-blue-50 text-blue-900' : 'text-gray-800 hover:bg-gray-50'}
+                  ${index !== null && dropIndex === index && draggedIndex !== index ? 'ring-2 ring-blue-300' : ''}
+                  ${index !== null && draggedIndex === index ? 'opacity-50' : ''}`}
+                style={{ paddingLeft: `${0.5 + depth}rem` }}
+              >
+                {layer.children ? (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleExpanded(key);
+                    }}
+                    className="p-0.5 rounded text-gray-500 hover:bg-gray-200"
+                    aria-label={expanded.has(key) ? `Collapse ${layer.name}` : `Expand ${layer.name}`}
+                    aria-expanded={expanded.has(key)}
+                  >
+                    <svg className={`w-3 h-3 transition-transform duration-200 ${expanded.has(key) ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                  </button>
+                ) : (
+                  <span className="w-4" />
+                )}
+
+                {editingKey === key ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') {
+                        renameCancelledRef.current = true;
+                        setEditingKey(null);
+                      }
+                    }}
+                    className="flex-1 min-w-0 px-1 py-0.5 border border-blue-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Layer name"
+                  />
+                ) : (
+                  <span
+                    className={`flex-1 min-w-0 truncate ${layer.visible ? '' : 'text-gray-400 italic'}`}
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      startRename(layer);
+                    }}
+                    title="Double-click to rename"
+                  >
+                    {layer.name}
+                  </span>
+                )}
+
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSetVisible(layer.path, !layer.visible);
+                  }}
+                  className={`p-1 rounded hover:bg-gray-200 ${layer.visible ? 'text-gray-400 opacity-0 group-hover:opacity-100' : 'text-gray-700'}`}
+                  title={layer.visible ? 'Hide' : 'Show'}
+                  aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    {layer.visible ? (
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0zM2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    ) : (
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                    )}
+                  </svg>
+                </button>
+                {index !== null && (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSetLocked(layer.path, !layer.locked);
+                    }}
+                    className={`p-1 rounded hover:bg-gray-200 ${layer.locked ? 'text-gray-700' : 'text-gray-400 opacity-0 group-hover:opacity-100'}`}
+                    title={layer.locked ? 'Unlock' : 'Lock'}
+                    aria-label={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      {layer.locked ? (
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                      ) : (
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" />
+                      )}
+                    </svg>
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
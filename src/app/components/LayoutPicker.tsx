@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { SLIDE_LAYOUTS } from '../utils/layouts';
+
+interface LayoutPickerProps {
+  title: string;
+  selectedLayoutId?: string;
+  onSelect: (layoutId: string) => void;
+}
+
+/**
+ * Grid of slide layouts, each drawn as a small wireframe of its placeholders.
+ */
+export const LayoutPicker: React.FC<LayoutPickerProps> = ({ title, selectedLayoutId, onSelect }) => (
+  <div className="p-4">
+    <h4 className="font-medium text-gray-900 mb-3">{title}</h4>
+    <div className="grid grid-cols-2 gap-3">
+      {SLIDE_LAYOUTS.map((layout) => (
+        <button
+          key={layout.id}
+          onClick={() => onSelect(layout.id)}
+          className={`rounded-lg border p-2 text-left transition-colors duration-200 ${
+            selectedLayoutId === layout.id
+              ? 'bg-blue-50 border-blue-300 ring-2 ring-blue-200'
+              : 'bg-white border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <div className="relative aspect-video bg-white border border-gray-200 rounded">
+            {layout.placeholders.map((placeholder) => (
+              <div
+                key={placeholder.role}
+                className={`absolute border border-dashed border-gray-400 rounded-sm ${
+                  placeholder.role === 'title' ? 'bg-gray-200' : 'bg-gray-100'
+                }`}
+                style={{
+                  left: `${placeholder.x * 100}%`,
+                  top: `${placeholder.y * 100}%`,
+                  width: `${placeholder.width * 100}%`,
+                  height: `${Math.max(placeholder.fontSize * 2, placeholder.role.startsWith('body') ? 0.6 : 0) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+          <div className="mt-1 text-xs font-medium text-gray-800">{layout.name}</div>
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { SlidePreview } from './SlidePreview';
+import {
+  openPresenterChannel,
+  isPresenterViewSupported,
+  PresenterChannel,
+  PresenterSlide,
+} from '../utils/presenterChannel';
+import { SlideSize } from '../redux/presentationSlice';
+
+interface PresenterDeck {
+  presentationName: string;
+  slides: PresenterSlide[];
+  slideSize: SlideSize;
+}
+
+const formatElapsed = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':');
+};
+
+/**
+ * Speaker-facing companion to the slideshow, opened in its own window. It
+ * receives the deck from the slideshow over BroadcastChannel and shares
+ * navigation with it in both directions.
+ */
+export const PresenterView: React.FC = () => {
+  const channelRef = useRef<PresenterChannel | null>(null);
+  // Start time of the show the timer belongs to; a new show restarts the timer
+  const showStartedAtRef = useRef<number | null>(null);
+  const [deck, setDeck] = useState<PresenterDeck | null>(null);
+  // index === slides.length is the slideshow's "end of slide show" screen
+  const [index, setIndex] = useState(0);
+  const [timerStartedAt, setTimerStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [hasEnded, setHasEnded] = useState(false);
+
+  useEffect(() => {
+    const channel = openPresenterChannel((message) => {
+      switch (message.type) {
+        case 'deck':
+          setDeck({ presentationName: message.presentationName, slides: message.slides, slideSize: message.slideSize });
+          setIndex(message.index);
+          if (showStartedAtRef.current !== message.startedAt) {
+            showStartedAtRef.current = message.startedAt;
+            setTimerStartedAt(message.startedAt);
+          }
+          setHasEnded(false);
+          break;
+        case 'navigate':
+          setIndex(message.index);
+          break;
+        case 'end':
+          setHasEnded(true);
+          break;
+      }
+    });
+    channelRef.current = channel;
+    channel?.post({ type: 'request-deck' });
+
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Tick the timer and the clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    document.title = deck ? `Presenter view - ${deck.presentationName}` : 'Presenter view';
+  }, [deck]);
+
+  const slideCount = deck?.slides.length ?? 0;
+
+  const goTo = useCallback((target: number) => {
+    if (!deck || hasEnded) return;
+    const nextIndex = Math.min(Math.max(target, 0), deck.slides.length);
+    setIndex(nextIndex);
+    channelRef.current?.post({ type: 'navigate', index: nextIndex });
+  }, [deck, hasEnded]);
+
+  const endShow = () => {
+    channelRef.current?.post({ type: 'end' });
+    setHasEnded(true);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      switch (event.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+          event.preventDefault();
+          goTo(index + 1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+          event.preventDefault();
+          goTo(index - 1);
+          break;
+        case 'Home':
+          event.preventDefault();
+          goTo(0);
+          break;
+        case 'End':
+          event.preventDefault();
+          goTo(slideCount - 1);
+          break;
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [goTo, index, slideCount]);
+
+  if (!isPresenterViewSupported()) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-900 text-gray-300 text-sm p-4">
+        Presenter view needs a browser that supports BroadcastChannel.
+      </div>
+    );
+  }
+
+  if (!deck || hasEnded) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-4 bg-gray-900 text-gray-300 text-sm p-4">
+        <p>
+          {hasEnded
+            ? 'The slideshow has ended.'
+            : 'Waiting for the slideshow. Start presenting from the editor window.'}
+        </p>
+        {hasEnded && (
+          <button
+            onClick={() => window.close()}
+            className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium transition-colors duration-200"
+          >
+            Close window
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const currentSlide = deck.slides[index] ?? null;
+  const nextSlide = deck.slides[index + 1] ?? null;
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-white overflow-hidden">
+      {/* Header */}
+      <div className="flex-shrink-0 flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-700">
+        <div className="min-w-0">
+          <h1 className="font-medium truncate">{deck.presentationName}</h1>
+          <p className="text-sm text-gray-400">
+            {currentSlide ? `Slide ${index + 1} of ${slideCount}` : `End of slide show (${slideCount} slides)`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-6">
+          <div className="text-right">
+            <div className="font-mono text-2xl tabular-nums">{formatElapsed(now - (timerStartedAt ?? now))}</div>
+            <button
+              onClick={() => setTimerStartedAt(Date.now())}
+              className="text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Restart timer
+            </button>
+          </div>
+          <div className="text-right">
+            <div className="font-mono text-2xl tabular-nums">{new Date(now).toLocaleTimeString()}</div>
+            <div className="text-xs text-gray-400">Current time</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Slides and notes */}
+      <div className="flex-1 min-h-0 flex flex-col lg:flex-row gap-4 p-4">
+        <div className="flex-[2] min-h-0 min-w-0 flex flex-col gap-2">
+          <span className="text-xs uppercase tracking-wide text-gray-400">Current slide</span>
+          {currentSlide ? (
+            <SlidePreview canvasData={currentSlide.canvasData} slideSize={deck.slideSize} className="flex-1 min-h-0" />
+          ) : (
+            <div className="flex-1 min-h-0 flex items-center justify-center bg-black text-gray-400 text-sm">
+              End of slide show
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 min-w-0 flex flex-col gap-4">
+          <div className="h-1/3 min-h-0 flex flex-col gap-2">
+            <span className="text-xs uppercase tracking-wide text-gray-400">Next slide</span>
+            {nextSlide ? (
+              <SlidePreview canvasData={nextSlide.canvasData} slideSize={deck.slideSize} className="flex-1 min-h-0" />
+            ) : (
+              <div className="flex-1 min-h-0 flex items-center justify-center bg-gray-800 text-gray-400 text-sm">
+                {currentSlide ? 'End of slide show' : 'No more slides'}
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 min-h-0 flex flex-col gap-2">
+            <span className="text-xs uppercase tracking-wide text-gray-400">Notes</span>
+            <div className="flex-1 min-h-0 overflow-y-auto bg-gray-800 rounded-md p-3 text-lg leading-relaxed whitespace-pre-wrap">
+              {currentSlide?.notes?.trim() ? currentSlide.notes : (
+                <span className="text-gray-500 text-sm">No notes for this slide</span>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <div className="flex-shrink-0 flex items-center justify-center gap-2 px-4 py-3 border-t border-gray-700">
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={index === 0}
+          className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Previous
+        </button>
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={index >= slideCount}
+          className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Next
+        </button>
+        <button
+          onClick={endShow}
+          className="ml-4 px-4 py-2 rounded-md bg-gray-700 hover:bg-red-700 text-white text-sm font-medium transition-colors duration-200"
+        >
+          End show
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { StoredPresentation } from '../utils/presentationDB';
+
+interface RestoreSessionDialogProps {
+  session: StoredPresentation;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RestoreSessionDialog: React.FC<RestoreSessionDialogProps> = ({ session, onRestore, onDiscard }) => {
+  const slideCount = session.slides.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-center justify-center p-4">
+      <div
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-md"
+        role="dialog"
+        aria-labelledby="restore-session-title"
+      >
+        <div className="p-4">
+          <h4 id="restore-session-title" className="font-medium text-gray-900">Restore your last session?</h4>
+          <p className="text-sm text-gray-600 mt-2">
+            <span className="font-medium text-gray-800">{session.name}</span> ({slideCount} slide{slideCount === 1 ? '' : 's'})
+            was saved on this device {new Date(session.savedAt).toLocaleString()}.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-colors duration-200"
+          >
+            Start new
+          </button>
+          <button
+            onClick={onRestore}
+            className="px-4 py-2 rounded-md bg-blue-100 border border-blue-300 hover:bg-blue-200 text-blue-800 text-sm font-medium transition-colors duration-200"
+            autoFocus
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { drawRuler } from '../utils/guides';
+
+interface RulerProps {
+  orientation: 'horizontal' | 'vertical';
+  origin: number; // Screen position of the slide's 0 along the ruler, in CSS pixels
+  zoom: number;
+  slideLength: number; // Slide width or height in slide pixels
+  onPointerDown?: (event: React.PointerEvent) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * A ruler along the top or left of the editor, in slide pixels. It fills its
+ * box and is redrawn for the screen's pixel density when the box resizes.
+ */
+export const Ruler: React.FC<RulerProps> = ({ orientation, origin, zoom, slideLength, onPointerDown, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => setSize({ width: canvas.clientWidth, height: canvas.clientHeight }));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0 || size.height === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * ratio);
+    canvas.height = Math.round(size.height * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    const [length, thickness] = orientation === 'horizontal' ? [size.width, size.height] : [size.height, size.width];
+    drawRuler(ctx, orientation, length, thickness, origin, zoom, slideLength);
+  }, [orientation, origin, zoom, slideLength, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      style={{ ...style, cursor: orientation === 'horizontal' ? 'ns-resize' : 'ew-resize', touchAction: 'none' }}
+      onPointerDown={onPointerDown}
+      title="Drag onto the slide to add a guide"
+    />
+  );
+};
@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '../redux/store';
+import { updateSlide } from '../redux/presentationSlice';
+
+interface SlideNotesProps {
+  className?: string;
+}
+
+export const SlideNotes: React.FC<SlideNotesProps> = ({ className }) => {
+  const dispatch = useDispatch();
+  const currentSlide = useSelector((state: RootState) =>
+    state.presentation.slides.find(slide => slide.id === state.presentation.currentSlideId)
+  );
+
+  if (!currentSlide) return null;
+
+  return (
+    <div className={`bg-white border-t border-gray-200 flex flex-col ${className || ''}`}>
+      <label
+        htmlFor="slide-notes"
+        className="px-4 pt-2 text-xs font-medium uppercase tracking-wide text-gray-500"
+      >
+        Speaker notes
+      </label>
+      <textarea
+        id="slide-notes"
+        value={currentSlide.notes ?? ''}
+        onChange={(e) => dispatch(updateSlide({ id: currentSlide.id, notes: e.target.value }))}
+        placeholder="Click to add speaker notes"
+        className="flex-1 min-h-0 resize-none px-4 py-2 text-sm text-gray-800 placeholder-gray-400 focus:outline-none"
+      />
+    </div>
+  );
+};
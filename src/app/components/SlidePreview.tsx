@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import * as fabric from 'fabric';
+import { SlideSize } from '../redux/presentationSlice';
+import { loadCanvasData, fitCanvasToBox } from '../utils/slideRenderer';
+
+interface SlidePreviewProps {
+  canvasData: string | null;
+  slideSize: SlideSize;
+  className?: string;
+}
+
+/**
+ * Read-only rendering of a slide that scales to fill its container while
+ * keeping the slide's aspect ratio.
+ */
+export const SlidePreview: React.FC<SlidePreviewProps> = ({ canvasData, slideSize, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasElementRef = useRef<HTMLCanvasElement>(null);
+  const staticCanvasRef = useRef<fabric.StaticCanvas | null>(null);
+  const loadTokenRef = useRef(0);
+  const slideSizeRef = useRef(slideSize);
+  slideSizeRef.current = slideSize;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!canvasElementRef.current || !container) return;
+
+    const canvas = new fabric.StaticCanvas(canvasElementRef.current, {
+      renderOnAddRemove: false,
+      enableRetinaScaling: true,
+    });
+    staticCanvasRef.current = canvas;
+
+    const resizeObserver = new ResizeObserver(() => {
+      fitCanvasToBox(canvas, slideSizeRef.current, container.clientWidth, container.clientHeight);
+      canvas.renderAll();
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      resizeObserver.disconnect();
+      loadTokenRef.current++;
+      staticCanvasRef.current = null;
+      canvas.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = staticCanvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    fitCanvasToBox(canvas, slideSize, container.clientWidth, container.clientHeight);
+    canvas.renderAll();
+  }, [slideSize]);
+
+  useEffect(() => {
+    const canvas = staticCanvasRef.current;
+    if (!canvas || !canvasData) return;
+
+    const loadToken = ++loadTokenRef.current;
+    loadCanvasData(canvas, canvasData).catch((error) => {
+      if (loadToken !== loadTokenRef.current) return;
+      console.error('Error loading slide data:', error);
+      canvas.clear();
+      canvas.renderAll();
+    });
+  }, [canvasData]);
+
+  return (
+    <div ref={containerRef} className={`relative overflow-hidden ${className || ''}`}>
+      {/* Positioned absolutely so the canvas never affects the measured container size */}
+      <div className={`absolute inset-0 flex items-center justify-center ${canvasData ? '' : 'invisible'}`}>
+        <div className="shadow-lg">
+          <canvas ref={canvasElementRef} />
+        </div>
+      </div>
+    </div>
+  );
+};
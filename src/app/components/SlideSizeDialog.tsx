@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SlideSize } from '../redux/presentationSlice';
+import {
+  SLIDE_SIZE_PRESETS,
+  MIN_SLIDE_DIMENSION,
+  MAX_SLIDE_DIMENSION,
+  SlideSizeFit,
+  findSlideSizePreset,
+  isValidSlideSize,
+} from '../utils/slideSize';
+
+interface SlideSizeDialogProps {
+  slideSize: SlideSize;
+  hasContent: boolean; // Only then does the scale / letterbox choice matter
+  onApply: (size: SlideSize, fit: SlideSizeFit) => void;
+  onClose: () => void;
+}
+
+const CUSTOM = 'custom';
+
+const fits: { id: SlideSizeFit; name: string; description: string }[] = [
+  { id: 'scale', name: 'Scale', description: 'Stretch content to fill the new size' },
+  { id: 'letterbox', name: 'Letterbox', description: 'Keep proportions and centre the content' },
+];
+
+export const SlideSizeDialog: React.FC<SlideSizeDialogProps> = ({ slideSize, hasContent, onApply, onClose }) => {
+  const [presetId, setPresetId] = useState(() => findSlideSizePreset(slideSize)?.id ?? CUSTOM);
+  const [width, setWidth] = useState(String(slideSize.width));
+  const [height, setHeight] = useState(String(slideSize.height));
+  const [fit, setFit] = useState<SlideSizeFit>('letterbox');
+
+  const size = { width: parseInt(width, 10), height: parseInt(height, 10) };
+  const isValid = isValidSlideSize(size);
+  const isUnchanged = size.width === slideSize.width && size.height === slideSize.height;
+
+  const handlePresetSelect = (id: string) => {
+    setPresetId(id);
+    const preset = SLIDE_SIZE_PRESETS.find(option => option.id === id);
+    if (preset) {
+      setWidth(String(preset.size.width));
+      setHeight(String(preset.size.height));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid && !isUnchanged) {
+      onApply(size, fit);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-labelledby="slide-size-title"
+      >
+        <div className="p-4 border-b border-gray-200">
+          <h4 id="slide-size-title" className="font-medium text-gray-900">Slide size</h4>
+          <p className="text-sm text-gray-600 mt-1">
+            Applies to every slide, the slideshow and all exports.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {[...SLIDE_SIZE_PRESETS.map(preset => ({ id: preset.id, name: preset.name })), { id: CUSTOM, name: 'Custom' }].map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => handlePresetSelect(option.id)}
+                className={`px-3 py-2 rounded-md border text-sm font-medium text-left transition-colors duration-200 ${
+                  presetId === option.id
+                    ? 'bg-blue-100 border-blue-300 text-blue-800'
+                    : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'
+                }`}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-end gap-2">
+            <label className="flex-1 text-sm font-medium text-gray-800">
+              Width (px)
+              <input
+                type="number"
+                min={MIN_SLIDE_DIMENSION}
+                max={MAX_SLIDE_DIMENSION}
+                value={width}
+                onChange={(e) => {
+                  setWidth(e.target.value);
+                  setPresetId(CUSTOM);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-normal focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <span className="pb-2 text-gray-500">×</span>
+            <label className="flex-1 text-sm font-medium text-gray-800">
+              Height (px)
+              <input
+                type="number"
+                min={MIN_SLIDE_DIMENSION}
+                max={MAX_SLIDE_DIMENSION}
+                value={height}
+                onChange={(e) => {
+                  setHeight(e.target.value);
+                  setPresetId(CUSTOM);
+                }}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-normal focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          </div>
+          {!isValid && (
+            <p className="text-xs text-red-600">
+              Width and height must be between {MIN_SLIDE_DIMENSION} and {MAX_SLIDE_DIMENSION} px.
+            </p>
+          )}
+
+          {hasContent && (
+            <div>
+              <div className="text-sm font-medium text-gray-800 mb-2">Existing content</div>
+              <div className="flex gap-2">
+                {fits.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setFit(option.id)}
+                    className={`flex-1 px-3 py-2 rounded-md border text-left transition-colors duration-200 ${
+                      fit === option.id
+                        ? 'bg-blue-100 border-blue-300 text-blue-800'
+                        : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'
+                    }`}
+                  >
+                    <div className="text-sm font-medium">{option.name}</div>
+                    <div className="text-xs text-gray-600">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!isValid || isUnchanged}
+            className="px-4 py-2 rounded-md bg-blue-100 border border-blue-300 hover:bg-blue-200 text-blue-800 text-sm font-medium transition-colors duration-200 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+'use client';
+
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import * as fabric from 'fabric';
+import { Slide, SlideSize } from '../redux/presentationSlice';
+import { loadCanvasData, fitCanvasToBox } from '../utils/slideRenderer';
+import { openPresenterChannel, toPresenterSlides, PresenterChannel } from '../utils/presenterChannel';
+
+interface SlideshowProps {
+  slides: Slide[];
+  slideSize: SlideSize;
+  presentationName: string;
+  startIndex: number;
+  onExit: () => void;
+}
+
+type BlankScreen = 'black' | 'white' | null;
+
+// Minimum horizontal travel in px for a touch to count as a swipe
+const SWIPE_THRESHOLD = 50;
+
+export const Slideshow: React.FC<SlideshowProps> = ({ slides, slideSize, presentationName, startIndex, onExit }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasElementRef = useRef<HTMLCanvasElement>(null);
+  const staticCanvasRef = useRef<fabric.StaticCanvas | null>(null);
+  const loadTokenRef = useRef(0);
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  const channelRef = useRef<PresenterChannel | null>(null);
+  const startedAtRef = useRef(Date.now());
+  // Index last received from the presenter window, so it is not echoed back
+  const remoteIndexRef = useRef<number | null>(null);
+
+  // index === slides.length is the "end of slide show" screen
+  const [index, setIndex] = useState(() => Math.min(Math.max(startIndex, 0), Math.max(slides.length - 1, 0)));
+  const [blankScreen, setBlankScreen] = useState<BlankScreen>(null);
+  const [jumpBuffer, setJumpBuffer] = useState('');
+
+  const isEndScreen = index >= slides.length;
+  const slide = isEndScreen ? null : slides[index];
+
+  // Navigating while the screen is blanked only brings the slide back
+  const goTo = useCallback((target: number) => {
+    if (blankScreen) {
+      setBlankScreen(null);
+      return;
+    }
+    setIndex(Math.min(Math.max(target, 0), slides.length));
+  }, [blankScreen, slides.length]);
+
+  const next = useCallback(() => {
+    if (isEndScreen && !blankScreen) {
+      onExit();
+      return;
+    }
+    goTo(index + 1);
+  }, [goTo, index, isEndScreen, blankScreen, onExit]);
+
+  const previous = useCallback(() => goTo(index - 1), [goTo, index]);
+
+  // Latest values for the presenter channel handler, which is registered once
+  const deckRef = useRef({ slides, slideSize, presentationName, index, onExit });
+  deckRef.current = { slides, slideSize, presentationName, index, onExit };
+
+  const postDeck = useCallback(() => {
+    const deck = deckRef.current;
+    channelRef.current?.post({
+      type: 'deck',
+      presentationName: deck.presentationName,
+      slides: toPresenterSlides(deck.slides),
+      slideSize: deck.slideSize,
+      index: deck.index,
+      startedAt: startedAtRef.current,
+    });
+  }, []);
+
+  // Keep a presenter window, if one is open, in sync with this show
+  useEffect(() => {
+    const channel = openPresenterChannel((message) => {
+      switch (message.type) {
+        case 'request-deck':
+          postDeck();
+          break;
+        case 'navigate':
+          remoteIndexRef.current = message.index;
+          setBlankScreen(null);
+          setIndex(Math.min(Math.max(message.index, 0), deckRef.current.slides.length));
+          break;
+        case 'end':
+          deckRef.current.onExit();
+          break;
+      }
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channel?.post({ type: 'end' });
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [postDeck]);
+
+  useEffect(() => {
+    postDeck();
+  }, [slides, slideSize, presentationName, postDeck]);
+
+  useEffect(() => {
+    if (remoteIndexRef.current === index) {
+      remoteIndexRef.current = null;
+      return;
+    }
+    remoteIndexRef.current = null;
+    channelRef.current?.post({ type: 'navigate', index });
+  }, [index]);
+
+  // Create the read-only canvas and enter fullscreen
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!canvasElementRef.current || !container) return;
+
+    // Keys must not reach an editor field (e.g. speaker notes) behind the show
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const canvas = new fabric.StaticCanvas(canvasElementRef.current, {
+      renderOnAddRemove: false,
+      enableRetinaScaling: true,
+    });
+    staticCanvasRef.current = canvas;
+
+    const handleResize = () => {
+      fitCanvasToBox(canvas, deckRef.current.slideSize, window.innerWidth, window.innerHeight);
+      canvas.renderAll();
+    };
+    handleResize();
+    window.addEventListener('resize', handleResize);
+
+    // Leaving fullscreen through the browser (e.g. Esc) ends the show
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) onExit();
+    };
+    if (container.requestFullscreen) {
+      container.requestFullscreen()
+        .then(() => document.addEventListener('fullscreenchange', handleFullscreenChange))
+        .catch(() => {
+          // Fullscreen can be refused; the overlay still covers the window
+        });
+    }
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+      loadTokenRef.current++;
+      staticCanvasRef.current = null;
+      canvas.dispose();
+    };
+  }, [onExit]);
+
+  // Render the current slide
+  useEffect(() => {
+    const canvas = staticCanvasRef.current;
+    if (!canvas || !slide) return;
+
+    const loadToken = ++loadTokenRef.current;
+    loadCanvasData(canvas, slide.canvasData).catch((error) => {
+      if (loadToken !== loadTokenRef.current) return;
+      console.error('Error loading slide data:', error);
+      canvas.clear();
+      canvas.renderAll();
+    });
+  }, [slide]);
+
+  // Keyboard navigation. Captured at the window so editor shortcuts
+  // (Delete, undo, ...) never reach the canvas underneath.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopPropagation();
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (/^[0-9]$/.test(event.key)) {
+        event.preventDefault();
+        setJumpBuffer(buffer => (buffer + event.key).slice(-4));
+        return;
+      }
+
+      switch (event.key) {
+        case 'Enter':
+          event.preventDefault();
+          if (jumpBuffer) {
+            const slideNumber = parseInt(jumpBuffer, 10);
+            if (slideNumber >= 1 && slideNumber <= slides.length) {
+              setBlankScreen(null);
+              setIndex(slideNumber - 1);
+            }
+          } else {
+            next();
+          }
+          break;
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'n':
+          event.preventDefault();
+          next();
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+        case 'p':
+          event.preventDefault();
+          previous();
+          break;
+        case 'Home':
+          event.preventDefault();
+          goTo(0);
+          break;
+        case 'End':
+          event.preventDefault();
+          goTo(slides.length - 1);
+          break;
+        case 'b':
+        case 'B':
+        case '.':
+          event.preventDefault();
+          setBlankScreen(screen => (screen === 'black' ? null : 'black'));
+          break;
+        case 'w':
+        case 'W':
+        case ',':
+          event.preventDefault();
+          setBlankScreen(screen => (screen === 'white' ? null : 'white'));
+          break;
+        case 'Escape':
+          event.preventDefault();
+          onExit();
+          break;
+      }
+      setJumpBuffer('');
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [jumpBuffer, slides.length, next, previous, goTo, onExit]);
+
+  const handleContextMenu = (event: React.MouseEvent) => {
+    event.preventDefault();
+    previous();
+  };
+
+  const handleTouchStart = (event: React.TouchEvent) => {
+    const touch = event.touches[0];
+    touchStartRef.current = { x: touch.clientX, y: touch.clientY };
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start) return;
+
+    // Suppress the emulated click so a tap only advances once
+    event.preventDefault();
+    const touch = event.changedTouches[0];
+    const deltaX = touch.clientX - start.x;
+    const deltaY = touch.clientY - start.y;
+
+    if (Math.abs(deltaX) > SWIPE_THRESHOLD && Math.abs(deltaX) > Math.abs(deltaY)) {
+      if (deltaX < 0) {
+        next();
+      } else {
+        previous();
+      }
+    } else if (Math.abs(deltaY) <= SWIPE_THRESHOLD) {
+      next();
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-[100] bg-black flex items-center justify-center select-none"
+      onClick={next}
+      onContextMenu={handleContextMenu}
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+      role="presentation"
+      aria-label="Slide show"
+    >
+      <div className={isEndScreen ? 'hidden' : ''}>
+        <canvas ref={canvasElementRef} />
+      </div>
+
+      {isEndScreen && (
+        <p className="text-gray-300 text-sm">End of slide show. Click to exit.</p>
+      )}
+
+      {blankScreen && (
+        <div className={`absolute inset-0 ${blankScreen === 'black' ? 'bg-black' : 'bg-white'}`} />
+      )}
+
+      {jumpBuffer && (
+        <div className="absolute bottom-4 right-4 bg-black bg-opacity-70 text-white px-3 py-1 rounded text-sm">
+          Go to slide {jumpBuffer}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  CellRange,
+  TableData,
+  anchorOf,
+  deleteColumn,
+  deleteRow,
+  hasMergedCells,
+  insertColumn,
+  insertRow,
+  mergeCells,
+  rangeBetween,
+  setCellStyle,
+  setColumnWidth,
+  setRowHeight,
+  tableRowHeights,
+  unmergeCells,
+} from '../utils/tables';
+
+interface TableControlsProps {
+  table: TableData;
+  range: CellRange | null; // Selected cells; row, column and cell actions need some
+  onChange: (table: TableData, range: CellRange | null) => void;
+  className?: string;
+}
+
+const BORDER_WIDTHS = [0, 1, 2, 3, 4, 6];
+
+// A number that is applied when the field is left or Enter is pressed, not on every keystroke
+const SizeField: React.FC<{ label: string; value: number; onCommit: (value: number) => void }> = ({ label, value, onCommit }) => {
+  const [text, setText] = useState(String(Math.round(value)));
+  useEffect(() => setText(String(Math.round(value))), [value]);
+
+  const commit = () => {
+    const parsed = Number(text);
+    if (Number.isFinite(parsed) && parsed > 0 && Math.round(parsed) !== Math.round(value)) onCommit(parsed);
+    else setText(String(Math.round(value)));
+  };
+
+  return (
+    <label className="flex items-center gap-1 px-2 text-xs text-gray-500">
+      {label}
+      <input
+        type="number"
+        min={1}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="w-14 px-1 py-0.5 border border-gray-300 rounded text-sm text-gray-700"
+      />
+    </label>
+  );
+};
+
+/**
+ * Editing bar for the selected table: rows and columns, merging, cell colors
+ * and borders, the header row, and the size of the selected column and row.
+ */
+export const TableControls: React.FC<TableControlsProps> = ({ table, range, onChange, className }) => {
+  const rowCount = table.rows.length;
+  const columnCount = table.columns.length;
+  const cell = range ? table.cells[range.top][range.left] : null;
+  // A single cell, after rows or columns around it have changed
+  const cellRange = (data: TableData, row: number, col: number) =>
+    rangeBetween(data, anchorOf(data, row, col), anchorOf(data, row, col));
+
+  const insertRowAt = (index: number, shift: number) => {
+    if (!range) return;
+    const next = insertRow(table, index);
+    onChange(next, rangeBetween(next, [range.top + shift, range.left], [range.bottom + shift, range.right]));
+  };
+  const insertColumnAt = (index: number, shift: number) => {
+    if (!range) return;
+    const next = insertColumn(table, index);
+    onChange(next, rangeBetween(next, [range.top, range.left + shift], [range.bottom, range.right + shift]));
+  };
+  const deleteRows = () => {
+    if (!range) return;
+    let next = table;
+    for (let row = range.bottom; row >= range.top; row--) next = deleteRow(next, row);
+    onChange(next, cellRange(next, Math.min(range.top, next.rows.length - 1), range.left));
+  };
+  const deleteColumns = () => {
+    if (!range) return;
+    let next = table;
+    for (let col = range.right; col >= range.left; col--) next = deleteColumn(next, col);
+    onChange(next, cellRange(next, range.top, Math.min(range.left, next.columns.length - 1)));
+  };
+
+  const buttonClass = 'px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent';
+  const divider = <div className="self-stretch my-1 border-l border-gray-200" />;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-0.5 px-1 py-1 bg-white border border-gray-200 rounded-lg shadow-sm ${className || ''}`}>
+      <button type="button" className={buttonClass} disabled={!range} onClick={() => range && insertRowAt(range.top, 1)} title="Insert a row above">
+        Row above
+      </button>
+      <button type="button" className={buttonClass} disabled={!range} onClick={() => range && insertRowAt(range.bottom + 1, 0)} title="Insert a row below">
+        Row below
+      </button>
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={!range || range.bottom - range.top + 1 >= rowCount}
+        onClick={deleteRows}
+        title="Delete the selected rows"
+      >
+        Delete rows
+      </button>
+      {divider}
+      <button type="button" className={buttonClass} disabled={!range} onClick={() => range && insertColumnAt(range.left, 1)} title="Insert a column to the left">
+        Column left
+      </button>
+      <button type="button" className={buttonClass} disabled={!range} onClick={() => range && insertColumnAt(range.right + 1, 0)} title="Insert a column to the right">
+        Column right
+      </button>
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={!range || range.right - range.left + 1 >= columnCount}
+        onClick={deleteColumns}
+        title="Delete the selected columns"
+      >
+        Delete columns
+      </button>
+      {divider}
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={!range || (range.top === range.bottom && range.left === range.right)}
+        onClick={() => range && onChange(mergeCells(table, range), range)}
+        title="Merge the selected cells"
+      >
+        Merge
+      </button>
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={!range || !hasMergedCells(table, range)}
+        onClick={() => range && onChange(unmergeCells(table, range), cellRange(table, range.top, range.left))}
+        title="Split merged cells"
+      >
+        Unmerge
+      </button>
+      {divider}
+      <label className="flex items-center gap-1 px-2 text-xs text-gray-500" title="Fill of the selected cells">
+        Fill
+        <input
+          type="color"
+          disabled={!range}
+          value={cell?.fill ?? (table.headerRow && range?.top === 0 ? table.headerFill : table.fill)}
+          onChange={(e) => range && onChange(setCellStyle(table, range, { fill: e.target.value }), range)}
+          className="w-6 h-6 border border-gray-300 rounded cursor-pointer disabled:opacity-40"
+        />
+      </label>
+      <label className="flex items-center gap-1 px-2 text-xs text-gray-500" title="Border of the selected cells">
+        Border
+        <input
+          type="color"
+          disabled={!range}
+          value={cell?.borderColor ?? table.borderColor}
+          onChange={(e) => range && onChange(setCellStyle(table, range, { borderColor: e.target.value }), range)}
+          className="w-6 h-6 border border-gray-300 rounded cursor-pointer disabled:opacity-40"
+        />
+        <select
+          disabled={!range}
+          value={cell?.borderWidth ?? table.borderWidth}
+          onChange={(e) => range && onChange(setCellStyle(table, range, { borderWidth: Number(e.target.value) }), range)}
+          className="px-1 py-0.5 border border-gray-300 rounded text-xs text-gray-700 disabled:opacity-40"
+        >
+          {BORDER_WIDTHS.map(width => (
+            <option key={width} value={width}>{width === 0 ? 'None' : `${width}px`}</option>
+          ))}
+        </select>
+      </label>
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={!range}
+        onClick={() => range && onChange(setCellStyle(table, range, { fill: undefined, borderColor: undefined, borderWidth: undefined }), range)}
+        title="Give the selected cells the table's colors and borders again"
+      >
+        Reset
+      </button>
+      {divider}
+      <label className="flex items-center gap-1 px-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={table.headerRow}
+          onChange={(e) => onChange({ ...table, headerRow: e.target.checked }, range)}
+        />
+        Header row
+      </label>
+      {range && (
+        <>
+          {divider}
+          <SizeField
+            label="Width"
+            value={table.columns[range.left]}
+            onCommit={(width) => onChange(setColumnWidth(table, range.left, width), range)}
+          />
+          <SizeField
+            label="Height"
+            value={tableRowHeights(table)[range.top]}
+            onCommit={(height) => onChange(setRowHeight(table, range.top, height), range)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  PresentationTheme,
+  ThemeBackground,
+  ThemeColorSlot,
+  ThemeFontSlot,
+  THEME_COLOR_SLOTS,
+  THEME_COLOR_NAMES,
+  THEME_FONTS,
+  THEME_PRESETS,
+} from '../utils/themes';
+import { FileHandlers } from '../utils/fileHandlers';
+import { EmbeddedFont } from '../utils/fonts';
+import { AssetTable, PresentationAsset, createAssetFromDataUrl } from '../utils/assets';
+
+interface ThemeDialogProps {
+  theme: PresentationTheme;
+  assets: AssetTable; // Holds the theme's background image
+  fonts: EmbeddedFont[]; // Embedded fonts, offered alongside the web-safe ones
+  onApply: (theme: PresentationTheme, backgroundAsset?: PresentationAsset) => void; // With the asset of a newly chosen image
+
+  onAddFont: (font: EmbeddedFont) => void;
+  onClose: () => void;
+}
+
+const gradientAngles = [
+  { angle: 0, name: 'Left to right' },
+  { angle: 45, name: 'Diagonal' },
+  { angle: 90, name: 'Top to bottom' },
+  { angle: 135, name: 'Reverse diagonal' },
+];
+
+const readImageSize = (src: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Failed to read background image'));
+    img.src = src;
+  });
+
+// CSS preview of a theme background, matching what the slides will show
+const backgroundStyle = (theme: PresentationTheme, assets: AssetTable): React.CSSProperties => {
+  const { background } = theme;
+  if (background.type === 'gradient') {
+    // CSS gradient angles start at "to top"; theme angles start at "to right"
+    return { backgroundImage: `linear-gradient(${background.angle + 90}deg, ${background.from}, ${background.to})` };
+  }
+  if (background.type === 'image') {
+    return { backgroundImage: `url(${assets[background.assetId]?.src})`, backgroundSize: 'cover', backgroundPosition: 'center' };
+  }
+  return { backgroundColor: background.color };
+};
+
+export const ThemeDialog: React.FC<ThemeDialogProps> = ({ theme, assets, fonts, onApply, onAddFont, onClose }) => {
+  const [draft, setDraft] = useState<PresentationTheme>(theme);
+  // An image chosen in the dialog joins the asset table only when the theme is applied
+  const [chosenImage, setChosenImage] = useState<PresentationAsset | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [fontError, setFontError] = useState<string | null>(null);
+
+  // Includes the draft's own fonts, which may come from an imported file
+  const fontChoices = useMemo(
+    () => Array.from(new Set([...THEME_FONTS, ...fonts.map(font => font.family), draft.fonts.heading, draft.fonts.body])),
+    [fonts, draft.fonts]
+  );
+
+  // Any edit turns a preset into the presentation's own custom theme
+  const customize = (changes: Partial<PresentationTheme>) => {
+    setDraft(prev => ({ ...prev, ...changes, id: 'custom', name: 'Custom' }));
+  };
+
+  const handleColorChange = (slot: ThemeColorSlot, color: string) => {
+    const colors = { ...draft.colors, [slot]: color };
+    // A solid background is the background color slot
+    const background = slot === 'background' && draft.background.type === 'solid'
+      ? { type: 'solid' as const, color }
+      : draft.background;
+    customize({ colors, background });
+  };
+
+  const handleFontChange = (slot: ThemeFontSlot, font: string) => {
+    customize({ fonts: { ...draft.fonts, [slot]: font } });
+  };
+
+  const handleBackgroundChange = (background: ThemeBackground) => {
+    customize({ background });
+  };
+
+  const handleChooseImage = async () => {
+    setImageError(null);
+    try {
+      const src = await FileHandlers.loadImageFromFile();
+      const size = await readImageSize(src);
+      const asset = await createAssetFromDataUrl(src);
+      if (!asset) throw new Error('Failed to load image');
+      setChosenImage(asset);
+      handleBackgroundChange({ type: 'image', assetId: asset.id, ...size });
+    } catch (error) {
+      setImageError(error instanceof Error ? error.message : 'Failed to load image');
+    }
+  };
+
+  const handleAddFont = async () => {
+    setFontError(null);
+    try {
+      onAddFont(await FileHandlers.loadFontFromFile());
+    } catch (error) {
+      setFontError(error instanceof Error ? error.message : 'Failed to load font');
+    }
+  };
+
+  const { background } = draft;
+  const previewAssets = chosenImage ? { ...assets, [chosenImage.id]: chosenImage } : assets;
+  const isChosenImage = background.type === 'image' && background.assetId === chosenImage?.id;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-2xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="theme-title"
+      >
+        <div className="p-4 border-b border-gray-200">
+          <h4 id="theme-title" className="font-medium text-gray-900">Theme</h4>
+          <p className="text-sm text-gray-600 mt-1">
+            Restyles every slide. Objects colored with theme colors follow the theme; other colors stay as they are.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          {/* Presets */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {THEME_PRESETS.map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => setDraft(preset)}
+                className={`rounded-lg border p-2 text-left transition-colors duration-200 ${
+                  draft.id === preset.id
+                    ? 'border-blue-300 ring-2 ring-blue-200'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="aspect-video rounded border border-gray-200 p-2 flex flex-col justify-between" style={backgroundStyle(preset, previewAssets)}>
+                  <span className="text-sm font-bold truncate" style={{ color: preset.colors.text, fontFamily: preset.fonts.heading }}>
+                    Aa
+                  </span>
+                  <div className="flex gap-1">
+                    {THEME_COLOR_SLOTS.filter(slot => slot.startsWith('accent')).map(slot => (
+                      <span key={slot} className="w-3 h-3 rounded-sm" style={{ backgroundColor: preset.colors[slot] }} />
+                    ))}
+                  </div>
+                </div>
+                <div className="mt-1 text-xs font-medium text-gray-800">{preset.name}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Colors */}
+          <div>
+            <div className="text-sm font-medium text-gray-800 mb-2">Colors</div>
+            <div className="grid grid-cols-4 gap-2">
+              {THEME_COLOR_SLOTS.map((slot) => (
+                <label key={slot} className="flex items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="color"
+                    value={draft.colors[slot]}
+                    onChange={(e) => handleColorChange(slot, e.target.value)}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  {THEME_COLOR_NAMES[slot]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Fonts */}
+          <div className="grid grid-cols-2 gap-3">
+            {(['heading', 'body'] as const).map((slot) => (
+              <label key={slot} className="text-sm font-medium text-gray-800">
+                {slot === 'heading' ? 'Heading font' : 'Body font'}
+                <select
+                  value={draft.fonts[slot]}
+                  onChange={(e) => handleFontChange(slot, e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-normal text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  style={{ fontFamily: draft.fonts[slot] }}
+                >
+                  {fontChoices.map(font => (
+                    <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <div className="col-span-2">
+              <button
+                type="button"
+                onClick={handleAddFont}
+                className="text-sm text-blue-700 hover:underline"
+              >
+                Add a font file
+              </button>
+              <span className="text-xs text-gray-500 ml-2">Saved with the presentation, so it shows the same everywhere</span>
+              {fontError && <p className="text-xs text-red-600 mt-1">{fontError}</p>}
+            </div>
+          </div>
+
+          {/* Background */}
+          <div>
+            <div className="text-sm font-medium text-gray-800 mb-2">Background</div>
+            <div className="flex gap-2 mb-3">
+              {(['solid', 'gradient', 'image'] as const).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => {
+                    if (type === 'solid') handleBackgroundChange({ type, color: draft.colors.background });
+                    if (type === 'gradient') handleBackgroundChange({ type, from: draft.colors.background, to: draft.colors.accent1, angle: 90 });
+                    if (type === 'image') handleChooseImage();
+                  }}
+                  className={`flex-1 px-3 py-2 rounded-md border text-sm font-medium capitalize transition-colors duration-200 ${
+                    background.type === type
+                      ? 'bg-blue-100 border-blue-300 text-blue-800'
+                      : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+
+            {background.type === 'gradient' && (
+              <div className="flex items-center gap-3 text-xs text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={background.from}
+                    onChange={(e) => handleBackgroundChange({ ...background, from: e.target.value })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  From
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={background.to}
+                    onChange={(e) => handleBackgroundChange({ ...background, to: e.target.value })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  To
+                </label>
+                <select
+                  value={background.angle}
+                  onChange={(e) => handleBackgroundChange({ ...background, angle: Number(e.target.value) })}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-800"
+                >
+                  {gradientAngles.map(option => (
+                    <option key={option.angle} value={option.angle}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {background.type === 'image' && (
+              <button
+                type="button"
+                onClick={handleChooseImage}
+                className="text-sm text-blue-700 hover:underline"
+              >
+                Choose another image
+              </button>
+            )}
+            {imageError && <p className="text-xs text-red-600 mt-1">{imageError}</p>}
+
+            <div className="mt-3 aspect-video max-w-xs rounded border border-gray-200 p-3" style={backgroundStyle(draft, previewAssets)}>
+              <div className="font-bold" style={{ color: draft.colors.text, fontFamily: draft.fonts.heading }}>Heading</div>
+              <div className="text-sm" style={{ color: draft.colors.text, fontFamily: draft.fonts.body }}>Body text</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(draft, isChosenImage ? chosenImage! : undefined)}
+            disabled={draft === theme}
+            className="px-4 py-2 rounded-md bg-blue-100 border border-blue-300 hover:bg-blue-200 text-blue-800 text-sm font-medium transition-colors duration-200 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -7,31 +7,100 @@ import {
   setSelectedTool,
   setPresentationName,
   loadPresentation,
-  markAsSaved,
   setError,
   addSlide,
   clearPresentation,
+  setSlideSize,
+  setSlideLayout,
+  setTheme,
+  addAsset,
+  removeUnusedAssets,
+  addEmbeddedFont,
+  setGridSettings,
+  clearGuides,
+  Slide,
+  SlideSize,
 } from '../redux/presentationSlice';
+import { undo, redo } from '../redux/historySlice';
 import { FileHandlers } from '../utils/fileHandlers';
+import { SlideImportReport } from '../utils/pptx/importer';
+import { isPresenterViewSupported } from '../utils/presenterChannel';
+import { ImportReportDialog } from './ImportReportDialog';
+import { ExportImagesDialog } from './ExportImagesDialog';
+import { ImageExportOptions } from '../utils/slideImageExporter';
+import { SlideSizeDialog } from './SlideSizeDialog';
+import { LayoutPicker } from './LayoutPicker';
+import { SlideSizeFit } from '../utils/slideSize';
+import { ThemeDialog } from './ThemeDialog';
+import { AssetLibrary } from './AssetLibrary';
+import { PresentationAsset } from '../utils/assets';
+import { PresentationTheme, ThemeColorSlot, THEME_COLOR_SLOTS, THEME_COLOR_NAMES } from '../utils/themes';
+import { AlignMode, DistributeDirection, ALIGN_MODES } from '../utils/alignment';
+import { ZOrderAction, Z_ORDER_ACTIONS } from '../utils/layers';
+import { BrushSettings, BRUSH_COLORS, BRUSH_MODES, BRUSH_WIDTHS, DEFAULT_BRUSH } from '../utils/drawing';
+import { CONNECTOR_ROUTINGS, ConnectorStyle, DEFAULT_CONNECTOR_STYLE } from '../utils/connectors';
+import { DEFAULT_TABLE_TOOL, TABLE_PICKER_SIZE, TableToolOptions } from '../utils/tables';
+import { DEFAULT_SHAPE_TOOL, MAX_POLYGON_SIDES, MIN_POLYGON_SIDES, SHAPE_KINDS, ShapeKind, ShapeToolOptions } from '../utils/shapes';
+import { MAX_GRID_SPACING, MAX_GRID_SUBDIVISIONS, MIN_GRID_SPACING, isValidGridSpacing } from '../utils/guides';
 
 interface ToolbarProps {
   className?: string;
   onAddImageFromUrl?: (url: string) => void;
   onAddImageFromFile?: () => void;
-  onTextFormatChange?: (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string }) => void;
-  onShapeFormatChange?: (format: { fill?: string; stroke?: string; strokeWidth?: number }) => void;
+  onAddImageFromAsset?: (assetId: string) => void;
+  onTextFormatChange?: (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string; fillSlot?: ThemeColorSlot }) => void;
+  onShapeFormatChange?: (format: { fill?: string; fillSlot?: ThemeColorSlot; stroke?: string; strokeSlot?: ThemeColorSlot; strokeWidth?: number; cornerRadius?: number }) => void;
+  onBrushChange?: (settings: Partial<BrushSettings>) => void;
+  onShapeToolChange?: (options: Partial<ShapeToolOptions>) => void;
+  onConnectorStyleChange?: (style: Partial<ConnectorStyle>) => void;
+  onTableToolChange?: (options: Partial<TableToolOptions>) => void;
+  onAlign?: (mode: AlignMode) => void;
+  onDistribute?: (direction: DistributeDirection) => void;
+  onZOrder?: (action: ZOrderAction) => void;
+  onGroup?: () => void;
+  onUngroup?: () => void;
   onToggleSidebar?: () => void;
+  onToggleLayers?: () => void;
+  onToggleRulers?: () => void;
+  onStartPresentation?: () => void;
+  onStartPresenterView?: () => void;
   isSidebarOpen?: boolean;
+  isLayersPanelOpen?: boolean;
+  showRulers?: boolean;
 }
 
+const slideHasContent = (slide: Slide): boolean => {
+  try {
+    return (JSON.parse(slide.canvasData).objects ?? []).length > 0;
+  } catch {
+    return false;
+  }
+};
+
 export const Toolbar: React.FC<ToolbarProps> = ({ 
   className, 
   onAddImageFromUrl, 
   onAddImageFromFile,
+  onAddImageFromAsset,
   onTextFormatChange,
   onShapeFormatChange,
+  onBrushChange,
+  onShapeToolChange,
+  onConnectorStyleChange,
+  onTableToolChange,
+  onAlign,
+  onDistribute,
+  onZOrder,
+  onGroup,
+  onUngroup,
   onToggleSidebar,
-  isSidebarOpen
+  onToggleLayers,
+  onToggleRulers,
+  onStartPresentation,
+  onStartPresenterView,
+  isSidebarOpen,
+  isLayersPanelOpen,
+  showRulers
 }) => {
   const dispatch = useDispatch();
   const canvasRef = useRef<any>(null);
@@ -40,23 +109,58 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   const [showSaveDropdown, setShowSaveDropdown] = useState(false);
   const [showTextFormatDropdown, setShowTextFormatDropdown] = useState(false);
   const [showShapeFormatDropdown, setShowShapeFormatDropdown] = useState(false);
+  const [showDrawDropdown, setShowDrawDropdown] = useState(false);
+  const [showShapePicker, setShowShapePicker] = useState(false);
+  const [showConnectorDropdown, setShowConnectorDropdown] = useState(false);
+  const [showTablePicker, setShowTablePicker] = useState(false);
   const [showImageOptions, setShowImageOptions] = useState(false);
+  const [showNewSlideDropdown, setShowNewSlideDropdown] = useState(false);
+  const [showLayoutDropdown, setShowLayoutDropdown] = useState(false);
+  const [showArrangeDropdown, setShowArrangeDropdown] = useState(false);
+  const [showViewDropdown, setShowViewDropdown] = useState(false);
+  const [importReport, setImportReport] = useState<SlideImportReport[] | null>(null);
+  const [showExportImages, setShowExportImages] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [showSlideSize, setShowSlideSize] = useState(false);
+  const [showTheme, setShowTheme] = useState(false);
+  const [showAssetLibrary, setShowAssetLibrary] = useState(false);
   const [currentFontSize, setCurrentFontSize] = useState(16);
   const [currentTextColor, setCurrentTextColor] = useState('#000000');
   const [currentFillColor, setCurrentFillColor] = useState('#000000');
   const [currentBorderColor, setCurrentBorderColor] = useState('#2563eb');
   const [currentBorderWidth, setCurrentBorderWidth] = useState(3);
+  const [currentCornerRadius, setCurrentCornerRadius] = useState(12);
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+  const [shapeTool, setShapeTool] = useState<ShapeToolOptions>(DEFAULT_SHAPE_TOOL);
+  const [connectorStyle, setConnectorStyle] = useState<ConnectorStyle>(DEFAULT_CONNECTOR_STYLE);
+  // Size under the pointer in the table picker, shown until it is clicked
+  const [tablePickerHover, setTablePickerHover] = useState<TableToolOptions>(DEFAULT_TABLE_TOOL);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const textFormatRef = useRef<HTMLDivElement>(null);
   const shapeFormatRef = useRef<HTMLDivElement>(null);
+  const drawRef = useRef<HTMLDivElement>(null);
+  const shapePickerRef = useRef<HTMLDivElement>(null);
+  const connectorRef = useRef<HTMLDivElement>(null);
+  const tablePickerRef = useRef<HTMLDivElement>(null);
   const imageOptionsRef = useRef<HTMLDivElement>(null);
+  const newSlideRef = useRef<HTMLDivElement>(null);
+  const layoutRef = useRef<HTMLDivElement>(null);
+  const arrangeRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<HTMLDivElement>(null);
   
   const selectedTool = useSelector((state: RootState) => state.presentation.selectedTool);
   const presentationName = useSelector((state: RootState) => state.presentation.presentationName);
   const slides = useSelector((state: RootState) => state.presentation.slides);
+  const slideSize = useSelector((state: RootState) => state.presentation.slideSize);
+  const theme = useSelector((state: RootState) => state.presentation.theme);
+  const assets = useSelector((state: RootState) => state.presentation.assets);
+  const fonts = useSelector((state: RootState) => state.presentation.fonts);
+  const guides = useSelector((state: RootState) => state.presentation.guides);
   const lastSaved = useSelector((state: RootState) => state.presentation.lastSaved);
   const currentSlideId = useSelector((state: RootState) => state.presentation.currentSlideId);
   const isDirty = useSelector((state: RootState) => state.presentation.isDirty);
+  const undoLabel = useSelector((state: RootState) => state.history.past[state.history.past.length - 1]?.label);
+  const redoLabel = useSelector((state: RootState) => state.history.future[state.history.future.length - 1]?.label);
 
   const currentSlide = slides.find(slide => slide.id === currentSlideId);
 
@@ -72,19 +176,43 @@ export const Toolbar: React.FC<ToolbarProps> = ({
       if (shapeFormatRef.current && !shapeFormatRef.current.contains(event.target as Node)) {
         setShowShapeFormatDropdown(false);
       }
+      if (drawRef.current && !drawRef.current.contains(event.target as Node)) {
+        setShowDrawDropdown(false);
+      }
+      if (shapePickerRef.current && !shapePickerRef.current.contains(event.target as Node)) {
+        setShowShapePicker(false);
+      }
+      if (connectorRef.current && !connectorRef.current.contains(event.target as Node)) {
+        setShowConnectorDropdown(false);
+      }
+      if (tablePickerRef.current && !tablePickerRef.current.contains(event.target as Node)) {
+        setShowTablePicker(false);
+      }
       if (imageOptionsRef.current && !imageOptionsRef.current.contains(event.target as Node)) {
         setShowImageOptions(false);
       }
+      if (newSlideRef.current && !newSlideRef.current.contains(event.target as Node)) {
+        setShowNewSlideDropdown(false);
+      }
+      if (layoutRef.current && !layoutRef.current.contains(event.target as Node)) {
+        setShowLayoutDropdown(false);
+      }
+      if (arrangeRef.current && !arrangeRef.current.contains(event.target as Node)) {
+        setShowArrangeDropdown(false);
+      }
+      if (viewRef.current && !viewRef.current.contains(event.target as Node)) {
+        setShowViewDropdown(false);
+      }
     };
 
-    if (showSaveDropdown || showTextFormatDropdown || showShapeFormatDropdown || showImageOptions) {
+    if (showSaveDropdown || showTextFormatDropdown || showShapeFormatDropdown || showDrawDropdown || showShapePicker || showConnectorDropdown || showTablePicker || showImageOptions || showNewSlideDropdown || showLayoutDropdown || showArrangeDropdown || showViewDropdown) {
       document.addEventListener('mousedown', handleClickOutside);
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showSaveDropdown, showTextFormatDropdown, showShapeFormatDropdown, showImageOptions]);
+  }, [showSaveDropdown, showTextFormatDropdown, showShapeFormatDropdown, showDrawDropdown, showShapePicker, showConnectorDropdown, showTablePicker, showImageOptions, showNewSlideDropdown, showLayoutDropdown, showArrangeDropdown, showViewDropdown]);
 
   const tools = [
     { id: 'select', name: 'Select', icon: 'cursor' },
@@ -92,6 +220,10 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     { id: 'rectangle', name: 'Rectangle', icon: 'rectangle' },
     { id: 'circle', name: 'Circle', icon: 'circle' },
     { id: 'line', name: 'Line', icon: 'line' },
+    { id: 'shape', name: 'Shapes', icon: 'shapes' },
+    { id: 'connector', name: 'Connector', icon: 'connector' },
+    { id: 'table', name: 'Table', icon: 'table' },
+    { id: 'draw', name: 'Draw', icon: 'pen' },
     { id: 'image', name: 'Image', icon: 'image' },
   ] as const;
 
@@ -101,29 +233,72 @@ export const Toolbar: React.FC<ToolbarProps> = ({
       setShowImageOptions(!showImageOptions);
       return;
     }
+    if (toolId === 'shape') {
+      // Pick a shape first; choosing one selects the tool
+      setShowShapePicker(!showShapePicker);
+      return;
+    }
+    if (toolId === 'connector') {
+      // The connector style is set first, and also restyles selected connectors
+      setShowConnectorDropdown(!showConnectorDropdown);
+      return;
+    }
+    if (toolId === 'table') {
+      // Pick the number of rows and columns first; choosing a size selects the tool
+      setShowTablePicker(!showTablePicker);
+      return;
+    }
     console.log('🔧 Tool selected:', toolId);
     dispatch(setSelectedTool(toolId));
   };
 
-  const handleSavePresentation = async (format: 'json' | 'pptx' = 'json') => {
+  const handleSavePresentation = async (format: 'json' | 'chromadeck' | 'pptx' | 'pdf' = 'json') => {
     try {
-      await FileHandlers.savePresentation(presentationName, slides, format);
-      dispatch(markAsSaved());
+      // Downloads leave the saved state alone; it tracks the autosaved session
+      await FileHandlers.savePresentation(presentationName, slides, slideSize, theme, assets, fonts, guides, format);
       setShowSaveDropdown(false);
     } catch (error) {
       dispatch(setError(`Failed to save presentation as ${format.toUpperCase()}`));
     }
   };
 
+  const handleExportImages = async (options: ImageExportOptions) => {
+    setExportProgress({ completed: 0, total: slides.length });
+    try {
+      await FileHandlers.exportSlidesAsImages(presentationName, slides, slideSize, assets, options, (completed, total) => {
+        setExportProgress({ completed, total });
+      });
+      setShowExportImages(false);
+    } catch (error) {
+      dispatch(setError('Failed to export slides as images'));
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
   const handleLoadPresentation = async () => {
     try {
       const data = await FileHandlers.loadPresentation();
-      dispatch(loadPresentation({ slides: data.slides, name: data.name }));
+      dispatch(loadPresentation({ slides: data.slides, name: data.name, slideSize: data.slideSize, theme: data.theme, assets: data.assets, fonts: data.fonts, guides: data.guides }));
+      if (data.importReport && data.importReport.length > 0) {
+        setImportReport(data.importReport);
+      }
     } catch (error) {
-      dispatch(setError('Failed to load presentation'));
+      dispatch(setError(error instanceof Error ? `Failed to load presentation: ${error.message}` : 'Failed to load presentation'));
     }
   };
 
+  const handleApplySlideSize = (size: SlideSize, fit: SlideSizeFit) => {
+    dispatch(setSlideSize({ size, fit }));
+    setShowSlideSize(false);
+  };
+
+  const handleApplyTheme = (newTheme: PresentationTheme, backgroundAsset?: PresentationAsset) => {
+    if (backgroundAsset) dispatch(addAsset(backgroundAsset));
+    dispatch(setTheme(newTheme));
+    setShowTheme(false);
+  };
+
   const handleAddImageFromUrl = () => {
     if (imageUrl.trim() && onAddImageFromUrl) {
       onAddImageFromUrl(imageUrl.trim());
@@ -139,6 +314,18 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     }
   };
 
+  const handleOpenAssetLibrary = () => {
+    setShowAssetLibrary(true);
+    setShowImageOptions(false);
+  };
+
+  const handleAddImageFromAsset = (assetId: string) => {
+    if (onAddImageFromAsset) {
+      onAddImageFromAsset(assetId);
+      setShowAssetLibrary(false);
+    }
+  };
+
   const handleNewPresentation = () => {
     if (isDirty) {
       const confirm = window.confirm('You have unsaved changes. Are you sure you want to create a new presentation?');
@@ -148,8 +335,16 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     dispatch(addSlide({ name: 'Slide 1' }));
   };
 
-  const handleAddSlide = () => {
-    dispatch(addSlide({}));
+  const handleAddSlide = (layoutId: string) => {
+    dispatch(addSlide({ layoutId }));
+    setShowNewSlideDropdown(false);
+  };
+
+  const handleChangeLayout = (layoutId: string) => {
+    if (currentSlide) {
+      dispatch(setSlideLayout({ id: currentSlide.id, layoutId }));
+    }
+    setShowLayoutDropdown(false);
   };
 
   const handleSaveName = () => {
@@ -164,7 +359,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     }
   };
 
-  const handleTextFormatChange = (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string }) => {
+  const handleTextFormatChange = (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string; fillSlot?: ThemeColorSlot }) => {
     if (onTextFormatChange) {
       onTextFormatChange(format);
     }
@@ -174,7 +369,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     if (format.fill) setCurrentTextColor(format.fill);
   };
 
-  const handleShapeFormatChange = (format: { fill?: string; stroke?: string; strokeWidth?: number }) => {
+  const handleShapeFormatChange = (format: { fill?: string; fillSlot?: ThemeColorSlot; stroke?: string; strokeSlot?: ThemeColorSlot; strokeWidth?: number; cornerRadius?: number }) => {
     if (onShapeFormatChange) {
       onShapeFormatChange(format);
     }
@@ -183,11 +378,46 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     if (format.fill) setCurrentFillColor(format.fill);
     if (format.stroke) setCurrentBorderColor(format.stroke);
     if (format.strokeWidth) setCurrentBorderWidth(format.strokeWidth);
+    if (format.cornerRadius !== undefined) setCurrentCornerRadius(format.cornerRadius);
   };
 
+  const handleBrushChange = (settings: Partial<BrushSettings>) => {
+    setBrush(prev => ({ ...prev, ...settings }));
+    onBrushChange?.(settings);
+  };
+
+  const handleShapeToolChange = (options: Partial<ShapeToolOptions>) => {
+    setShapeTool(prev => ({ ...prev, ...options }));
+    onShapeToolChange?.(options);
+  };
+
+  const handleConnectorStyleChange = (style: Partial<ConnectorStyle>) => {
+    setConnectorStyle(prev => ({ ...prev, ...style }));
+    onConnectorStyleChange?.(style);
+  };
+
+  const handleDrawConnector = () => {
+    dispatch(setSelectedTool('connector'));
+    setShowConnectorDropdown(false);
+  };
+
+  const handleTableSizeSelect = (size: TableToolOptions) => {
+    onTableToolChange?.(size);
+    dispatch(setSelectedTool('table'));
+    setShowTablePicker(false);
+  };
+
+  const handleShapeSelect = (kind: ShapeKind) => {
+    handleShapeToolChange({ kind });
+    dispatch(setSelectedTool('shape'));
+    setShowShapePicker(false);
+  };
+
+
   const fontSizes = [8, 10, 12, 14, 16, 18, 20, 24, 28, 32, 36, 48, 64, 72];
   const colors = ['#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FFA500', '#800080', '#008000', '#FFC0CB'];
   const borderWidths = [1, 2, 3, 4, 5, 6, 8, 10];
+  const polygonSideCounts = Array.from({ length: MAX_POLYGON_SIDES - MIN_POLYGON_SIDES + 1 }, (_, index) => MIN_POLYGON_SIDES + index);
 
   const getToolIcon = (iconType: string) => {
     switch (iconType) {
@@ -221,6 +451,30 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14" />
           </svg>
         );
+      case 'shapes':
+        return (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 3l5 8H3zM17.5 13a3.5 3.5 0 110 7 3.5 3.5 0 010-7zM3 14h7v7H3z" />
+          </svg>
+        );
+      case 'connector':
+        return (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h5v5H3zM16 16h5v5h-5zM8 5.5h4.5v13H16" />
+          </svg>
+        );
+      case 'table':
+        return (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2zM3 9h18M3 15h18M9 3v18M15 3v18" />
+          </svg>
+        );
+      case 'pen':
+        return (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536 8 18l1-5zM4 21c2-1 3-3 5-3" />
+          </svg>
+        );
       case 'image':
         return (
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -286,7 +540,187 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           {/* Drawing Tools */}
           <div className="flex items-center gap-1 lg:gap-2 bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-1 shadow-inner border border-gray-200">
             {tools.map((tool) => (
-              tool.id === 'image' ? (
+              tool.id === 'shape' ? (
+                <div key={tool.id} className="relative" ref={shapePickerRef}>
+                  <button
+                    className={`p-2 lg:p-3 rounded-lg transition-all duration-200 flex items-center justify-center transform hover:scale-105 ${
+                      selectedTool === 'shape' || showShapePicker
+                        ? 'bg-gray-200 border border-gray-300 text-gray-800 shadow-sm'
+                        : 'hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 hover:ring-1 hover:ring-gray-200'
+                    }`}
+                    title={tool.name}
+                    onClick={() => handleToolSelect(tool.id)}
+                  >
+                    {getToolIcon(tool.icon)}
+                  </button>
+
+                  {/* Shape Picker Dropdown */}
+                  {showShapePicker && (
+                    <div className="absolute left-0 top-full mt-1 w-72 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                      <div className="p-4">
+                        <h4 className="font-medium text-gray-900 mb-1">Shapes</h4>
+                        <p className="text-xs text-gray-500 mb-3">Click on the canvas to place a shape, or drag to size it.</p>
+
+                        <div className="grid grid-cols-5 gap-2 mb-4">
+                          {SHAPE_KINDS.map(({ kind, name, icon }) => (
+                            <button
+                              key={kind}
+                              onClick={() => handleShapeSelect(kind)}
+                              className={`p-2 border rounded flex items-center justify-center transition-colors ${
+                                selectedTool === 'shape' && shapeTool.kind === kind
+                                  ? 'bg-blue-50 border-blue-300 text-blue-800'
+                                  : 'hover:bg-gray-50 text-gray-700'
+                              }`}
+                              title={name}
+                            >
+                              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d={icon} />
+                              </svg>
+                            </button>
+                          ))}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                          <label className="block text-sm text-gray-700">
+                            Polygon sides
+                            <select
+                              value={shapeTool.sides}
+                              onChange={(e) => handleShapeToolChange({ sides: Number(e.target.value) })}
+                              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {polygonSideCounts.map(count => (
+                                <option key={count} value={count}>{count}</option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="block text-sm text-gray-700">
+                            Star points
+                            <select
+                              value={shapeTool.starPoints}
+                              onChange={(e) => handleShapeToolChange({ starPoints: Number(e.target.value) })}
+                              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {polygonSideCounts.map(count => (
+                                <option key={count} value={count}>{count}</option>
+                              ))}
+                            </select>
+                          </label>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : tool.id === 'connector' ? (
+                <div key={tool.id} className="relative" ref={connectorRef}>
+                  <button
+                    className={`p-2 lg:p-3 rounded-lg transition-all duration-200 flex items-center justify-center transform hover:scale-105 ${
+                      selectedTool === 'connector' || showConnectorDropdown
+                        ? 'bg-gray-200 border border-gray-300 text-gray-800 shadow-sm'
+                        : 'hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 hover:ring-1 hover:ring-gray-200'
+                    }`}
+                    title={tool.name}
+                    onClick={() => handleToolSelect(tool.id)}
+                  >
+                    {getToolIcon(tool.icon)}
+                  </button>
+
+                  {/* Connector Dropdown */}
+                  {showConnectorDropdown && (
+                    <div className="absolute left-0 top-full mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                      <div className="p-4">
+                        <h4 className="font-medium text-gray-900 mb-1">Connector</h4>
+                        <p className="text-xs text-gray-500 mb-3">Connectors stay attached to the sides and centers of shapes as they move. Changes here also apply to selected connectors.</p>
+
+                        {/* Routing */}
+                        <div className="mb-4">
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Route</label>
+                          <div className="grid grid-cols-3 gap-2">
+                            {CONNECTOR_ROUTINGS.map(({ routing, name }) => (
+                              <button
+                                key={routing}
+                                onClick={() => handleConnectorStyleChange({ routing })}
+                                className={`p-2 border rounded transition-colors text-xs ${connectorStyle.routing === routing ? 'bg-blue-50 border-blue-300 text-blue-800' : 'hover:bg-gray-50 text-gray-700'}`}
+                              >
+                                {name}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+
+                        {/* Arrowheads */}
+                        <div className="mb-4 space-y-1">
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={connectorStyle.startArrow}
+                              onChange={(e) => handleConnectorStyleChange({ startArrow: e.target.checked })}
+                            />
+                            Arrow at start
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={connectorStyle.endArrow}
+                              onChange={(e) => handleConnectorStyleChange({ endArrow: e.target.checked })}
+                            />
+                            Arrow at end
+                          </label>
+                        </div>
+
+                        <button
+                          onClick={handleDrawConnector}
+                          className="w-full bg-blue-100 border border-blue-300 hover:bg-blue-200 text-blue-800 px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200"
+                        >
+                          Draw connector
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : tool.id === 'table' ? (
+                <div key={tool.id} className="relative" ref={tablePickerRef}>
+                  <button
+                    className={`p-2 lg:p-3 rounded-lg transition-all duration-200 flex items-center justify-center transform hover:scale-105 ${
+                      selectedTool === 'table' || showTablePicker
+                        ? 'bg-gray-200 border border-gray-300 text-gray-800 shadow-sm'
+                        : 'hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 hover:ring-1 hover:ring-gray-200'
+                    }`}
+                    title={tool.name}
+                    onClick={() => handleToolSelect(tool.id)}
+                  >
+                    {getToolIcon(tool.icon)}
+                  </button>
+
+                  {/* Table Size Picker */}
+                  {showTablePicker && (
+                    <div className="absolute left-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                      <div className="p-4">
+                        <h4 className="font-medium text-gray-900 mb-3">Insert Table</h4>
+                        <div
+                          className="grid gap-1"
+                          style={{ gridTemplateColumns: `repeat(${TABLE_PICKER_SIZE}, 1.25rem)` }}
+                        >
+                          {Array.from({ length: TABLE_PICKER_SIZE * TABLE_PICKER_SIZE }, (_, index) => {
+                            const size = { rows: Math.floor(index / TABLE_PICKER_SIZE) + 1, columns: (index % TABLE_PICKER_SIZE) + 1 };
+                            const isHighlighted = size.rows <= tablePickerHover.rows && size.columns <= tablePickerHover.columns;
+                            return (
+                              <button
+                                key={index}
+                                onMouseEnter={() => setTablePickerHover(size)}
+                                onClick={() => handleTableSizeSelect(size)}
+                                className={`w-5 h-5 border rounded-sm transition-colors ${isHighlighted ? 'bg-blue-100 border-blue-400' : 'border-gray-300 hover:border-gray-400'}`}
+                                title={`${size.rows} × ${size.columns}`}
+                              />
+                            );
+                          })}
+                        </div>
+                        <p className="text-sm text-gray-700 mt-3 text-center">{tablePickerHover.rows} × {tablePickerHover.columns} table</p>
+                        <p className="text-xs text-gray-500 mt-1">Click the slide to place it, or drag to size it. Double-click a cell to type in it.</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : tool.id === 'image' ? (
                 <div key={tool.id} className="relative" ref={imageOptionsRef}>
                   <button
                     className={`p-2 lg:p-3 rounded-lg transition-all duration-200 flex items-center justify-center transform hover:scale-105 ${
@@ -353,6 +787,14 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                             Choose File
                           </button>
                         </div>
+
+                        {/* Image Library */}
+                        <button
+                          onClick={handleOpenAssetLibrary}
+                          className="mt-4 w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200"
+                        >
+                          Image library ({Object.keys(assets).length})
+                        </button>
                       </div>
                     </div>
                   )}
@@ -374,6 +816,95 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             ))}
           </div>
 
+          {/* Drawing Controls - shown while the draw tool is selected */}
+          {selectedTool === 'draw' && (
+            <div className="relative" ref={drawRef}>
+              <button
+                onClick={() => setShowDrawDropdown(!showDrawDropdown)}
+                className="px-3 py-2 rounded-lg hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 text-sm font-medium transition-all duration-200 flex items-center gap-1"
+                title="Brush settings"
+              >
+                <span
+                  className="w-4 h-4 rounded-full border border-gray-300"
+                  style={{ backgroundColor: brush.mode === 'eraser' ? '#ffffff' : brush.color }}
+                />
+                {BRUSH_MODES.find(({ mode }) => mode === brush.mode)?.name}
+                <svg className={`w-3 h-3 transition-transform duration-200 ${showDrawDropdown ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+
+              {/* Draw Dropdown */}
+              {showDrawDropdown && (
+                <div className="absolute left-0 top-full mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                  <div className="p-4">
+                    <h4 className="font-medium text-gray-900 mb-1">Draw</h4>
+                    <p className="text-xs text-gray-500 mb-3">Strokes can be selected and restyled like lines afterwards. The eraser removes whole strokes.</p>
+
+                    {/* Brush */}
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Brush</label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {BRUSH_MODES.map(({ mode, name }) => (
+                          <button
+                            key={mode}
+                            onClick={() => handleBrushChange({ mode })}
+                            className={`p-2 border rounded transition-colors text-xs ${brush.mode === mode ? 'bg-blue-50 border-blue-300 text-blue-800' : 'hover:bg-gray-50 text-gray-700'}`}
+                          >
+                            {name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Color */}
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+                      <div className="grid grid-cols-8 gap-1 mb-2">
+                        {BRUSH_COLORS.map((color) => (
+                          <button
+                            key={color}
+                            onClick={() => handleBrushChange({ color })}
+                            className={`w-6 h-6 rounded border-2 transition-all ${
+                              brush.color === color
+                                ? 'border-blue-400 ring-2 ring-blue-200'
+                                : 'border-gray-300 hover:border-gray-400'
+                            }`}
+                            style={{ backgroundColor: color }}
+                            title={color}
+                          />
+                        ))}
+                      </div>
+                      <input
+                        type="color"
+                        value={brush.color}
+                        onChange={(e) => handleBrushChange({ color: e.target.value })}
+                        className="w-full h-8 border border-gray-300 rounded cursor-pointer"
+                      />
+                    </div>
+
+                    {/* Width */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Width</label>
+                      <div className="grid grid-cols-5 gap-1">
+                        {BRUSH_WIDTHS.map((width) => (
+                          <button
+                            key={width}
+                            onClick={() => handleBrushChange({ width })}
+                            className={`h-8 border rounded flex items-center justify-center transition-colors ${brush.width === width ? 'bg-blue-50 border-blue-300' : 'hover:bg-gray-50'}`}
+                            title={`${width}px`}
+                          >
+                            <span className="rounded-full bg-gray-700" style={{ width: Math.min(width, 20), height: Math.min(width, 20) }} />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Shape Formatting Controls */}
           <div className="flex items-center gap-2">
             <div className="relative" ref={shapeFormatRef}>
@@ -400,6 +931,23 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     {/* Fill Color */}
                     <div className="mb-4">
                       <label className="block text-sm font-medium text-gray-700 mb-2">Fill Color</label>
+                      <div className="text-xs text-gray-500 mb-1">Theme colors</div>
+                      <div className="grid grid-cols-8 gap-1 mb-2">
+                        {THEME_COLOR_SLOTS.map((slot) => (
+                          <button
+                            key={slot}
+                            onClick={() => handleShapeFormatChange({ fill: theme.colors[slot], fillSlot: slot })}
+                            className={`w-7 h-7 rounded border-2 transition-all ${
+                              currentFillColor === theme.colors[slot]
+                                ? 'border-blue-400 ring-2 ring-blue-200'
+                                : 'border-gray-300 hover:border-gray-400'
+                            }`}
+                            style={{ backgroundColor: theme.colors[slot] }}
+                            title={THEME_COLOR_NAMES[slot]}
+                          />
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-500 mb-1">Standard colors</div>
                       <div className="grid grid-cols-6 gap-2">
                         {colors.map((color) => (
                           <button
@@ -432,6 +980,23 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     {/* Border Color */}
                     <div className="mb-4">
                       <label className="block text-sm font-medium text-gray-700 mb-2">Border Color</label>
+                      <div className="text-xs text-gray-500 mb-1">Theme colors</div>
+                      <div className="grid grid-cols-8 gap-1 mb-2">
+                        {THEME_COLOR_SLOTS.map((slot) => (
+                          <button
+                            key={slot}
+                            onClick={() => handleShapeFormatChange({ stroke: theme.colors[slot], strokeSlot: slot })}
+                            className={`w-7 h-7 rounded border-2 transition-all ${
+                              currentBorderColor === theme.colors[slot]
+                                ? 'border-blue-400 ring-2 ring-blue-200'
+                                : 'border-gray-300 hover:border-gray-400'
+                            }`}
+                            style={{ backgroundColor: theme.colors[slot] }}
+                            title={THEME_COLOR_NAMES[slot]}
+                          />
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-500 mb-1">Standard colors</div>
                       <div className="grid grid-cols-6 gap-2">
                         {colors.map((color) => (
                           <button
@@ -480,6 +1045,24 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                         ))}
                       </div>
                     </div>
+
+                    {/* Corner Radius */}
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-black mb-2">
+                        Corner Radius <span className="text-xs font-normal text-gray-500">(rectangles)</span>
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          value={currentCornerRadius}
+                          onChange={(e) => handleShapeFormatChange({ cornerRadius: Number(e.target.value) })}
+                          className="flex-1"
+                        />
+                        <span className="w-10 text-right text-sm text-gray-600 tabular-nums">{currentCornerRadius}px</span>
+                      </div>
+                    </div>
                   </div>
                 </div>
               )}
@@ -611,6 +1194,23 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     {/* Text Color */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">Text Color</label>
+                      <div className="text-xs text-gray-500 mb-1">Theme colors</div>
+                      <div className="grid grid-cols-8 gap-1 mb-2">
+                        {THEME_COLOR_SLOTS.map((slot) => (
+                          <button
+                            key={slot}
+                            onClick={() => handleTextFormatChange({ fill: theme.colors[slot], fillSlot: slot })}
+                            className={`w-7 h-7 rounded border-2 transition-all ${
+                              currentTextColor === theme.colors[slot]
+                                ? 'border-blue-400 ring-2 ring-blue-200'
+                                : 'border-gray-300 hover:border-gray-400'
+                            }`}
+                            style={{ backgroundColor: theme.colors[slot] }}
+                            title={THEME_COLOR_NAMES[slot]}
+                          />
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-500 mb-1">Standard colors</div>
                       <div className="grid grid-cols-6 gap-2">
                         {colors.map((color) => (
                           <button
@@ -668,19 +1268,331 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               title="Text Color"
             />
           </div>
+
+          {/* Arrange Controls */}
+          <div className="relative" ref={arrangeRef}>
+            <button
+              onClick={() => setShowArrangeDropdown(!showArrangeDropdown)}
+              className="px-3 py-2 rounded-lg hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 text-sm font-medium transition-all duration-200 flex items-center gap-1"
+              title="Align, distribute and restack selected objects"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v16M8 7h12v4H8zM8 14h7v4H8z" />
+              </svg>
+              Arrange
+              <svg className={`w-3 h-3 transition-transform duration-200 ${showArrangeDropdown ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+
+            {/* Arrange Dropdown */}
+            {showArrangeDropdown && (
+              <div className="absolute left-0 top-full mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                <div className="p-4">
+                  <h4 className="font-medium text-gray-900 mb-1">Arrange</h4>
+                  <p className="text-xs text-gray-500 mb-3">Align and distribute need two or more selected objects. Hold Alt while dragging to move without snapping.</p>
+
+                  {/* Order */}
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Order</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Z_ORDER_ACTIONS.map(({ action, name, shortcut }) => (
+                        <button
+                          key={action}
+                          onClick={() => onZOrder?.(action)}
+                          className="p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700"
+                          title={`${name} (${shortcut})`}
+                        >
+                          {name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Group */}
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Group</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => onGroup?.()}
+                        className="p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700"
+                        title="Group the selected objects (Ctrl+G)"
+                      >
+                        Group
+                      </button>
+                      <button
+                        onClick={() => onUngroup?.()}
+                        className="p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700"
+                        title="Ungroup the selected groups (Ctrl+Shift+G)"
+                      >
+                        Ungroup
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Align */}
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Align</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {ALIGN_MODES.map(({ mode, name }) => (
+                        <button
+                          key={mode}
+                          onClick={() => onAlign?.(mode)}
+                          className="p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700"
+                          title={name}
+                        >
+                          {name.replace('Align ', '')}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Distribute */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Distribute</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => onDistribute?.('horizontal')}
+                        className="p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700"
+                        title="Equal horizontal spacing (three or more objects)"
+                      >
+                        Horizontally
+                      </button>
+                      <button
+                        onClick={() => onDistribute?.('vertical')}
+                        className="p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700"
+                        title="Equal vertical spacing (three or more objects)"
+                      >
+                        Vertically
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Right Section - File Operations */}
         <div className="flex items-center gap-1 lg:gap-3">
+          {/* Undo / Redo */}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => dispatch(undo())}
+              disabled={!undoLabel}
+              className="p-2 rounded-lg hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:shadow-none"
+              title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={() => dispatch(redo())}
+              disabled={!redoLabel}
+              className="p-2 rounded-lg hover:bg-white hover:shadow-md text-gray-600 hover:text-gray-800 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:shadow-none"
+              title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+              </svg>
+            </button>
+          </div>
+
           {/* Add Slide Button */}
+          <div className="relative" ref={newSlideRef}>
+            <button
+              onClick={() => setShowNewSlideDropdown(!showNewSlideDropdown)}
+              className="px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 flex items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md"
+              title="New slide"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              <span className="hidden sm:inline">Slide</span>
+            </button>
+
+            {showNewSlideDropdown && (
+              <div className="absolute right-0 top-full mt-1 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                <LayoutPicker title="New slide" onSelect={handleAddSlide} />
+              </div>
+            )}
+          </div>
+
+          {/* Layout Button - Hidden on mobile */}
+          <div className="relative hidden md:block" ref={layoutRef}>
+            <button
+              onClick={() => setShowLayoutDropdown(!showLayoutDropdown)}
+              disabled={!currentSlide}
+              className="px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 flex items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Change the layout of the current slide"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+              </svg>
+              Layout
+            </button>
+
+            {showLayoutDropdown && currentSlide && (
+              <div className="absolute right-0 top-full mt-1 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                <LayoutPicker title="Slide layout" selectedLayoutId={currentSlide.layoutId} onSelect={handleChangeLayout} />
+              </div>
+            )}
+          </div>
+
+          {/* Layers Button - Hidden on mobile */}
+          <button
+            onClick={onToggleLayers}
+            className={`hidden md:flex px-2 lg:px-3 py-2 rounded-md border text-sm font-medium transition-all duration-200 items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md ${isLayersPanelOpen ? 'bg-blue-50 border-blue-300 text-blue-800' : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'}`}
+            title={isLayersPanelOpen ? 'Hide layers' : 'Show layers'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4l8 4-8 4-8-4 8-4zM4 12l8 4 8-4M4 16l8 4 8-4" />
+            </svg>
+            Layers
+          </button>
+
+          {/* View Button - Hidden on mobile */}
+          <div className="relative hidden md:block" ref={viewRef}>
+            <button
+              onClick={() => setShowViewDropdown(!showViewDropdown)}
+              className={`px-2 lg:px-3 py-2 rounded-md border text-sm font-medium transition-all duration-200 flex items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md ${showRulers || guides.grid.visible ? 'bg-blue-50 border-blue-300 text-blue-800' : 'bg-white border-gray-300 hover:bg-gray-50 text-gray-800'}`}
+              title="Rulers, grid and guides"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4h16v16H4zM4 9.33h16M4 14.67h16M9.33 4v16M14.67 4v16" />
+              </svg>
+              View
+            </button>
+
+            {showViewDropdown && (
+              <div className="absolute right-0 top-full mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+                <div className="p-4">
+                  <h4 className="font-medium text-gray-900 mb-1">Rulers and grid</h4>
+                  <p className="text-xs text-gray-500 mb-3">Drag from a ruler to add a guide, and drag a guide off the slide to remove it. Sizes are in slide pixels.</p>
+
+                  <div className="space-y-2 mb-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={!!showRulers} onChange={() => onToggleRulers?.()} className="rounded" />
+                      Show rulers
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={guides.grid.visible}
+                        onChange={(e) => dispatch(setGridSettings({ visible: e.target.checked }))}
+                        className="rounded"
+                      />
+                      Show grid
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={guides.grid.snap}
+                        onChange={(e) => dispatch(setGridSettings({ snap: e.target.checked }))}
+                        className="rounded"
+                      />
+                      Snap to grid
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 mb-4">
+                    <div>
+                      <label htmlFor="grid-spacing" className="block text-sm font-medium text-gray-700 mb-1">Spacing</label>
+                      <input
+                        id="grid-spacing"
+                        type="number"
+                        min={MIN_GRID_SPACING}
+                        max={MAX_GRID_SPACING}
+                        defaultValue={guides.grid.spacing}
+                        key={guides.grid.spacing}
+                        onBlur={(e) => {
+                          const spacing = Number(e.target.value);
+                          if (isValidGridSpacing(spacing)) dispatch(setGridSettings({ spacing }));
+                          else e.target.value = String(guides.grid.spacing);
+                        }}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="grid-subdivisions" className="block text-sm font-medium text-gray-700 mb-1">Subdivisions</label>
+                      <select
+                        id="grid-subdivisions"
+                        value={guides.grid.subdivisions}
+                        onChange={(e) => dispatch(setGridSettings({ subdivisions: Number(e.target.value) }))}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {Array.from({ length: MAX_GRID_SUBDIVISIONS }, (_, index) => index + 1).map(count => (
+                          <option key={count} value={count}>{count}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => dispatch(clearGuides())}
+                    disabled={guides.lines.length === 0}
+                    className="w-full p-2 border rounded hover:bg-gray-50 transition-colors text-xs text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Clear guides{guides.lines.length > 0 ? ` (${guides.lines.length})` : ''}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Present Button */}
+          <button
+            onClick={onStartPresentation}
+            disabled={slides.length === 0}
+            className="px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 flex items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Present from the beginning (F5)"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="hidden sm:inline">Present</span>
+          </button>
+
+          {/* Presenter View Button - Hidden on mobile */}
+          {isPresenterViewSupported() && (
+            <button
+              onClick={onStartPresenterView}
+              disabled={slides.length === 0}
+              className="hidden md:flex px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Present with speaker notes in a separate window"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+              Presenter
+            </button>
+          )}
+
+          {/* Slide Size Button - Hidden on mobile */}
+          <button
+            onClick={() => setShowSlideSize(true)}
+            className="hidden md:flex px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md"
+            title={`Slide size: ${slideSize.width} × ${slideSize.height} px`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
+            </svg>
+            Size
+          </button>
+
+          {/* Theme Button - Hidden on mobile */}
           <button
-            onClick={handleAddSlide}
-            className="px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 flex items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md"
+            onClick={() => setShowTheme(true)}
+            className="hidden md:flex px-2 lg:px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 text-sm font-medium transition-all duration-200 items-center gap-1 lg:gap-2 shadow-sm hover:shadow-md"
+            title={`Theme: ${theme.name}`}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
             </svg>
-            <span className="hidden sm:inline">Slide</span>
+            Theme
           </button>
 
           {/* Load Button - Hidden on mobile */}
@@ -742,6 +1654,19 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     </div>
                   </button>
                   
+                  <button
+                    onClick={() => handleSavePresentation('chromadeck')}
+                    className="w-full text-left px-3 py-2 rounded-md hover:bg-purple-50 transition-colors duration-200 flex items-center gap-3"
+                  >
+                    <svg className="w-5 h-5 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                    </svg>
+                    <div>
+                      <div className="font-medium text-gray-900">Save as bundle (.chromadeck)</div>
+                      <div className="text-xs text-purple-600">Compact and fast for image-heavy decks, with fonts</div>
+                    </div>
+                  </button>
+
                   <button
                     onClick={() => handleSavePresentation('pptx')}
                     className="w-full text-left px-3 py-2 rounded-md hover:bg-orange-50 transition-colors duration-200 flex items-center gap-3"
@@ -751,7 +1676,36 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     </svg>
                     <div>
                       <div className="font-medium text-gray-900">Save as PowerPoint (.pptx)</div>
-                      <div className="text-xs text-orange-600">🚧 Coming soon - saves as JSON for now</div>
+                      <div className="text-xs text-orange-600">Opens in PowerPoint, Keynote and Google Slides</div>
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => handleSavePresentation('pdf')}
+                    className="w-full text-left px-3 py-2 rounded-md hover:bg-red-50 transition-colors duration-200 flex items-center gap-3"
+                  >
+                    <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                    <div>
+                      <div className="font-medium text-gray-900">Export as PDF</div>
+                      <div className="text-xs text-red-600">One page per slide, ready to share or print</div>
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setShowSaveDropdown(false);
+                      setShowExportImages(true);
+                    }}
+                    className="w-full text-left px-3 py-2 rounded-md hover:bg-green-50 transition-colors duration-200 flex items-center gap-3"
+                  >
+                    <svg className="w-5 h-5 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                    <div>
+                      <div className="font-medium text-gray-900">Export all slides</div>
+                      <div className="text-xs text-green-600">PNG, JPEG or SVG images in a zip file</div>
                     </div>
                   </button>
                 </div>
@@ -795,6 +1749,19 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               </svg>
             </button>
 
+            {/* Present */}
+            <button
+              onClick={onStartPresentation}
+              disabled={slides.length === 0}
+              className="p-2 rounded-lg hover:bg-gray-100 text-gray-600 hover:text-gray-800 transition-colors disabled:opacity-40"
+              title="Present"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+
             {/* File Operations */}
             <button
               onClick={handleLoadPresentation}
@@ -818,6 +1785,54 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           </div>
         </div>
       </div>
+
+      {/* Export All Slides */}
+      {showExportImages && (
+        <ExportImagesDialog
+          slides={slides}
+          progress={exportProgress}
+          onExport={handleExportImages}
+          onClose={() => setShowExportImages(false)}
+        />
+      )}
+
+      {/* Page Setup */}
+      {showSlideSize && (
+        <SlideSizeDialog
+          slideSize={slideSize}
+          hasContent={slides.some(slideHasContent)}
+          onApply={handleApplySlideSize}
+          onClose={() => setShowSlideSize(false)}
+        />
+      )}
+
+      {/* Image Library */}
+      {showAssetLibrary && (
+        <AssetLibrary
+          assets={assets}
+          slides={slides}
+          onInsert={handleAddImageFromAsset}
+          onRemoveUnused={() => dispatch(removeUnusedAssets())}
+          onClose={() => setShowAssetLibrary(false)}
+        />
+      )}
+
+      {/* Theme */}
+      {showTheme && (
+        <ThemeDialog
+          theme={theme}
+          assets={assets}
+          fonts={fonts}
+          onApply={handleApplyTheme}
+          onAddFont={(font) => dispatch(addEmbeddedFont(font))}
+          onClose={() => setShowTheme(false)}
+        />
+      )}
+
+      {/* PPTX Import Report */}
+      {importReport && (
+        <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+      )}
     </>
   );
 };
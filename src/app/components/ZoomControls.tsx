@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomMode } from '../utils/zoom';
+
+interface ZoomControlsProps {
+  zoom: number;
+  mode: ZoomMode;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onSetZoom: (zoom: number) => void;
+  onFit: (mode: Exclude<ZoomMode, 'custom'>) => void;
+  className?: string;
+}
+
+const ZOOM_CHOICES = [0.5, 1, 2];
+
+/**
+ * Zoom percentage of the editing canvas with zoom in/out buttons, and a menu
+ * for fitting the slide to the window or showing it at a fixed size.
+ */
+export const ZoomControls: React.FC<ZoomControlsProps> = ({
+  zoom,
+  mode,
+  onZoomIn,
+  onZoomOut,
+  onSetZoom,
+  onFit,
+  className,
+}) => {
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside of it
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    };
+
+    if (showMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [showMenu]);
+
+  const choose = (action: () => void) => {
+    action();
+    setShowMenu(false);
+  };
+
+  const itemClass = (active: boolean) =>
+    `w-full text-left px-3 py-1.5 text-sm flex items-center justify-between transition-colors duration-200 ${active ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-50'}`;
+
+  return (
+    <div className={`flex items-center bg-white border border-gray-200 rounded-lg shadow-sm text-sm text-gray-700 ${className || ''}`}>
+      <button
+        type="button"
+        onClick={onZoomOut}
+        className="px-2 py-1 rounded-l-lg hover:bg-gray-50"
+        title="Zoom out (Ctrl+-)"
+        aria-label="Zoom out"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+        </svg>
+      </button>
+
+      <div className="relative" ref={menuRef}>
+        <button
+          type="button"
+          onClick={() => setShowMenu(!showMenu)}
+          className="w-16 py-1 border-x border-gray-200 hover:bg-gray-50 tabular-nums"
+          title="Zoom options"
+          aria-haspopup="menu"
+          aria-expanded={showMenu}
+        >
+          {Math.round(zoom * 100)}%
+        </button>
+
+        {showMenu && (
+          <div className="absolute right-0 bottom-full mb-1 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50" role="menu">
+            <button type="button" role="menuitem" onClick={() => choose(() => onFit('fit-page'))} className={itemClass(mode === 'fit-page')}>
+              Fit to page
+              <span className="text-xs text-gray-400">Ctrl+0</span>
+            </button>
+            <button type="button" role="menuitem" onClick={() => choose(() => onFit('fit-width'))} className={itemClass(mode === 'fit-width')}>
+              Fit to width
+            </button>
+            <div className="my-1 border-t border-gray-100" />
+            {ZOOM_CHOICES.map(choice => (
+              <button
+                key={choice}
+                type="button"
+                role="menuitem"
+                onClick={() => choose(() => onSetZoom(choice))}
+                className={itemClass(mode === 'custom' && Math.abs(zoom - choice) < 0.005)}
+              >
+                {choice * 100}%
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={onZoomIn}
+        className="px-2 py-1 rounded-r-lg hover:bg-gray-50"
+        title="Zoom in (Ctrl++)"
+        aria-label="Zoom in"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -4,47 +4,650 @@ import React, { useEffect, useRef, useCallback, forwardRef, useImperativeHandle,
 import { useDispatch, useSelector } from 'react-redux';
 import * as fabric from 'fabric';
 import { RootState } from '../redux/store';
-import { updateSlide, setSelectedTool } from '../redux/presentationSlice';
+import { updateSlide, setSelectedTool, addAsset, addGuide, moveGuide, removeGuide } from '../redux/presentationSlice';
 import { FileHandlers } from '../utils/fileHandlers';
+import { isTextInputEvent, hasCommandModifier } from '../utils/keyboard';
+import { loadCanvasData, fitCanvasToBox } from '../utils/slideRenderer';
+import { PLACEHOLDER_HINT_OPACITY } from '../utils/layouts';
+import { PresentationTheme, ThemeColorSlot } from '../utils/themes';
+import { collectMissingAssets, createAssetFromDataUrl, resolveCanvasAssets, stripCanvasAssets } from '../utils/assets';
+import { ResizeEdges, SnapResult, SNAP_THRESHOLD, findResizeSnap, findSnap, drawSnapGuides } from '../utils/snapping';
+import { Guide, gridBackgroundStyle, gridSnapStep, guideSnapLines, isGuideOnSlide } from '../utils/guides';
+import { AlignMode, DistributeDirection, alignObjects, distributeObjects } from '../utils/alignment';
+import {
+  LayerInfo,
+  ZOrderAction,
+  applyLayerLock,
+  changeZOrder,
+  describeLayers,
+  findLayerObject,
+  getLayerName,
+  groupObjects,
+  ungroupObject,
+  isGroup,
+} from '../utils/layers';
+import {
+  copyObjects,
+  duplicateObjects,
+  getClipboardObjects,
+  hasClipboardObjects,
+  hasCurrentClipboardObjects,
+  markClipboardSuperseded,
+  pasteObjects,
+  shouldPasteObjects,
+  writeObjectImageToSystemClipboard,
+} from '../utils/clipboard';
+import { ZoomMode, clampZoom, fitZoom, stepZoom, wheelZoomFactor } from '../utils/zoom';
+import { BrushSettings, DEFAULT_BRUSH, createBrush, findErasedStrokes, styleStroke } from '../utils/drawing';
+import { ANCHOR_SNAP_DISTANCE, ConnectorEndpoint, ConnectorStyle, DEFAULT_CONNECTOR_STYLE, attachmentOf, connectorEndControls, connectorPathBetween, drawAnchors, findNearestAnchor, findObjectsNear, isConnector, rerouteConnector, rerouteConnectorsFor } from '../utils/connectors';
+import { DEFAULT_SHAPE_TOOL, ShapeToolOptions, constrainDrag, createShape, defaultShapeSize, isFillableShape, isLineShape, isStrokableShape, placeShapeAt } from '../utils/shapes';
+import {
+  CellRange,
+  DEFAULT_TABLE_TOOL,
+  TableData,
+  TableToolOptions,
+  CELL_PADDING,
+  adjacentCell,
+  buildTable,
+  clearCells,
+  createTableData,
+  defaultTableSize,
+  drawCellRange,
+  isTable,
+  rangeBetween,
+  rangeCorners,
+  replaceTable,
+  scaleTable,
+  setCellText,
+  tableCellAt,
+} from '../utils/tables';
+import { ZoomControls } from './ZoomControls';
+import { TableControls } from './TableControls';
+import { Ruler } from './Ruler';
 
 interface SlideCanvasProps {
   className?: string;
+  showRulers?: boolean;
+  onLayersChange?: (layers: LayerInfo[]) => void; // Current slide's objects, for the layers panel
 }
 
+// Thickness of the rulers along the top and left of the editor, in CSS pixels
+const RULER_SIZE = 20;
+
+// A shape tool press that moves less than this, in screen pixels, places a default-sized shape
+const SHAPE_CLICK_DISTANCE = 4;
+
+// Status line shown while a tool other than select is active
+const toolHint = (tool: string): string => {
+  switch (tool) {
+    case 'draw':
+      return 'Drag on the canvas to draw';
+    case 'text':
+      return 'Click on canvas to add text';
+    case 'connector':
+      return 'Drag from one shape to another to connect them';
+    default:
+      return `Click or drag on the canvas to add a ${tool} (Shift keeps proportions, Alt draws from the center)`;
+  }
+};
+
+// Tools that add a shape by dragging out its size
+type ShapeTool = 'rectangle' | 'circle' | 'line' | 'shape' | 'table';
+
+const isShapeTool = (tool: string): tool is ShapeTool =>
+  tool === 'rectangle' || tool === 'circle' || tool === 'line' || tool === 'shape' || tool === 'table';
+
+// Size of the basic shapes placed with a click rather than a drag
+const DEFAULT_TOOL_SIZES: Record<Exclude<ShapeTool, 'shape' | 'table'>, { width: number; height: number }> = {
+  rectangle: { width: 120, height: 80 },
+  circle: { width: 80, height: 80 },
+  line: { width: 100, height: 0 },
+};
+
+interface ShapeFormat {
+  fill: string;
+  fillSlot?: ThemeColorSlot;
+  stroke: string;
+  strokeSlot?: ThemeColorSlot;
+  strokeWidth: number;
+}
+
+// Changes from the shape format menu; the corner radius only applies to rectangles
+type ShapeFormatChange = Partial<ShapeFormat> & { cornerRadius?: number };
+
+// A theme slot wins over the stored color, so new shapes follow the current theme
+const resolveColor = (color: string, slot: ThemeColorSlot | undefined, theme: PresentationTheme) =>
+  slot ? theme.colors[slot] : color;
+
+// Setting a color without a slot detaches the object from the theme
+const setObjectColor = (obj: fabric.FabricObject, property: 'fill' | 'stroke', color: string, slot?: ThemeColorSlot) => {
+  obj.set(property, color);
+  obj.set(property === 'fill' ? 'fillSlot' : 'strokeSlot', slot);
+};
+
+const applyShapeFormat = (obj: fabric.FabricObject, format: ShapeFormatChange) => {
+  if (format.fill !== undefined && isFillableShape(obj)) {
+    setObjectColor(obj, 'fill', format.fill, format.fillSlot);
+  }
+  if (isStrokableShape(obj)) {
+    if (format.stroke !== undefined) {
+      setObjectColor(obj, 'stroke', format.stroke, format.strokeSlot);
+    }
+    if (format.strokeWidth !== undefined) {
+      obj.set('strokeWidth', format.strokeWidth);
+    }
+  }
+  if (format.cornerRadius !== undefined && obj instanceof fabric.Rect) {
+    const radius = Math.min(format.cornerRadius, obj.width / 2, obj.height / 2);
+    obj.set({ rx: radius, ry: radius });
+  }
+};
+
+// The selected table, and the cells selected in it once one has been clicked
+interface TableSelection {
+  table: fabric.Group;
+  cell: [number, number] | null; // Where Shift+click ranges start, and where Enter starts typing
+  range: CellRange | null;
+}
+
+// The table cell being typed in, and its text so far
+interface EditingCell {
+  row: number;
+  col: number;
+  text: string;
+}
+
+// A text box over a table cell, turned with the table, for typing in the cell
+const cellEditorStyle = (table: fabric.Group, { row, col }: EditingCell, zoom: number): React.CSSProperties => {
+  const data = table.table!;
+  const isHeader = data.headerRow && row === 0;
+  const [topLeft, topRight, , bottomLeft] = rangeCorners(table, rangeBetween(data, [row, col], [row, col]));
+  const width = topLeft.distanceFrom(topRight) * zoom;
+  const height = topLeft.distanceFrom(bottomLeft) * zoom;
+  const center = topRight.midPointFrom(bottomLeft);
+  return {
+    left: center.x * zoom - width / 2,
+    top: center.y * zoom - height / 2,
+    width,
+    height,
+    transform: `rotate(${table.getTotalAngle()}deg)`,
+    padding: CELL_PADDING * zoom,
+    fontSize: data.fontSize * zoom,
+    fontFamily: data.fontFamily,
+    fontWeight: isHeader ? 'bold' : 'normal',
+    lineHeight: 1.16,
+    color: isHeader ? data.headerTextColor : data.textColor,
+    background: data.cells[row][col].fill ?? (isHeader ? data.headerFill : data.fill),
+  };
+};
+
 export interface SlideCanvasRef {
   addImageFromUrl: (url: string) => Promise<void>;
   addImageFromFile: () => Promise<void>;
-  updateSelectedTextFormat: (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string }) => void;
-  updateSelectedShapeFormat: (format: { fill?: string; stroke?: string; strokeWidth?: number }) => void;
+  addImageFromAsset: (assetId: string) => Promise<void>;
+  updateSelectedTextFormat: (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string; fillSlot?: ThemeColorSlot }) => void;
+  updateSelectedShapeFormat: (format: ShapeFormatChange) => void;
+  alignSelection: (mode: AlignMode) => void;
+  distributeSelection: (direction: DistributeDirection) => void;
+  changeSelectionZOrder: (action: ZOrderAction) => void;
+  groupSelection: () => void;
+  ungroupSelection: () => void;
+  selectLayer: (path: number[]) => void;
+  moveLayer: (fromIndex: number, toIndex: number) => void;
+  setLayerVisible: (path: number[], visible: boolean) => void;
+  setLayerLocked: (path: number[], locked: boolean) => void;
+  renameLayer: (path: number[], name: string) => void;
+  setBrush: (settings: Partial<BrushSettings>) => void;
+  setShapeTool: (options: Partial<ShapeToolOptions>) => void;
+  setConnectorStyle: (style: Partial<ConnectorStyle>) => void;
+  setTableTool: (options: Partial<TableToolOptions>) => void;
   canvas: fabric.Canvas | null;
 }
 
-export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ className }, ref) => {
+export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ className, showRulers, onLayersChange }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
+  // Canvas data this component last loaded or saved, used to detect external changes (undo/redo)
+  const lastSyncedCanvasDataRef = useRef<string | null>(null);
+  const loadedSlideIdRef = useRef<string | null>(null);
+  const isLoadingCanvasRef = useRef(false);
+  const loadTokenRef = useRef(0);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
   const dispatch = useDispatch();
   
   // Shape formatting state
-  const [currentShapeFormat, setCurrentShapeFormat] = useState({
+  const [currentShapeFormat, setCurrentShapeFormat] = useState<ShapeFormat>({
     fill: '#000000',
+    fillSlot: 'accent1',
     stroke: '#2563eb',
+    strokeSlot: 'accent2',
     strokeWidth: 3
   });
 
+  // Free-drawing brush, applied to the canvas while the draw tool is selected
+  const brushRef = useRef<BrushSettings>(DEFAULT_BRUSH);
+  // Library shape the shape tool adds
+  const shapeToolRef = useRef<ShapeToolOptions>(DEFAULT_SHAPE_TOOL);
+  // Routing and arrowheads of new connectors
+  const connectorStyleRef = useRef<ConnectorStyle>(DEFAULT_CONNECTOR_STYLE);
+  // Rows and columns of new tables
+  const tableToolRef = useRef<TableToolOptions>(DEFAULT_TABLE_TOOL);
+  // Read by the canvas handlers, so it is kept in a ref as well as in state
+  const [tableSelection, setTableSelection] = useState<TableSelection | null>(null);
+  const tableSelectionRef = useRef(tableSelection);
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  const editingCellRef = useRef(editingCell);
+  const cellEditorRef = useRef<HTMLTextAreaElement>(null);
+
   // Upload states for animations
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isDragOver, setIsDragOver] = useState(false);
   const [hasCanvasObjects, setHasCanvasObjects] = useState(false);
+
+  // Zoom level and whether it follows the editor's size; mirrored in a ref for event handlers
+  const [zoomState, setZoomState] = useState<{ mode: ZoomMode; zoom: number }>({ mode: 'fit-page', zoom: 1 });
+  const zoomRef = useRef(zoomState);
+  // Space held down turns dragging into panning
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const isSpaceHeldRef = useRef(false);
+  const [isPanning, setIsPanning] = useState(false);
+  // Slide's top-left on the rulers, and the guide being dragged (id null while pulling a new one out)
+  const [rulerOrigin, setRulerOrigin] = useState({ x: 0, y: 0 });
+  const [guideDrag, setGuideDrag] = useState<(Omit<Guide, 'id'> & { id: string | null }) | null>(null);
   
   const currentSlideId = useSelector((state: RootState) => state.presentation.currentSlideId);
   const slides = useSelector((state: RootState) => state.presentation.slides);
   const selectedTool = useSelector((state: RootState) => state.presentation.selectedTool);
+  const slideSize = useSelector((state: RootState) => state.presentation.slideSize);
+  const theme = useSelector((state: RootState) => state.presentation.theme);
+  const assets = useSelector((state: RootState) => state.presentation.assets);
+  const guides = useSelector((state: RootState) => state.presentation.guides);
+  // Read when a slide is loaded; adding an image must not reload the slide
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  // Placement code works in slide coordinates and reads the latest size from here
+  const slideSizeRef = useRef(slideSize);
+  slideSizeRef.current = slideSize;
+  // Read by the snapping handlers, which are set up once per slide
+  const guidesRef = useRef(guides);
+  guidesRef.current = guides;
+  // Lock state is applied on top of the tool's interactivity
+  const selectedToolRef = useRef(selectedTool);
+  selectedToolRef.current = selectedTool;
+  const onLayersChangeRef = useRef(onLayersChange);
+  onLayersChangeRef.current = onLayersChange;
 
   const currentSlide = slides.find(slide => slide.id === currentSlideId);
 
-  // Keyboard event handler for delete key
+  const saveCanvasState = useCallback(() => {
+    // Saves triggered by loading slide data would only echo it back
+    if (fabricCanvasRef.current && currentSlideId && !isLoadingCanvasRef.current) {
+      // Images are stored once in the asset table, not in every slide
+      const canvasData = stripCanvasAssets(JSON.stringify(fabricCanvasRef.current.toJSON()));
+      lastSyncedCanvasDataRef.current = canvasData;
+      dispatch(updateSlide({ 
+        id: currentSlideId, 
+        canvasData,
+        thumbnail: FileHandlers.generateThumbnail(fabricCanvasRef.current.getElement())
+      }));
+    }
+  }, [currentSlideId, dispatch]);
+
+  const reportLayers = useCallback(() => {
+    const canvas = fabricCanvasRef.current;
+    onLayersChangeRef.current?.(canvas ? describeLayers(canvas) : []);
+  }, []);
+
+  // Size the canvas for a zoom level; the container scrolls when the slide is
+  // larger than it. The point under `anchor` (client coordinates, the middle
+  // of the view by default) stays where it is.
+  const applyZoom = useCallback((mode: ZoomMode, zoom: number, anchor?: { x: number; y: number }) => {
+    const canvas = fabricCanvasRef.current;
+    const container = canvasContainerRef.current;
+    if (!canvas || !container) return;
+
+    const newZoom = clampZoom(zoom);
+    const element = canvas.getElement();
+    const containerRect = container.getBoundingClientRect();
+    const point = anchor ?? {
+      x: containerRect.left + container.clientWidth / 2,
+      y: containerRect.top + container.clientHeight / 2,
+    };
+    const before = element.getBoundingClientRect();
+    const oldZoom = canvas.getZoom();
+    const slidePoint = { x: (point.x - before.left) / oldZoom, y: (point.y - before.top) / oldZoom };
+
+    const { width, height } = slideSizeRef.current;
+    fitCanvasToBox(canvas, slideSizeRef.current, width * newZoom, height * newZoom);
+    const after = element.getBoundingClientRect();
+    container.scrollLeft += after.left + slidePoint.x * newZoom - point.x;
+    container.scrollTop += after.top + slidePoint.y * newZoom - point.y;
+    canvas.renderAll();
+
+    zoomRef.current = { mode, zoom: newZoom };
+    setZoomState(zoomRef.current);
+  }, []);
+
+  // Apply the current zoom mode to the available space: fit modes recompute
+  // the zoom level, a custom zoom is kept
+  const refitCanvas = useCallback(() => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+
+    const { mode, zoom } = zoomRef.current;
+    if (mode === 'custom') {
+      applyZoom(mode, zoom);
+      return;
+    }
+    const availableWidth = container.clientWidth - 32; // Account for padding
+    const availableHeight = container.clientHeight - 32;
+    if (availableWidth <= 0 || availableHeight <= 0) return;
+    applyZoom(mode, fitZoom(mode, slideSizeRef.current, availableWidth, availableHeight));
+  }, [applyZoom]);
+
+  const fitCanvas = useCallback((mode: Exclude<ZoomMode, 'custom'>) => {
+    zoomRef.current = { ...zoomRef.current, mode };
+    refitCanvas();
+  }, [refitCanvas]);
+
+  const zoomInOut = useCallback((direction: 1 | -1) => {
+    applyZoom('custom', stepZoom(zoomRef.current.zoom, direction));
+  }, [applyZoom]);
+
+  // The eraser removes whole freehand strokes it passes over
+  const eraseStrokes = useCallback((points: fabric.Point[]) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const erased = findErasedStrokes(canvas, points, brushRef.current.width);
+    if (erased.length > 0) canvas.remove(...erased);
+  }, []);
+
+  const applyBrush = useCallback(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || selectedToolRef.current !== 'draw') return;
+    canvas.freeDrawingBrush = createBrush(canvas, brushRef.current, eraseStrokes);
+  }, [eraseStrokes]);
+
+  const setBrush = useCallback((settings: Partial<BrushSettings>) => {
+    brushRef.current = { ...brushRef.current, ...settings };
+    applyBrush();
+  }, [applyBrush]);
+
+  const setShapeTool = useCallback((options: Partial<ShapeToolOptions>) => {
+    shapeToolRef.current = { ...shapeToolRef.current, ...options };
+  }, []);
+
+  const setTableTool = useCallback((options: Partial<TableToolOptions>) => {
+    tableToolRef.current = { ...tableToolRef.current, ...options };
+  }, []);
+
+  const selectTable = useCallback((selection: TableSelection | null) => {
+    tableSelectionRef.current = selection;
+    setTableSelection(selection);
+    fabricCanvasRef.current?.requestRenderAll();
+  }, []);
+
+  // Tables are rebuilt from their data after each edit, keeping the same cells selected
+  const editTable = useCallback((data: TableData, range: CellRange | null) => {
+    const canvas = fabricCanvasRef.current;
+    const selection = tableSelectionRef.current;
+    if (!canvas || !selection) return;
+    const table = replaceTable(canvas, selection.table, data);
+    rerouteConnectorsFor(canvas, [table]);
+    selectTable({ table, cell: range && [range.top, range.left], range });
+  }, [selectTable]);
+
+  const editCell = useCallback((cell: EditingCell | null) => {
+    editingCellRef.current = cell;
+    setEditingCell(cell);
+  }, []);
+
+  const startCellEdit = useCallback((table: fabric.Group, [row, col]: [number, number]) => {
+    selectTable({ table, cell: [row, col], range: rangeBetween(table.table!, [row, col], [row, col]) });
+    editCell({ row, col, text: table.table!.cells[row][col].text });
+  }, [selectTable, editCell]);
+
+  // Typed text goes into the table when the cell is left, unless it is left
+  // with Escape. Tab and Shift+Tab go on to type in the next or previous cell.
+  const finishCellEdit = useCallback((save: boolean, step: 0 | 1 | -1 = 0) => {
+    const editing = editingCellRef.current;
+    editCell(null);
+    if (!editing || !tableSelectionRef.current) return;
+    const { table, range } = tableSelectionRef.current;
+    if (save && editing.text !== table.table!.cells[editing.row][editing.col].text) {
+      editTable(setCellText(table.table!, editing.row, editing.col, editing.text), range);
+    }
+    const current = tableSelectionRef.current;
+    const next = step && current ? adjacentCell(current.table.table!, [editing.row, editing.col], step) : null;
+    if (current && next) startCellEdit(current.table, next);
+  }, [editCell, editTable, startCellEdit]);
+
+  // Clicking the slide while typing in a cell puts the text in first, so
+  // Fabric handles the click on the rebuilt table rather than the old one
+  const handleCellEditorPointerDown = useCallback((event: React.PointerEvent) => {
+    if (editingCellRef.current && event.target !== cellEditorRef.current) finishCellEdit(true);
+  }, [finishCellEdit]);
+
+  // The style applies to new connectors and to the connectors selected now
+  const setConnectorStyle = useCallback((style: Partial<ConnectorStyle>) => {
+    connectorStyleRef.current = { ...connectorStyleRef.current, ...style };
+
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+    const connectors = canvas.getActiveObjects().filter(isConnector);
+    if (connectors.length === 0) return;
+
+    // Connectors are rerouted in slide coordinates, so a multi-selection is taken apart and put back together
+    const selected = canvas.getActiveObjects();
+    const isMultiSelection = canvas.getActiveObject() instanceof fabric.ActiveSelection;
+    if (isMultiSelection) canvas.discardActiveObject();
+    connectors.forEach(connector => {
+      connector.connector = { ...connector.connector!, ...style };
+      rerouteConnector(canvas, connector);
+    });
+    if (isMultiSelection) canvas.setActiveObject(new fabric.ActiveSelection(selected, { canvas }));
+    canvas.requestRenderAll();
+    saveCanvasState();
+  }, [saveCanvasState]);
+
+  const changeSelectionZOrder = useCallback((action: ZOrderAction) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    if (changeZOrder(canvas, canvas.getActiveObjects(), action)) {
+      canvas.requestRenderAll();
+      reportLayers();
+      saveCanvasState();
+    }
+  }, [reportLayers, saveCanvasState]);
+
+  // Ctrl+G: the objects of a multi-selection become one group
+  const groupSelection = useCallback(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    const objects = canvas.getActiveObjects();
+    if (objects.length < 2) return;
+
+    canvas.discardActiveObject();
+    const group = groupObjects(canvas, objects);
+    group.set({
+      borderColor: '#2563eb',
+      borderScaleFactor: 2,
+      cornerColor: '#2563eb',
+      cornerSize: 8,
+      transparentCorners: false,
+      borderOpacityWhenMoving: 0.8,
+    });
+    applyLayerLock(group, selectedToolRef.current === 'select');
+    canvas.setActiveObject(group);
+    canvas.renderAll();
+
+    reportLayers();
+    saveCanvasState();
+  }, [reportLayers, saveCanvasState]);
+
+  // Ctrl+Shift+G: selected groups are taken apart one level
+  const ungroupSelection = useCallback(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    const groups = canvas.getActiveObjects().filter(isGroup);
+    if (groups.length === 0) return;
+
+    canvas.discardActiveObject();
+    const objects = groups.flatMap(group => ungroupObject(canvas, group));
+    objects.forEach(obj => applyLayerLock(obj, selectedToolRef.current === 'select'));
+    const selectable = objects.filter(obj => obj.selectable);
+    if (selectable.length > 0) {
+      canvas.setActiveObject(selectable.length === 1 ? selectable[0] : new fabric.ActiveSelection(selectable, { canvas }));
+    }
+    canvas.renderAll();
+
+    reportLayers();
+    saveCanvasState();
+  }, [reportLayers, saveCanvasState]);
+
+  // Pasted and duplicated objects are added on top and selected
+  const addCopiedObjects = useCallback((objects: fabric.FabricObject[]) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || objects.length === 0) return;
+
+    canvas.discardActiveObject();
+    objects.forEach(obj => applyLayerLock(obj, selectedToolRef.current === 'select'));
+    canvas.add(...objects);
+    const selectable = objects.filter(obj => obj.selectable);
+    if (selectable.length > 0) {
+      canvas.setActiveObject(selectable.length === 1 ? selectable[0] : new fabric.ActiveSelection(selectable, { canvas }));
+    }
+    canvas.requestRenderAll();
+  }, []);
+
+  // Ctrl+C / Ctrl+X: the selection goes to the clipboard, and as a picture to
+  // the system clipboard for other apps
+  const copySelection = useCallback((cut: boolean) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    const objects = canvas.getActiveObjects();
+    if (objects.length === 0) return;
+
+    // Objects are copied in slide coordinates, outside the active selection
+    canvas.discardActiveObject();
+    copyObjects(objects, cut ? null : currentSlideId);
+    const selection = objects.length === 1 ? objects[0] : new fabric.ActiveSelection(objects, { canvas });
+    canvas.setActiveObject(selection);
+    writeObjectImageToSystemClipboard(selection);
+
+    if (cut) {
+      canvas.discardActiveObject();
+      canvas.remove(...objects);
+    }
+    canvas.requestRenderAll();
+  }, [currentSlideId]);
+
+  const pasteClipboardObjects = useCallback(async () => {
+    if (!currentSlideId) return;
+
+    // Images copied from another presentation join this one's asset table
+    const missingAssets = await collectMissingAssets(getClipboardObjects(), assetsRef.current);
+    missingAssets.forEach(asset => dispatch(addAsset(asset)));
+    addCopiedObjects(await pasteObjects(currentSlideId));
+  }, [currentSlideId, dispatch, addCopiedObjects]);
+
+  // Ctrl+D: copies of the selection next to it, leaving the clipboard alone
+  const duplicateSelection = useCallback(async () => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    const objects = canvas.getActiveObjects();
+    if (objects.length === 0) return;
+
+    canvas.discardActiveObject();
+    addCopiedObjects(await duplicateObjects(objects));
+  }, [addCopiedObjects]);
+
+  // Keyboard event handler for delete key, clipboard, z-order and grouping shortcuts
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    if (isTextInputEvent(event)) return;
+
+    // Ctrl+] / Ctrl+[ move one step, with Shift all the way to the front or back.
+    // Matched by key position, since Shift changes the bracket characters.
+    if (hasCommandModifier(event) && (event.code === 'BracketRight' || event.code === 'BracketLeft')) {
+      event.preventDefault();
+      const up = event.code === 'BracketRight';
+      changeSelectionZOrder(event.shiftKey ? (up ? 'front' : 'back') : (up ? 'forward' : 'backward'));
+      return;
+    }
+
+    // Ctrl+V only pastes the copied objects directly while nothing newer can be on the
+    // system clipboard; otherwise the paste event decides
+    if (hasCommandModifier(event) && !event.shiftKey && !event.altKey) {
+      const hasSelection = (fabricCanvasRef.current?.getActiveObjects().length ?? 0) > 0;
+      if ((event.code === 'KeyC' || event.code === 'KeyX') && hasSelection) {
+        event.preventDefault();
+        copySelection(event.code === 'KeyX');
+        return;
+      }
+      if (event.code === 'KeyD' && hasSelection) {
+        event.preventDefault();
+        duplicateSelection();
+        return;
+      }
+      if (event.code === 'KeyV' && hasCurrentClipboardObjects()) {
+        event.preventDefault();
+        pasteClipboardObjects();
+        return;
+      }
+    }
+
+    // Ctrl + / Ctrl - zoom in steps and Ctrl+0 fits the slide, instead of zooming the page
+    if (hasCommandModifier(event) && !event.altKey) {
+      if (event.code === 'Equal' || event.code === 'NumpadAdd') {
+        event.preventDefault();
+        zoomInOut(1);
+        return;
+      }
+      if (event.code === 'Minus' || event.code === 'NumpadSubtract') {
+        event.preventDefault();
+        zoomInOut(-1);
+        return;
+      }
+      if (event.code === 'Digit0' || event.code === 'Numpad0') {
+        event.preventDefault();
+        fitCanvas('fit-page');
+        return;
+      }
+    }
+
+    if (hasCommandModifier(event) && event.code === 'KeyG') {
+      event.preventDefault();
+      if (event.shiftKey) ungroupSelection();
+      else groupSelection();
+      return;
+    }
+
+    // With cells of a table selected, Delete clears them, Enter types in the
+    // first one and Escape goes back to selecting the whole table
+    const cells = tableSelectionRef.current;
+    if (cells?.cell && cells.range && fabricCanvasRef.current?.getActiveObject() === cells.table) {
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        editTable(clearCells(cells.table.table!, cells.range), cells.range);
+        return;
+      }
+      if (event.key === 'Enter' && !hasCommandModifier(event)) {
+        event.preventDefault();
+        startCellEdit(cells.table, cells.cell);
+        return;
+      }
+      if (event.key === 'Escape') {
+        selectTable({ ...cells, cell: null, range: null });
+        return;
+      }
+    }
+
     if (event.key === 'Delete' || event.key === 'Backspace') {
       if (!fabricCanvasRef.current) return;
       
@@ -60,19 +663,10 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         setHasCanvasObjects((fabricCanvasRef.current?.getObjects().length ?? 0) > 0);
         
         // Save canvas state after deletion
-        setTimeout(() => {
-          if (fabricCanvasRef.current && currentSlideId) {
-            const canvasData = JSON.stringify(fabricCanvasRef.current.toJSON());
-            dispatch(updateSlide({ 
-              id: currentSlideId, 
-              canvasData,
-              thumbnail: FileHandlers.generateThumbnail(canvasRef.current!)
-            }));
-          }
-        }, 100);
+        setTimeout(saveCanvasState, 100);
       }
     }
-  }, [currentSlideId, dispatch]);
+  }, [saveCanvasState, changeSelectionZOrder, groupSelection, ungroupSelection, copySelection, duplicateSelection, pasteClipboardObjects, zoomInOut, fitCanvas, editTable, startCellEdit, selectTable]);
 
   // Add keyboard event listeners
   useEffect(() => {
@@ -82,6 +676,201 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
     };
   }, [handleKeyDown]);
 
+  // Space held over the editor pans instead of selecting; the key must not scroll the page
+  useEffect(() => {
+    const isEditorKeyEvent = (event: KeyboardEvent) =>
+      !isTextInputEvent(event) &&
+      (event.target === document.body || !!canvasContainerRef.current?.contains(event.target as Node));
+
+    const handleSpaceDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || !isEditorKeyEvent(event)) return;
+      event.preventDefault();
+      if (!isSpaceHeldRef.current) {
+        isSpaceHeldRef.current = true;
+        setIsSpaceHeld(true);
+      }
+    };
+    const releaseSpace = () => {
+      isSpaceHeldRef.current = false;
+      setIsSpaceHeld(false);
+    };
+    const handleSpaceUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') releaseSpace();
+    };
+
+    document.addEventListener('keydown', handleSpaceDown);
+    document.addEventListener('keyup', handleSpaceUp);
+    window.addEventListener('blur', releaseSpace);
+    return () => {
+      document.removeEventListener('keydown', handleSpaceDown);
+      document.removeEventListener('keyup', handleSpaceUp);
+      window.removeEventListener('blur', releaseSpace);
+    };
+  }, []);
+
+  // Ctrl+wheel and trackpad pinches zoom around the pointer. The listener is
+  // not passive, so the browser's own page zoom can be prevented.
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      applyZoom('custom', zoomRef.current.zoom * wheelZoomFactor(event), { x: event.clientX, y: event.clientY });
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+    };
+  }, [applyZoom, currentSlideId]);
+
+  // Two-finger pinches on touch screens zoom around the fingers' midpoint
+  const touchPointsRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+
+  const trackTouch = (event: React.PointerEvent) => {
+    const points = touchPointsRef.current;
+    const pointerId = event.pointerId;
+    points.set(pointerId, { x: event.clientX, y: event.clientY });
+    const spread = () => {
+      const [a, b] = Array.from(points.values());
+      return { distance: Math.hypot(a.x - b.x, a.y - b.y), center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+    };
+
+    if (points.size === 2) {
+      // The second finger starts a pinch and is kept away from Fabric
+      event.stopPropagation();
+      pinchRef.current = { distance: spread().distance, zoom: zoomRef.current.zoom };
+    }
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== pointerId) return;
+      points.set(pointerId, { x: moveEvent.clientX, y: moveEvent.clientY });
+      const pinch = pinchRef.current;
+      if (!pinch || points.size !== 2) return;
+      const { distance, center } = spread();
+      if (pinch.distance > 0) applyZoom('custom', pinch.zoom * (distance / pinch.distance), center);
+    };
+    const handleEnd = (endEvent: PointerEvent) => {
+      if (endEvent.pointerId !== pointerId) return;
+      points.delete(pointerId);
+      pinchRef.current = null;
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleEnd);
+      window.removeEventListener('pointercancel', handleEnd);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleEnd);
+    window.addEventListener('pointercancel', handleEnd);
+  };
+
+  // Space+drag or middle-button drag scrolls the view. Runs in the capture
+  // phase, so Fabric never sees the press and starts no selection.
+  const handlePanStart = (event: React.PointerEvent) => {
+    if (event.pointerType === 'touch') {
+      trackTouch(event);
+      return;
+    }
+
+    const container = canvasContainerRef.current;
+    if (!container || (event.button !== 1 && !(event.button === 0 && isSpaceHeldRef.current))) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    const start = { x: event.clientX, y: event.clientY, left: container.scrollLeft, top: container.scrollTop };
+    setIsPanning(true);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      container.scrollLeft = start.left - (moveEvent.clientX - start.x);
+      container.scrollTop = start.top - (moveEvent.clientY - start.y);
+    };
+    const handleEnd = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleEnd);
+      window.removeEventListener('pointercancel', handleEnd);
+      setIsPanning(false);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleEnd);
+    window.addEventListener('pointercancel', handleEnd);
+  };
+
+  // Keep the rulers' zero at the slide's top-left corner as the view scrolls and zooms
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!showRulers || !container) return;
+
+    const updateOrigin = () => {
+      const element = canvasRef.current;
+      if (!element) return;
+      const canvasRect = element.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      setRulerOrigin({ x: canvasRect.left - containerRect.left, y: canvasRect.top - containerRect.top });
+    };
+
+    updateOrigin();
+    container.addEventListener('scroll', updateOrigin);
+    const resizeObserver = new ResizeObserver(updateOrigin);
+    resizeObserver.observe(container);
+    return () => {
+      container.removeEventListener('scroll', updateOrigin);
+      resizeObserver.disconnect();
+    };
+  }, [showRulers, zoomState, slideSize]);
+
+  // Drag a guide, or pull a new one out of a ruler. A guide dropped outside
+  // the slide is removed.
+  const startGuideDrag = (event: React.PointerEvent, orientation: Guide['orientation'], id: string | null) => {
+    const element = canvasRef.current;
+    if (!element || event.button !== 0) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    const positionAt = (pointerEvent: { clientX: number; clientY: number }) => {
+      const rect = element.getBoundingClientRect();
+      const offset = orientation === 'vertical' ? pointerEvent.clientX - rect.left : pointerEvent.clientY - rect.top;
+      return Math.round(offset / zoomRef.current.zoom);
+    };
+    let position = positionAt(event);
+    setGuideDrag({ id, orientation, position });
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      position = positionAt(moveEvent);
+      setGuideDrag({ id, orientation, position });
+    };
+    const handleEnd = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleEnd);
+      window.removeEventListener('pointercancel', handleEnd);
+      setGuideDrag(null);
+      if (isGuideOnSlide({ orientation, position }, slideSizeRef.current)) {
+        dispatch(id
+          ? moveGuide({ id, position })
+          : addGuide({ id: `guide-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, orientation, position }));
+      } else if (id) {
+        dispatch(removeGuide(id));
+      }
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleEnd);
+    window.addEventListener('pointercancel', handleEnd);
+  };
+
+  // Copying anywhere else, in this page or another app, may replace the system
+  // clipboard's content; the editor's own copies never fire these events
+  useEffect(() => {
+    document.addEventListener('copy', markClipboardSuperseded);
+    document.addEventListener('cut', markClipboardSuperseded);
+    window.addEventListener('blur', markClipboardSuperseded);
+    return () => {
+      document.removeEventListener('copy', markClipboardSuperseded);
+      document.removeEventListener('cut', markClipboardSuperseded);
+      window.removeEventListener('blur', markClipboardSuperseded);
+    };
+  }, []);
+
   // Drag and drop handlers
   const handleDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -110,12 +899,25 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       return;
     }
 
+    // Drop position in slide coordinates, independent of the display zoom
+    const pointer = fabricCanvasRef.current.getScenePoint(event.nativeEvent);
+
     // Process each image file
     for (const file of imageFiles) {
-      await processImageFile(file, event.nativeEvent.offsetX, event.nativeEvent.offsetY);
+      await processImageFile(file, pointer.x, pointer.y);
     }
   }, []);
 
+  // Images are added to the asset table first, so saving the slide can reference them
+  const createImageObject = async (dataUrl: string, name?: string): Promise<fabric.FabricImage> => {
+    const asset = await createAssetFromDataUrl(dataUrl, name);
+    if (!asset) return fabric.FabricImage.fromURL(dataUrl);
+    dispatch(addAsset(asset));
+    const img = await fabric.FabricImage.fromURL(asset.src);
+    img.set('assetId', asset.id);
+    return img;
+  };
+
   const processImageFile = async (file: File, x?: number, y?: number) => {
     if (!fabricCanvasRef.current) return;
 
@@ -148,7 +950,7 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       clearInterval(progressInterval);
       setUploadProgress(100);
 
-      const img = await fabric.FabricImage.fromURL(dataUrl);
+      const img = await createImageObject(dataUrl, file.name);
       
       // Scale image to fit canvas if too large
       const maxWidth = 400;
@@ -160,8 +962,9 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       }
 
       // Position image at drop location or default position
-      const left = x !== undefined ? Math.max(10, Math.min(x - (img.width * img.scaleX) / 2, fabricCanvasRef.current.width! - (img.width * img.scaleX) - 10)) : 100;
-      const top = y !== undefined ? Math.max(10, Math.min(y - (img.height * img.scaleY) / 2, fabricCanvasRef.current.height! - (img.height * img.scaleY) - 10)) : 100;
+      const { width: slideWidth, height: slideHeight } = slideSizeRef.current;
+      const left = x !== undefined ? Math.max(10, Math.min(x - (img.width * img.scaleX) / 2, slideWidth - (img.width * img.scaleX) - 10)) : 100;
+      const top = y !== undefined ? Math.max(10, Math.min(y - (img.height * img.scaleY) / 2, slideHeight - (img.height * img.scaleY) - 10)) : 100;
 
       img.set({
         left,
@@ -195,20 +998,22 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
   const addTextBox = useCallback((x: number, y: number) => {
     if (!fabricCanvasRef.current) return;
 
-    // Ensure text box stays within canvas bounds
-    const canvas = fabricCanvasRef.current;
+    // Ensure text box stays within slide bounds
+    const { width: slideWidth, height: slideHeight } = slideSizeRef.current;
     const textWidth = 200;
     const textHeight = 30;
-    const adjustedX = Math.max(10, Math.min(x - textWidth/2, canvas.width! - textWidth - 10));
-    const adjustedY = Math.max(10, Math.min(y - textHeight/2, canvas.height! - textHeight - 10));
+    const adjustedX = Math.max(10, Math.min(x - textWidth/2, slideWidth - textWidth - 10));
+    const adjustedY = Math.max(10, Math.min(y - textHeight/2, slideHeight - textHeight - 10));
 
     const textbox = new fabric.Textbox('Click to edit text', {
       left: adjustedX,
       top: adjustedY,
       width: textWidth,
       fontSize: 24,
-      fontFamily: 'Arial',
-      fill: '#000000',
+      fontFamily: theme.fonts.body,
+      fontSlot: 'body',
+      fill: theme.colors.text,
+      fillSlot: 'text',
       fontWeight: 'bold',
       textAlign: 'left',
       selectable: true,
@@ -238,30 +1043,21 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
     
     // Auto-switch back to select after creating text
     setTimeout(() => dispatch(setSelectedTool('select')), 100);
-  }, [dispatch]);
+  }, [dispatch, theme]);
 
-  const addRectangle = useCallback((x: number, y: number) => {
+  // Text pasted from other apps becomes a textbox in the middle of the slide
+  const addPastedText = (text: string) => {
     if (!fabricCanvasRef.current) return;
 
-    // Ensure rectangle stays within canvas bounds
-    const canvas = fabricCanvasRef.current;
-    const rectWidth = 120;
-    const rectHeight = 80;
-    const adjustedX = Math.max(10, Math.min(x - rectWidth/2, canvas.width! - rectWidth - 10));
-    const adjustedY = Math.max(10, Math.min(y - rectHeight/2, canvas.height! - rectHeight - 10));
-
-    const rect = new fabric.Rect({
-      left: adjustedX,
-      top: adjustedY,
-      width: rectWidth,
-      height: rectHeight,
-      fill: currentShapeFormat.fill,
-      stroke: currentShapeFormat.stroke,
-      strokeWidth: currentShapeFormat.strokeWidth,
-      selectable: true,
-      evented: true,
-      visible: true,
-      opacity: 1,
+    const { width: slideWidth, height: slideHeight } = slideSizeRef.current;
+    const textbox = new fabric.Textbox(text, {
+      width: Math.min(400, slideWidth - 20),
+      fontSize: 24,
+      fontFamily: theme.fonts.body,
+      fontSlot: 'body',
+      fill: theme.colors.text,
+      fillSlot: 'text',
+      textAlign: 'left',
       borderColor: '#2563eb',
       borderScaleFactor: 2,
       cornerColor: '#2563eb',
@@ -269,35 +1065,96 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       transparentCorners: false,
       borderOpacityWhenMoving: 0.8,
     });
+    textbox.set({
+      left: Math.max(10, (slideWidth - textbox.width) / 2),
+      top: Math.max(10, (slideHeight - textbox.height) / 2),
+    });
 
-    fabricCanvasRef.current.add(rect);
-    fabricCanvasRef.current.setActiveObject(rect);
+    fabricCanvasRef.current.add(textbox);
+    fabricCanvasRef.current.setActiveObject(textbox);
     fabricCanvasRef.current.renderAll();
-    
-    // Auto-switch back to select after creating rectangle
-    setTimeout(() => dispatch(setSelectedTool('select')), 100);
-  }, [dispatch, currentShapeFormat]);
+  };
 
-  const addCircle = useCallback((x: number, y: number) => {
-    if (!fabricCanvasRef.current) return;
+  // Pastes from other apps: images and plain text become new objects.
+  // The copied objects come back when they are what was copied last.
+  const handlePaste = (event: ClipboardEvent) => {
+    if (isTextInputEvent(event) || !fabricCanvasRef.current) return;
 
-    // Ensure circle stays within canvas bounds
-    const canvas = fabricCanvasRef.current;
-    const radius = 40;
-    const adjustedX = Math.max(radius + 10, Math.min(x - radius, canvas.width! - radius - 10));
-    const adjustedY = Math.max(radius + 10, Math.min(y - radius, canvas.height! - radius - 10));
+    if (shouldPasteObjects(event.clipboardData)) {
+      event.preventDefault();
+      pasteClipboardObjects();
+      return;
+    }
 
-    const circle = new fabric.Circle({
-      left: adjustedX,
-      top: adjustedY,
-      radius: radius,
-      fill: currentShapeFormat.fill,
-      stroke: currentShapeFormat.stroke,
+    const image = Array.from(event.clipboardData?.files ?? []).find(file => file.type.startsWith('image/'));
+    const text = event.clipboardData?.getData('text/plain').trim();
+    if (image) {
+      event.preventDefault();
+      const { width, height } = slideSizeRef.current;
+      processImageFile(image, width / 2, height / 2);
+    } else if (text) {
+      event.preventDefault();
+      addPastedText(text);
+    } else if (hasClipboardObjects()) {
+      event.preventDefault();
+      pasteClipboardObjects();
+    }
+  };
+  const handlePasteRef = useRef(handlePaste);
+  handlePasteRef.current = handlePaste;
+
+  useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => handlePasteRef.current(event);
+    document.addEventListener('paste', onPaste);
+    return () => {
+      document.removeEventListener('paste', onPaste);
+    };
+  }, []);
+
+  // Shape tools add by dragging out the shape's size, or by clicking to place a default size
+  const createToolObject = useCallback((tool: ShapeTool, start: fabric.Point, end: fabric.Point): fabric.FabricObject => {
+    const style = {
+      fill: resolveColor(currentShapeFormat.fill, currentShapeFormat.fillSlot, theme),
+      fillSlot: currentShapeFormat.fillSlot,
+      stroke: resolveColor(currentShapeFormat.stroke, currentShapeFormat.strokeSlot, theme),
+      strokeSlot: currentShapeFormat.strokeSlot,
       strokeWidth: currentShapeFormat.strokeWidth,
-      selectable: true,
-      evented: true,
-      visible: true,
-      opacity: 1,
+    };
+    const left = Math.min(start.x, end.x);
+    const top = Math.min(start.y, end.y);
+    const width = Math.max(1, Math.abs(end.x - start.x));
+    const height = Math.max(1, Math.abs(end.y - start.y));
+
+    switch (tool) {
+      case 'rectangle':
+        return new fabric.Rect({ left, top, width, height, ...style });
+      case 'circle':
+        // Only a drag constrained to a square makes a circle; other drags make an ellipse
+        return width === height
+          ? new fabric.Circle({ left, top, radius: width / 2, ...style })
+          : new fabric.Ellipse({ left, top, rx: width / 2, ry: height / 2, ...style });
+      case 'line':
+        return new fabric.Line([start.x, start.y, end.x, end.y], {
+          stroke: style.stroke,
+          strokeSlot: style.strokeSlot,
+          strokeWidth: style.strokeWidth,
+          strokeLineCap: 'round',
+        });
+      case 'shape':
+        return createShape(shapeToolRef.current, start, end, style);
+      case 'table': {
+        const table = buildTable(createTableData(tableToolRef.current, width, height, theme));
+        table.set({ left, top });
+        return table;
+      }
+    }
+  }, [currentShapeFormat, theme]);
+
+  const addToolObject = useCallback((tool: ShapeTool, start: fabric.Point, end: fabric.Point) => {
+    if (!fabricCanvasRef.current) return;
+
+    const obj = createToolObject(tool, start, end);
+    obj.set({
       borderColor: '#2563eb',
       borderScaleFactor: 2,
       cornerColor: '#2563eb',
@@ -306,30 +1163,34 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       borderOpacityWhenMoving: 0.8,
     });
 
-    fabricCanvasRef.current.add(circle);
-    fabricCanvasRef.current.setActiveObject(circle);
+    fabricCanvasRef.current.add(obj);
+    fabricCanvasRef.current.setActiveObject(obj);
     fabricCanvasRef.current.renderAll();
-    
-    // Auto-switch back to select after creating circle
+
+    // Auto-switch back to select after creating shape
     setTimeout(() => dispatch(setSelectedTool('select')), 100);
-  }, [dispatch, currentShapeFormat]);
+  }, [dispatch, createToolObject]);
+
+  // A connector between two ends, in the current style and border color
+  const createConnectorObject = useCallback((start: ConnectorEndpoint, end: ConnectorEndpoint): fabric.Path => {
+    const style = connectorStyleRef.current;
+    return new fabric.Path(connectorPathBetween(style, start, end, currentShapeFormat.strokeWidth), {
+      fill: null,
+      stroke: resolveColor(currentShapeFormat.stroke, currentShapeFormat.strokeSlot, theme),
+      strokeSlot: currentShapeFormat.strokeSlot,
+      strokeWidth: currentShapeFormat.strokeWidth,
+      strokeLineCap: 'round',
+      strokeLineJoin: 'round',
+      connector: { ...style },
+    });
+  }, [currentShapeFormat, theme]);
 
-  const addLine = useCallback((x: number, y: number) => {
+  const addConnector = useCallback((start: ConnectorEndpoint, end: ConnectorEndpoint) => {
     if (!fabricCanvasRef.current) return;
 
-    // Ensure line stays within canvas bounds
-    const canvas = fabricCanvasRef.current;
-    const lineLength = 100;
-    const startX = Math.max(10, Math.min(x - lineLength/2, canvas.width! - lineLength - 10));
-    const endX = startX + lineLength;
-    const adjustedY = Math.max(10, Math.min(y, canvas.height! - 10));
-
-    const line = new fabric.Line([startX, adjustedY, endX, adjustedY], {
-      stroke: currentShapeFormat.stroke,
-      strokeWidth: currentShapeFormat.strokeWidth,
-      selectable: true,
-      evented: true,
-      strokeLineCap: 'round',
+    const connector = createConnectorObject(start, end);
+    connector.set({
+      connector: { ...connector.connector!, start: attachmentOf(start), end: attachmentOf(end) },
       borderColor: '#2563eb',
       borderScaleFactor: 2,
       cornerColor: '#2563eb',
@@ -338,20 +1199,20 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       borderOpacityWhenMoving: 0.8,
     });
 
-    fabricCanvasRef.current.add(line);
-    fabricCanvasRef.current.setActiveObject(line);
+    fabricCanvasRef.current.add(connector);
+    fabricCanvasRef.current.setActiveObject(connector);
     fabricCanvasRef.current.renderAll();
-    
-    // Auto-switch back to select after creating line
+
+    // Auto-switch back to select after creating connector
     setTimeout(() => dispatch(setSelectedTool('select')), 100);
-  }, [dispatch, currentShapeFormat]);
+  }, [dispatch, createConnectorObject]);
 
   // Initialize Fabric.js canvas
   useEffect(() => {
     if (canvasRef.current && !fabricCanvasRef.current) {
       const canvas = new fabric.Canvas(canvasRef.current, {
-        width: 1200,
-        height: 800,
+        width: slideSizeRef.current.width,
+        height: slideSizeRef.current.height,
         backgroundColor: '#ffffff',
         selection: true,
         preserveObjectStacking: true,
@@ -361,56 +1222,219 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       });
 
       fabricCanvasRef.current = canvas;
+      loadedSlideIdRef.current = null;
       
-      // Set up event listeners with debouncing to prevent excessive saves
-      let saveTimeout: NodeJS.Timeout;
+      // Set up event listeners with debouncing to prevent excessive saves.
+      // Rapid saves of the same slide are also merged into one undo step.
+      let saveTimeout: NodeJS.Timeout | undefined;
       const debouncedSaveCanvasState = () => {
+        if (isLoadingCanvasRef.current) return;
         clearTimeout(saveTimeout);
         saveTimeout = setTimeout(() => {
-          if (fabricCanvasRef.current && currentSlideId) {
-            const canvasData = JSON.stringify(fabricCanvasRef.current.toJSON());
-            dispatch(updateSlide({ 
-              id: currentSlideId, 
-              canvasData,
-              thumbnail: FileHandlers.generateThumbnail(canvasRef.current!)
-            }));
-          }
+          saveTimeout = undefined;
+          saveCanvasState();
         }, 500); // Debounce by 500ms
       };
 
-      canvas.on('object:modified', debouncedSaveCanvasState);
+      // Loading a slide reports its layers once it is done
+      const reportLayersUnlessLoading = () => {
+        if (!isLoadingCanvasRef.current) reportLayers();
+      };
+
+      canvas.on('object:modified', () => {
+        debouncedSaveCanvasState();
+        reportLayersUnlessLoading();
+      });
       canvas.on('object:added', () => {
         debouncedSaveCanvasState();
         setHasCanvasObjects(canvas.getObjects().length > 0);
+        reportLayersUnlessLoading();
       });
       canvas.on('object:removed', () => {
         debouncedSaveCanvasState();
         setHasCanvasObjects(canvas.getObjects().length > 0);
+        reportLayersUnlessLoading();
+      });
+      canvas.on('selection:created', reportLayersUnlessLoading);
+      canvas.on('selection:updated', reportLayersUnlessLoading);
+      canvas.on('selection:cleared', reportLayersUnlessLoading);
+
+      // Layout placeholders swap their hint for real text while being edited,
+      // and get the hint back if they are left empty
+      canvas.on('text:editing:entered', ({ target }) => {
+        if (!target.placeholderEmpty) return;
+        target.set({ text: '', opacity: 1, placeholderEmpty: false });
+        canvas.requestRenderAll();
+      });
+      canvas.on('text:editing:exited', ({ target }) => {
+        if (!target.placeholder || target.text.trim()) return;
+        target.set({ text: target.placeholderHint ?? '', opacity: PLACEHOLDER_HINT_OPACITY, placeholderEmpty: true });
+        canvas.requestRenderAll();
       });
 
-      // Handle resize
-      const handleResize = () => {
-        const container = canvasRef.current?.parentElement;
-        if (container && canvas) {
-          const containerWidth = container.clientWidth - 32; // Account for padding
-          const containerHeight = container.clientHeight - 32;
-          const aspectRatio = 1200 / 800;
-          
-          let newWidth = Math.min(containerWidth, 1200);
-          let newHeight = newWidth / aspectRatio;
-          
-          if (newHeight > containerHeight) {
-            newHeight = Math.min(containerHeight, 800);
-            newWidth = newHeight * aspectRatio;
-          }
-          
-          canvas.setDimensions({
-            width: newWidth,
-            height: newHeight
-          });
-          canvas.renderAll();
+      // A new canvas is made for each slide, and the draw tool stays selected
+      canvas.isDrawingMode = selectedToolRef.current === 'draw';
+      applyBrush();
+
+      // Brush strokes become editable paths, styled for the pen or highlighter
+      canvas.on('path:created', ({ path }) => {
+        styleStroke(path as fabric.Path, brushRef.current);
+        path.set({
+          borderColor: '#2563eb',
+          borderScaleFactor: 2,
+          cornerColor: '#2563eb',
+          cornerSize: 8,
+          transparentCorners: false,
+          borderOpacityWhenMoving: 0.8,
+        });
+        applyLayerLock(path, selectedToolRef.current === 'select');
+        canvas.requestRenderAll();
+        reportLayers();
+      });
+
+      // Smart guides: dragged objects snap to the slide, to other objects, to
+      // ruler guides, to even spacing and to the grid, and the guides they
+      // snapped to are drawn on the top layer until the move ends. Holding
+      // Alt moves freely.
+      let snap: SnapResult | null = null;
+      const clearSnapGuides = () => {
+        if (!snap) return;
+        snap = null;
+        canvas.clearContext(canvas.contextTop);
+      };
+      const snapTargetsFor = (target: fabric.FabricObject) => {
+        const selected = new Set(canvas.getActiveObjects());
+        const { grid, lines } = guidesRef.current;
+        return {
+          others: canvas.getObjects()
+            .filter(obj => obj !== target && !selected.has(obj) && obj.visible)
+            .map(obj => obj.getBoundingRect()),
+          options: { lines: guideSnapLines(lines.filter(guide => isGuideOnSlide(guide, slideSizeRef.current))), gridStep: gridSnapStep(grid) },
+        };
+      };
+      canvas.on('object:moving', ({ target, e }) => {
+        if (e.altKey) {
+          clearSnapGuides();
+          return;
+        }
+        const { others, options } = snapTargetsFor(target);
+        snap = findSnap(target.getBoundingRect(), others, slideSizeRef.current, SNAP_THRESHOLD / canvas.getZoom(), options);
+        if (snap.dx || snap.dy) {
+          target.set({ left: target.left + snap.dx, top: target.top + snap.dy });
+          target.setCoords();
+        }
+      });
+      // Resizing snaps the dragged edges the same way. Alt scales from the
+      // center, and rotated objects have no edges along the guides, so both
+      // resize freely.
+      canvas.on('object:scaling', ({ target, e, transform }) => {
+        const corner = transform.corner;
+        if (e.altKey || target.angle !== 0) {
+          clearSnapGuides();
+          return;
+        }
+        const edges: ResizeEdges = {
+          ...(corner.includes('l') ? { x: 'start' as const } : corner.includes('r') ? { x: 'end' as const } : {}),
+          ...(corner.includes('t') ? { y: 'start' as const } : corner.includes('b') ? { y: 'end' as const } : {}),
+        };
+        const bounds = target.getBoundingRect();
+        const { others, options } = snapTargetsFor(target);
+        const result = findResizeSnap(bounds, edges, others, slideSizeRef.current, SNAP_THRESHOLD / canvas.getZoom(), options);
+        let factorX = edges.x ? (bounds.width + (edges.x === 'end' ? result.dx : -result.dx)) / bounds.width : 1;
+        let factorY = edges.y ? (bounds.height + (edges.y === 'end' ? result.dy : -result.dy)) / bounds.height : 1;
+        let guides = result.guides;
+        // Corners scaling proportionally snap along the axis that needs the smaller change
+        const uniScaleKey = canvas.uniScaleKey;
+        const isProportional = !!edges.x && !!edges.y && canvas.uniformScaling !== !!(uniScaleKey && e[uniScaleKey]);
+        if (isProportional) {
+          const byX = Math.abs(result.dx) <= Math.abs(result.dy);
+          factorX = factorY = byX ? factorX : factorY;
+          guides = guides.filter(guide => guide.orientation === (byX ? 'vertical' : 'horizontal'));
+        }
+        snap = { ...result, guides };
+        if (factorX <= 0 || factorY <= 0 || (factorX === 1 && factorY === 1)) return;
+
+        target.set({ scaleX: target.scaleX * factorX, scaleY: target.scaleY * factorY });
+        target.setCoords();
+        // The edges opposite the dragged ones stay where they were
+        const scaled = target.getBoundingRect();
+        const shiftX = edges.x === 'start' ? bounds.left + bounds.width - (scaled.left + scaled.width) : bounds.left - scaled.left;
+        const shiftY = edges.y === 'start' ? bounds.top + bounds.height - (scaled.top + scaled.height) : bounds.top - scaled.top;
+        target.set({ left: target.left + shiftX, top: target.top + shiftY });
+        target.setCoords();
+      });
+      canvas.on('before:render', () => {
+        if (snap) canvas.clearContext(canvas.contextTop);
+      });
+      canvas.on('after:render', () => {
+        if (snap) drawSnapGuides(canvas.contextTop, snap, canvas.viewportTransform, slideSizeRef.current);
+      });
+      canvas.on('object:modified', clearSnapGuides);
+      canvas.on('selection:cleared', clearSnapGuides);
+
+      // Connectors follow the objects they are attached to while those move,
+      // resize or turn. A connector moved on its own is routed back to the
+      // objects it is attached to; its ends are dragged by their own handles.
+      canvas.on('object:added', ({ target }) => {
+        if (isConnector(target)) target.controls = connectorEndControls();
+      });
+      const rerouteConnectors = ({ target }: { target: fabric.FabricObject }) => rerouteConnectorsFor(canvas, [target]);
+      canvas.on('object:moving', rerouteConnectors);
+      canvas.on('object:scaling', rerouteConnectors);
+      canvas.on('object:rotating', rerouteConnectors);
+      canvas.on('object:resizing', rerouteConnectors);
+      canvas.on('object:modified', ({ target }) => {
+        if (isConnector(target)) {
+          rerouteConnector(canvas, target);
+        } else {
+          rerouteConnectorsFor(canvas, [target]);
+        }
+      });
+      canvas.on('text:changed', rerouteConnectors);
+
+      // Clicking a selected table selects the cell under the pointer, Shift+click
+      // a block of cells from there, and double-clicking a cell types in it.
+      // Cells stay selected while the table does.
+      const syncTableSelection = () => {
+        const active = canvas.getActiveObject();
+        if (isTable(active)) {
+          if (tableSelectionRef.current?.table !== active) selectTable({ table: active, cell: null, range: null });
+        } else if (tableSelectionRef.current) {
+          selectTable(null);
         }
       };
+      canvas.on('selection:created', syncTableSelection);
+      canvas.on('selection:updated', syncTableSelection);
+      canvas.on('selection:cleared', syncTableSelection);
+      canvas.on('mouse:down:before', ({ e, target }) => {
+        if (selectedToolRef.current !== 'select' || !isTable(target) || canvas.getActiveObject() !== target) return;
+        if (target.findControl(canvas.getViewportPoint(e))) return;
+        const cell = tableCellAt(target, canvas.getScenePoint(e));
+        if (!cell) return;
+        const current = tableSelectionRef.current;
+        const from = e.shiftKey && current?.table === target && current.cell ? current.cell : cell;
+        selectTable({ table: target, cell: from, range: rangeBetween(target.table!, from, cell) });
+      });
+      canvas.on('mouse:dblclick', ({ e, target }) => {
+        if (selectedToolRef.current !== 'select' || !isTable(target)) return;
+        const cell = tableCellAt(target, canvas.getScenePoint(e));
+        if (cell) startCellEdit(target, cell);
+      });
+      canvas.on('after:render', ({ ctx }) => {
+        const selection = tableSelectionRef.current;
+        if (selection?.range && canvas.getActiveObject() === selection.table) {
+          drawCellRange(ctx, selection.table, selection.range, canvas.viewportTransform);
+        }
+      });
+      // Resizing a table resizes its columns and rows; its text keeps its size
+      canvas.on('object:modified', ({ target }) => {
+        if (!isTable(target) || (target.scaleX === 1 && target.scaleY === 1)) return;
+        const table = replaceTable(canvas, target, scaleTable(target.table!, target.scaleX, target.scaleY));
+        rerouteConnectorsFor(canvas, [table]);
+      });
+
+      // Handle resize
+      const handleResize = refitCanvas;
 
       // Initial resize
       setTimeout(handleResize, 100);
@@ -418,22 +1442,96 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       // Add resize listener
       window.addEventListener('resize', handleResize);
 
+      // Side panels opening or closing resize the container without resizing the window
+      const resizeObserver = new ResizeObserver(() => handleResize());
+      if (canvasContainerRef.current) {
+        resizeObserver.observe(canvasContainerRef.current);
+      }
+
       return () => {
         window.removeEventListener('resize', handleResize);
+        resizeObserver.disconnect();
+        // Flush a pending save into the slide being left before the canvas goes away
+        if (saveTimeout) {
+          clearTimeout(saveTimeout);
+          saveCanvasState();
+        }
+        editCell(null);
+        selectTable(null);
         canvas.dispose();
         fabricCanvasRef.current = null;
       };
     }
-  }, [currentSlideId, dispatch]);
+  }, [currentSlideId, saveCanvasState, refitCanvas, reportLayers, applyBrush, selectTable, editCell, startCellEdit]);
+
+  // The cell editor takes the keyboard as it opens, and again as Tab moves it on
+  const editingCellKey = editingCell && `${editingCell.row},${editingCell.col}`;
+  useEffect(() => {
+    if (!editingCellKey) return;
+    cellEditorRef.current?.focus();
+    cellEditorRef.current?.select();
+  }, [editingCellKey]);
+
+  // Brush smoothing is measured on screen, so it follows the zoom
+  useEffect(() => {
+    applyBrush();
+  }, [zoomState.zoom, applyBrush]);
+
+  // Refit when the presentation's slide size changes
+  useEffect(() => {
+    refitCanvas();
+  }, [slideSize, refitCanvas]);
 
   // Handle canvas mouse events based on selected tool
   useEffect(() => {
     if (fabricCanvasRef.current) {
       const canvas = fabricCanvasRef.current;
+      // Where a drag with a shape tool started, in slide coordinates
+      let dragOrigin: fabric.Point | null = null;
+      const shapeTool = isShapeTool(selectedTool) ? selectedTool : null;
+      // The shape tool's shape can change while it stays selected
+      const isLine = () => selectedTool === 'line' || (selectedTool === 'shape' && isLineShape(shapeToolRef.current.kind));
+
+      // Shift keeps boxes square and lines at 45° steps; Alt draws from the center
+      const dragExtent = (origin: fabric.Point, event: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+        const { start, end } = constrainDrag(origin, canvas.getScenePoint(event.e), {
+          proportional: event.e.shiftKey,
+          fromCenter: event.e.altKey,
+          isLine: isLine(),
+        });
+        return { start: new fabric.Point(start), end: new fabric.Point(end) };
+      };
+      // Barely moving between press and release counts as a click
+      const isClick = (origin: fabric.Point, event: fabric.TPointerEventInfo<fabric.TPointerEvent>) =>
+        origin.distanceFrom(canvas.getScenePoint(event.e)) * canvas.getZoom() < SHAPE_CLICK_DISTANCE;
+
+      // Connector ends attach to the nearest anchor within reach, or stay where the pointer is
+      let connectorStart: ConnectorEndpoint | null = null;
+      const connectorEndpointAt = (pointer: fabric.Point): ConnectorEndpoint =>
+        findNearestAnchor(canvas, pointer, ANCHOR_SNAP_DISTANCE / canvas.getZoom()) ?? { point: pointer };
+
+      // Anchors of objects near the pointer are shown, and the connector being drawn is previewed
+      const drawConnectorPreview = (event: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+        const pointer = canvas.getScenePoint(event.e);
+        const end = connectorEndpointAt(pointer);
+        const ctx = canvas.contextTop;
+        canvas.clearContext(ctx);
+        if (connectorStart && !isClick(new fabric.Point(connectorStart.point), event)) {
+          const preview = createConnectorObject(connectorStart, end);
+          preview.set({ opacity: 0.6, objectCaching: false });
+          ctx.save();
+          ctx.transform(...canvas.viewportTransform);
+          preview.render(ctx);
+          ctx.restore();
+        }
+        const nearby = findObjectsNear(canvas, pointer, ANCHOR_SNAP_DISTANCE / canvas.getZoom());
+        const active = end.object && end.anchor ? { object: end.object, anchor: end.anchor } : null;
+        drawAnchors(ctx, nearby, active, canvas.viewportTransform);
+      };
       
-      const handleCanvasClick = (event: any) => {
-        // Don't add shapes if we're selecting
-        if (selectedTool === 'select') {
+      const handleCanvasClick = (event: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+        // Don't add shapes if we're selecting; the draw tool is handled by Fabric's brush
+        if (selectedTool === 'select' || selectedTool === 'draw') {
           return;
         }
 
@@ -444,46 +1542,93 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         }
         
         try {
-          // Get the pointer position relative to the canvas
-          const pointer = canvas.getPointer(event.e);
+          // Pointer position in slide coordinates, at any zoom level
+          const pointer = canvas.getScenePoint(event.e);
 
-          // Ensure we're within canvas bounds
-          if (pointer.x < 0 || pointer.y < 0 || pointer.x > canvas.width! || pointer.y > canvas.height!) {
+          // Ensure we're within slide bounds
+          const { width: slideWidth, height: slideHeight } = slideSizeRef.current;
+          if (pointer.x < 0 || pointer.y < 0 || pointer.x > slideWidth || pointer.y > slideHeight) {
             return;
           }
 
-          switch (selectedTool) {
-            case 'text':
-              addTextBox(pointer.x, pointer.y);
-              break;
-            case 'rectangle':
-              addRectangle(pointer.x, pointer.y);
-              break;
-            case 'circle':
-              addCircle(pointer.x, pointer.y);
-              break;
-            case 'line':
-              addLine(pointer.x, pointer.y);
-              break;
+          if (selectedTool === 'text') {
+            addTextBox(pointer.x, pointer.y);
+          } else if (selectedTool === 'connector') {
+            connectorStart = connectorEndpointAt(pointer);
+          } else if (shapeTool) {
+            dragOrigin = pointer;
           }
         } catch (error) {
           console.error('Error adding shape:', error);
         }
       };
+
+      // The shape being dragged out is previewed on the top layer, half see-through
+      const handleCanvasMouseMove = (event: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+        if (selectedTool === 'connector') {
+          drawConnectorPreview(event);
+          return;
+        }
+        if (!dragOrigin || !shapeTool) return;
+        canvas.clearContext(canvas.contextTop);
+        if (isClick(dragOrigin, event)) return;
+
+        const { start, end } = dragExtent(dragOrigin, event);
+        const preview = createToolObject(shapeTool, start, end);
+        preview.set({ opacity: 0.6, objectCaching: false });
+        const ctx = canvas.contextTop;
+        ctx.save();
+        ctx.transform(...canvas.viewportTransform);
+        preview.render(ctx);
+        ctx.restore();
+      };
+
+      const handleCanvasMouseUp = (event: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+        if (connectorStart) {
+          const start = connectorStart;
+          connectorStart = null;
+          canvas.clearContext(canvas.contextTop);
+          // A connector needs two ends, so a click adds nothing
+          if (!isClick(new fabric.Point(start.point), event)) {
+            addConnector(start, connectorEndpointAt(canvas.getScenePoint(event.e)));
+          }
+          return;
+        }
+        if (!dragOrigin || !shapeTool) return;
+        const origin = dragOrigin;
+        dragOrigin = null;
+        canvas.clearContext(canvas.contextTop);
+
+        if (isClick(origin, event)) {
+          const size = shapeTool === 'shape'
+            ? defaultShapeSize(shapeToolRef.current.kind)
+            : shapeTool === 'table' ? defaultTableSize(tableToolRef.current) : DEFAULT_TOOL_SIZES[shapeTool];
+          const { start, end } = placeShapeAt(origin, size, slideSizeRef.current, isLine());
+          addToolObject(shapeTool, new fabric.Point(start), new fabric.Point(end));
+        } else {
+          const { start, end } = dragExtent(origin, event);
+          addToolObject(shapeTool, start, end);
+        }
+      };
       
       // Remove any existing mouse handlers
       canvas.off('mouse:down');
       canvas.off('mouse:up');
       canvas.off('mouse:move');
       
-      // Add the click handler
+      // Add the mouse handlers
       canvas.on('mouse:down', handleCanvasClick);
+      canvas.on('mouse:move', handleCanvasMouseMove);
+      canvas.on('mouse:up', handleCanvasMouseUp);
 
       return () => {
         canvas.off('mouse:down', handleCanvasClick);
+        canvas.off('mouse:move', handleCanvasMouseMove);
+        canvas.off('mouse:up', handleCanvasMouseUp);
+        if (dragOrigin || selectedTool === 'connector') canvas.clearContext(canvas.contextTop);
       };
     }
-  }, [selectedTool, addTextBox, addRectangle, addCircle, addLine]);
+  }, [selectedTool, addTextBox, createToolObject, addToolObject, createConnectorObject, addConnector]);
 
   // Update canvas settings based on selected tool
   useEffect(() => {
@@ -496,13 +1641,11 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       
       // Enable/disable selection based on tool
       canvas.selection = selectedTool === 'select';
-      canvas.isDrawingMode = false;
+      canvas.isDrawingMode = selectedTool === 'draw';
+      applyBrush();
       
       // Set selectable for all existing objects
-      canvas.getObjects().forEach(obj => {
-        obj.selectable = selectedTool === 'select';
-        obj.evented = selectedTool === 'select';
-      });
+      canvas.getObjects().forEach(obj => applyLayerLock(obj, selectedTool === 'select'));
       
       // Update cursor based on tool and force it on the canvas element
       switch (selectedTool) {
@@ -521,6 +1664,10 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         case 'rectangle':
         case 'circle':
         case 'line':
+        case 'shape':
+        case 'connector':
+        case 'table':
+        case 'draw':
           canvas.defaultCursor = 'crosshair';
           canvas.hoverCursor = 'crosshair';
           canvas.moveCursor = 'crosshair';
@@ -544,6 +1691,10 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
           case 'rectangle':
           case 'circle':
           case 'line':
+          case 'shape':
+          case 'connector':
+          case 'table':
+          case 'draw':
             canvasElement.style.cursor = 'crosshair';
             break;
           default:
@@ -568,42 +1719,56 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         canvasElement.removeEventListener('mouseleave', handleMouseLeave);
       };
     }
-  }, [selectedTool]);
+  }, [selectedTool, applyBrush]);
 
-  // Load slide data when current slide changes
+  // Load slide data when the current slide changes, or when its data changes
+  // from outside this component (e.g. undo/redo)
   useEffect(() => {
-    if (fabricCanvasRef.current && currentSlide && currentSlide.canvasData) {
-      try {
-        const canvasData = JSON.parse(currentSlide.canvasData);
-        fabricCanvasRef.current.loadFromJSON(canvasData, () => {
-          fabricCanvasRef.current?.renderAll();
-          setHasCanvasObjects((fabricCanvasRef.current?.getObjects().length ?? 0) > 0);
-        });
-      } catch (error) {
-        console.error('Error loading slide data:', error);
-        // If loading fails, clear the canvas
-        fabricCanvasRef.current.clear();
-        fabricCanvasRef.current.renderAll();
-        setHasCanvasObjects(false);
-      }
-    } else if (fabricCanvasRef.current) {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    if (!currentSlide || !currentSlide.canvasData) {
       // Clear canvas if no slide data
-      fabricCanvasRef.current.clear();
-      fabricCanvasRef.current.renderAll();
+      loadedSlideIdRef.current = currentSlide?.id ?? null;
+      lastSyncedCanvasDataRef.current = null;
+      canvas.clear();
+      canvas.renderAll();
       setHasCanvasObjects(false);
+      reportLayers();
+      return;
     }
-  }, [currentSlideId]); // Only depend on currentSlideId to prevent infinite loops
 
-  const saveCanvasState = useCallback(() => {
-    if (fabricCanvasRef.current && currentSlideId) {
-      const canvasData = JSON.stringify(fabricCanvasRef.current.toJSON());
-      dispatch(updateSlide({ 
-        id: currentSlideId, 
-        canvasData,
-        thumbnail: FileHandlers.generateThumbnail(canvasRef.current!)
-      }));
+    if (loadedSlideIdRef.current === currentSlide.id && lastSyncedCanvasDataRef.current === currentSlide.canvasData) {
+      return;
     }
-  }, [currentSlideId, dispatch]);
+    loadedSlideIdRef.current = currentSlide.id;
+    lastSyncedCanvasDataRef.current = currentSlide.canvasData;
+
+    const loadToken = ++loadTokenRef.current;
+    isLoadingCanvasRef.current = true;
+    loadCanvasData(canvas, resolveCanvasAssets(currentSlide.canvasData, assetsRef.current), { showEmptyPlaceholders: true })
+      .then(() => {
+        if (loadToken !== loadTokenRef.current) return;
+        canvas.getObjects().forEach(obj => applyLayerLock(obj, selectedToolRef.current === 'select'));
+        setHasCanvasObjects(canvas.getObjects().length > 0);
+        reportLayers();
+      })
+      .catch((error) => {
+        console.error('Error loading slide data:', error);
+        // If loading fails, clear the canvas
+        if (loadToken !== loadTokenRef.current) return;
+        canvas.clear();
+        canvas.renderAll();
+        setHasCanvasObjects(false);
+        reportLayers();
+      })
+      .finally(() => {
+        // A newer load may have started in the meantime
+        if (loadToken === loadTokenRef.current) {
+          isLoadingCanvasRef.current = false;
+        }
+      });
+  }, [currentSlideId, currentSlide?.canvasData, reportLayers]);
 
   const addImageFromUrl = async (url: string) => {
     if (!fabricCanvasRef.current) return;
@@ -622,7 +1787,7 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       clearInterval(progressInterval);
       setUploadProgress(100);
       
-      const img = await fabric.FabricImage.fromURL(dataUrl);
+      const img = await createImageObject(dataUrl, url.split(/[?#]/)[0].split('/').pop() || undefined);
       
       // Scale image to fit canvas if too large
       const maxWidth = 400;
@@ -678,7 +1843,7 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
       clearInterval(progressInterval);
       setUploadProgress(100);
       
-      const img = await fabric.FabricImage.fromURL(dataUrl);
+      const img = await createImageObject(dataUrl);
       
       // Scale image to fit canvas if too large
       const maxWidth = 400;
@@ -717,7 +1882,44 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
     }
   };
 
-  const updateSelectedTextFormat = useCallback((format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string }) => {
+  // Reuse an image from the presentation's asset library
+  const addImageFromAsset = async (assetId: string) => {
+    const asset = assetsRef.current[assetId];
+    if (!fabricCanvasRef.current || !asset) return;
+
+    try {
+      const img = await fabric.FabricImage.fromURL(asset.src);
+
+      // Scale image to fit canvas if too large
+      const maxWidth = 400;
+      const maxHeight = 300;
+
+      if (img.width > maxWidth || img.height > maxHeight) {
+        const scale = Math.min(maxWidth / img.width, maxHeight / img.height);
+        img.scale(scale);
+      }
+
+      img.set({
+        assetId,
+        left: 100,
+        top: 100,
+        borderColor: '#2563eb',
+        borderScaleFactor: 2,
+        cornerColor: '#2563eb',
+        cornerSize: 8,
+        transparentCorners: false,
+        borderOpacityWhenMoving: 0.8,
+      });
+
+      fabricCanvasRef.current.add(img);
+      fabricCanvasRef.current.setActiveObject(img);
+    } catch (error) {
+      console.error('Error adding image from library:', error);
+      alert('Failed to add image from library');
+    }
+  };
+
+  const updateSelectedTextFormat = useCallback((format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string; fillSlot?: ThemeColorSlot }) => {
     if (!fabricCanvasRef.current) return;
 
     const activeObject = fabricCanvasRef.current.getActiveObject();
@@ -739,7 +1941,7 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         textObject.set('textAlign', format.textAlign);
       }
       if (format.fill !== undefined) {
-        textObject.set('fill', format.fill);
+        setObjectColor(textObject, 'fill', format.fill, format.fillSlot);
       }
       
       // Re-render the canvas
@@ -755,7 +1957,7 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
     }
   }, [saveCanvasState]);
 
-  const updateSelectedShapeFormat = useCallback((format: { fill?: string; stroke?: string; strokeWidth?: number }) => {
+  const updateSelectedShapeFormat = useCallback((format: ShapeFormatChange) => {
     if (!fabricCanvasRef.current) return;
 
     const activeObject = fabricCanvasRef.current.getActiveObject();
@@ -764,49 +1966,21 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
     // Update current shape format state
     setCurrentShapeFormat(prev => ({
       ...prev,
-      ...format
+      ...(format.fill !== undefined && { fill: format.fill, fillSlot: format.fillSlot }),
+      ...(format.stroke !== undefined && { stroke: format.stroke, strokeSlot: format.strokeSlot }),
+      ...(format.strokeWidth !== undefined && { strokeWidth: format.strokeWidth }),
     }));
 
-    // Apply formatting to selected object
-    if (activeObject.type === 'rect' || activeObject.type === 'circle') {
-      if (format.fill !== undefined) {
-        activeObject.set('fill', format.fill);
-      }
-      if (format.stroke !== undefined) {
-        activeObject.set('stroke', format.stroke);
-      }
-      if (format.strokeWidth !== undefined) {
-        activeObject.set('strokeWidth', format.strokeWidth);
-      }
-    } else if (activeObject.type === 'line') {
-      if (format.stroke !== undefined) {
-        activeObject.set('stroke', format.stroke);
-      }
-      if (format.strokeWidth !== undefined) {
-        activeObject.set('strokeWidth', format.strokeWidth);
+    // Apply formatting to the selected object, or to each object of a group.
+    // Tables are styled from their own controls.
+    if (isGroup(activeObject)) {
+      activeObject.forEachObject(obj => applyShapeFormat(obj, format));
+    } else {
+      applyShapeFormat(activeObject, format);
+      // Arrowheads are sized for the line width
+      if (format.strokeWidth !== undefined && isConnector(activeObject)) {
+        rerouteConnector(fabricCanvasRef.current, activeObject);
       }
-    } else if (activeObject.type === 'group') {
-      // Handle grouped objects
-      (activeObject as fabric.Group).forEachObject((obj) => {
-        if (obj.type === 'rect' || obj.type === 'circle') {
-          if (format.fill !== undefined) {
-            obj.set('fill', format.fill);
-          }
-          if (format.stroke !== undefined) {
-            obj.set('stroke', format.stroke);
-          }
-          if (format.strokeWidth !== undefined) {
-            obj.set('strokeWidth', format.strokeWidth);
-          }
-        } else if (obj.type === 'line') {
-          if (format.stroke !== undefined) {
-            obj.set('stroke', format.stroke);
-          }
-          if (format.strokeWidth !== undefined) {
-            obj.set('strokeWidth', format.strokeWidth);
-          }
-        }
-      });
     }
 
     fabricCanvasRef.current.renderAll();
@@ -815,14 +1989,120 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
     saveCanvasState();
   }, [saveCanvasState]);
 
+  // Align and distribute move the objects of a multi-selection in slide
+  // coordinates, so the selection is taken apart and put back together
+  const arrangeSelection = useCallback((arrange: (objects: fabric.FabricObject[]) => void) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas) return;
+
+    const objects = canvas.getActiveObjects();
+    if (objects.length < 2) return;
+
+    canvas.discardActiveObject();
+    arrange(objects);
+    canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }));
+    canvas.renderAll();
+
+    saveCanvasState();
+  }, [saveCanvasState]);
+
+  const alignSelection = useCallback((mode: AlignMode) => {
+    arrangeSelection(objects => alignObjects(objects, mode));
+  }, [arrangeSelection]);
+
+  const distributeSelection = useCallback((direction: DistributeDirection) => {
+    arrangeSelection(objects => distributeObjects(objects, direction));
+  }, [arrangeSelection]);
+
+  // Layers panel operations; paths are stack positions from the canvas down through groups
+  const updateLayer = useCallback((path: number[], update: (obj: fabric.FabricObject, canvas: fabric.Canvas) => void) => {
+    const canvas = fabricCanvasRef.current;
+    const obj = canvas && findLayerObject(canvas, path);
+    if (!canvas || !obj) return;
+
+    update(obj, canvas);
+    // Groups cache their rendering, so changes inside them need a redraw
+    for (let group = obj.group; group; group = group.group) {
+      group.set('dirty', true);
+    }
+    canvas.requestRenderAll();
+    reportLayers();
+    saveCanvasState();
+  }, [reportLayers, saveCanvasState]);
+
+  // Hidden and locked objects cannot stay selected
+  const deselect = (obj: fabric.FabricObject, canvas: fabric.Canvas) => {
+    if (canvas.getActiveObjects().includes(obj)) {
+      canvas.discardActiveObject();
+    }
+  };
+
+  // Objects inside a group are selected through their top-level group
+  const selectLayer = useCallback((path: number[]) => {
+    const canvas = fabricCanvasRef.current;
+    const obj = canvas?.item(path[0]);
+    if (!canvas || !obj || !obj.selectable) return;
+
+    canvas.setActiveObject(obj);
+    canvas.requestRenderAll();
+    reportLayers();
+  }, [reportLayers]);
+
+  // Restacks top-level objects
+  const moveLayer = useCallback((fromIndex: number, toIndex: number) => {
+    updateLayer([fromIndex], (obj, canvas) => {
+      canvas.moveObjectTo(obj, toIndex);
+    });
+  }, [updateLayer]);
+
+  const setLayerVisible = useCallback((path: number[], visible: boolean) => {
+    updateLayer(path, (obj, canvas) => {
+      if (!visible) deselect(obj, canvas);
+      obj.set('visible', visible);
+    });
+  }, [updateLayer]);
+
+  const setLayerLocked = useCallback((path: number[], locked: boolean) => {
+    updateLayer(path, (obj, canvas) => {
+      if (locked) deselect(obj, canvas);
+      obj.set('locked', locked);
+      applyLayerLock(obj, selectedToolRef.current === 'select');
+    });
+  }, [updateLayer]);
+
+  // An empty name goes back to the default one
+  const renameLayer = useCallback((path: number[], name: string) => {
+    const canvas = fabricCanvasRef.current;
+    const obj = canvas && findLayerObject(canvas, path);
+    if (!obj || name === getLayerName(obj)) return;
+    updateLayer(path, (obj) => {
+      obj.set('layerName', name || undefined);
+    });
+  }, [updateLayer]);
+
   // Expose methods to parent components
   useImperativeHandle(ref, () => ({
     addImageFromUrl,
     addImageFromFile,
+    addImageFromAsset,
     updateSelectedTextFormat,
     updateSelectedShapeFormat,
+    alignSelection,
+    distributeSelection,
+    changeSelectionZOrder,
+    groupSelection,
+    ungroupSelection,
+    selectLayer,
+    moveLayer,
+    setLayerVisible,
+    setLayerLocked,
+    renameLayer,
+    setBrush,
+    setShapeTool,
+    setConnectorStyle,
+    setTableTool,
     canvas: fabricCanvasRef.current,
-  }), [addImageFromUrl, addImageFromFile, updateSelectedTextFormat, updateSelectedShapeFormat]);
+  }), [addImageFromUrl, addImageFromFile, addImageFromAsset, updateSelectedTextFormat, updateSelectedShapeFormat, alignSelection, distributeSelection, changeSelectionZOrder, groupSelection, ungroupSelection, selectLayer, moveLayer, setLayerVisible, setLayerLocked, renameLayer, setBrush, setShapeTool, setConnectorStyle, setTableTool]);
 
   if (!currentSlide) {
     return (
@@ -850,7 +2130,7 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
               <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
-              Click on canvas to add {selectedTool}
+              {toolHint(selectedTool)}
             </div>
           </div>
         )}
@@ -874,8 +2154,8 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         )}
       </div>
       
-      {/* Canvas Container */}
-      <div key="canvas-container" className="flex-1 flex items-center justify-center p-2 lg:p-4 min-h-0 relative">
+      {/* Canvas Container - scrolls when the slide is zoomed in */}
+      <div key="canvas-viewport" className="flex-1 min-h-0 relative">
         {/* Drag and Drop Overlay */}
         <div key="drag-overlay" className={`absolute inset-0 z-10 transition-opacity duration-200 ${isDragOver ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
           <div className="absolute inset-0 bg-gray-100 bg-opacity-90 border-4 border-dashed border-gray-400 rounded-lg flex items-center justify-center">
@@ -888,36 +2168,148 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
           </div>
         </div>
 
-        <div 
-          key="canvas-wrapper"
-          className="bg-white shadow-lg rounded-lg overflow-hidden flex items-center justify-center border border-gray-200 transition-all duration-300 hover:shadow-xl relative" 
-          style={{ maxWidth: '100%', maxHeight: '100%' }}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
+        {/* Rulers in slide pixels, outside the scrolling area */}
+        {showRulers && (
+          <>
+            <div key="ruler-corner" className="absolute top-0 left-0 bg-gray-100 border-r border-b border-gray-300" style={{ width: RULER_SIZE, height: RULER_SIZE }} />
+            <Ruler
+              key="ruler-top"
+              orientation="horizontal"
+              className="absolute top-0"
+              style={{ left: RULER_SIZE, width: `calc(100% - ${RULER_SIZE}px)`, height: RULER_SIZE }}
+              origin={rulerOrigin.x}
+              zoom={zoomState.zoom}
+              slideLength={slideSize.width}
+              onPointerDown={(e) => startGuideDrag(e, 'horizontal', null)}
+            />
+            <Ruler
+              key="ruler-left"
+              orientation="vertical"
+              className="absolute left-0"
+              style={{ top: RULER_SIZE, width: RULER_SIZE, height: `calc(100% - ${RULER_SIZE}px)` }}
+              origin={rulerOrigin.y}
+              zoom={zoomState.zoom}
+              slideLength={slideSize.height}
+              onPointerDown={(e) => startGuideDrag(e, 'vertical', null)}
+            />
+          </>
+        )}
+
+        <div
+          key="canvas-container"
+          ref={canvasContainerRef}
+          className="absolute inset-0 overflow-auto flex p-2 lg:p-4"
+          // Pinches are handled here rather than zooming the page
+          style={{
+            top: showRulers ? RULER_SIZE : 0,
+            left: showRulers ? RULER_SIZE : 0,
+            cursor: isPanning ? 'grabbing' : isSpaceHeld ? 'grab' : undefined,
+            touchAction: 'pan-x pan-y',
+          }}
+          onPointerDownCapture={handlePanStart}
         >
-          {/* Drag and Drop Instructions */}
-          <div key="drop-instructions" className={`absolute inset-0 flex items-center justify-center pointer-events-none z-5 transition-opacity duration-200 ${!isDragOver && !hasCanvasObjects ? 'opacity-100' : 'opacity-0'}`}>
-            <div className="text-center text-gray-400 bg-white bg-opacity-90 px-4 lg:px-6 py-3 lg:py-4 rounded-lg border border-dashed border-gray-300">
-              <svg className="w-8 lg:w-12 h-8 lg:h-12 mx-auto mb-2 lg:mb-3 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 12l2 2 4-4M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <p className="text-xs lg:text-sm font-medium">Drag & drop images here</p>
-              <p className="text-xs text-gray-500 mt-1 hidden sm:block">or use the toolbar to add content</p>
+          {/* Auto margins center the slide but keep all of it reachable by scrolling */}
+          <div 
+            key="canvas-wrapper"
+            className="m-auto flex-shrink-0 bg-white shadow-lg rounded-lg overflow-hidden flex items-center justify-center border border-gray-200 transition-shadow duration-300 hover:shadow-xl relative" 
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            onPointerDownCapture={handleCellEditorPointerDown}
+          >
+            {/* Drag and Drop Instructions */}
+            <div key="drop-instructions" className={`absolute inset-0 flex items-center justify-center pointer-events-none z-5 transition-opacity duration-200 ${!isDragOver && !hasCanvasObjects ? 'opacity-100' : 'opacity-0'}`}>
+              <div className="text-center text-gray-400 bg-white bg-opacity-90 px-4 lg:px-6 py-3 lg:py-4 rounded-lg border border-dashed border-gray-300">
+                <svg className="w-8 lg:w-12 h-8 lg:h-12 mx-auto mb-2 lg:mb-3 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 12l2 2 4-4M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <p className="text-xs lg:text-sm font-medium">Drag & drop images here</p>
+                <p className="text-xs text-gray-500 mt-1 hidden sm:block">or use the toolbar to add content</p>
+              </div>
             </div>
+
+            <canvas
+              key="fabric-canvas"
+              ref={canvasRef}
+              className="border-0 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-shadow duration-200"
+              style={{ 
+                display: 'block',
+                cursor: selectedTool === 'select' ? 'default' : 'crosshair'
+              }}
+              tabIndex={0}
+            />
+
+            {/* Grid, drawn over the slide without taking part in it */}
+            {guides.grid.visible && (
+              <div key="grid-overlay" className="absolute inset-0 pointer-events-none z-10" style={gridBackgroundStyle(guides.grid, zoomState.zoom)} />
+            )}
+
+            {/* Ruler guides, each with a few pixels around the line to grab it by. Guides
+                off a slide that has been made smaller stay hidden. */}
+            {[
+              ...guides.lines.filter(guide => guide.id !== guideDrag?.id && isGuideOnSlide(guide, slideSize)),
+              ...(guideDrag ? [guideDrag] : []),
+            ].map(guide => {
+              const isVertical = guide.orientation === 'vertical';
+              const offset = guide.position * zoomState.zoom - 3;
+              return (
+                <div
+                  key={guide.id ?? 'new-guide'}
+                  className={`absolute z-10 flex ${isVertical ? 'top-0 bottom-0 w-[7px] justify-center' : 'left-0 right-0 h-[7px] items-center'}`}
+                  style={{ ...(isVertical ? { left: offset, cursor: 'ew-resize' } : { top: offset, cursor: 'ns-resize' }), touchAction: 'none' }}
+                  onPointerDown={(e) => startGuideDrag(e, guide.orientation, guide.id)}
+                  title="Drag to move, or off the slide to remove"
+                >
+                  <div className={`bg-cyan-500 ${isVertical ? 'w-px h-full' : 'h-px w-full'}`} />
+                </div>
+              );
+            })}
+
+            {/* Typing in a table cell */}
+            {editingCell && tableSelection && (
+              <textarea
+                key="cell-editor"
+                ref={cellEditorRef}
+                className="absolute z-10 resize-none overflow-hidden border-2 border-blue-600 outline-none"
+                style={cellEditorStyle(tableSelection.table, editingCell, zoomState.zoom)}
+                value={editingCell.text}
+                onChange={(e) => editCell({ ...editingCell, text: e.target.value })}
+                onBlur={() => finishCellEdit(true)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    e.preventDefault();
+                    finishCellEdit(false);
+                  } else if (e.key === 'Tab') {
+                    e.preventDefault();
+                    finishCellEdit(true, e.shiftKey ? -1 : 1);
+                  }
+                }}
+              />
+            )}
+
+            {/* Keeps Fabric's hover cursors and highlights away while Space is held */}
+            {isSpaceHeld && <div key="pan-overlay" className="absolute inset-0 z-20" />}
           </div>
+        </div>
 
-          <canvas
-            key="fabric-canvas"
-            ref={canvasRef}
-            className="border-0 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200"
-            style={{ 
-              display: 'block',
-              cursor: selectedTool === 'select' ? 'default' : 'crosshair'
-            }}
-            tabIndex={0}
+        {tableSelection && (
+          <TableControls
+            className="absolute top-2 left-1/2 -translate-x-1/2 z-20 max-w-[95%]"
+            table={tableSelection.table.table!}
+            range={tableSelection.range}
+            onChange={editTable}
           />
-        </div>
+        )}
+
+        <ZoomControls
+          className="absolute bottom-3 right-5 z-20"
+          zoom={zoomState.zoom}
+          mode={zoomState.mode}
+          onZoomIn={() => zoomInOut(1)}
+          onZoomOut={() => zoomInOut(-1)}
+          onSetZoom={(zoom) => applyZoom('custom', zoom)}
+          onFit={fitCanvas}
+        />
       </div>
 
       {/* Help Text */}
@@ -925,6 +2317,9 @@ export const SlideCanvas = forwardRef<SlideCanvasRef, SlideCanvasProps>(({ class
         <p className="text-xs text-gray-500">
           Press <kbd className="px-1 py-0.5 bg-gray-100 border border-gray-300 rounded text-xs">Del</kbd> to delete selected objects • 
           <span className="hidden md:inline">Drag & drop images onto the canvas • </span>
+          <span className="hidden lg:inline"><kbd className="px-1 py-0.5 bg-gray-100 border border-gray-300 rounded text-xs">Ctrl+D</kbd> to duplicate • </span>
+          <span className="hidden md:inline">Hold <kbd className="px-1 py-0.5 bg-gray-100 border border-gray-300 rounded text-xs">Alt</kbd> to move without snapping • </span>
+          <span className="hidden xl:inline">Hold <kbd className="px-1 py-0.5 bg-gray-100 border border-gray-300 rounded text-xs">Space</kbd> and drag to pan • </span>
           Click tools then click canvas to add elements
         </p>
       </div>
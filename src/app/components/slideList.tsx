@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../redux/store';
 import {
@@ -10,6 +10,8 @@ import {
   duplicateSlide,
   updateSlide,
 } from '../redux/presentationSlice';
+import { FileHandlers } from '../utils/fileHandlers';
+import { resolveCanvasAssets } from '../utils/assets';
 
 interface SlideListProps {
   className?: string;
@@ -22,6 +24,24 @@ export const SlideList: React.FC<SlideListProps> = ({ className }) => {
 
   const slides = useSelector((state: RootState) => state.presentation.slides);
   const currentSlideId = useSelector((state: RootState) => state.presentation.currentSlideId);
+  const slideSize = useSelector((state: RootState) => state.presentation.slideSize);
+  const assets = useSelector((state: RootState) => state.presentation.assets);
+
+  // Render missing thumbnails one at a time, e.g. after the slide size changed.
+  // Any change to the slides cancels the pending one and starts over.
+  useEffect(() => {
+    const slide = slides.find(slide => slide.thumbnail === undefined);
+    if (!slide) return;
+
+    let cancelled = false;
+    FileHandlers.renderThumbnail(resolveCanvasAssets(slide.canvasData, assets), slideSize).then(thumbnail => {
+      // An empty thumbnail marks a failed render so it is not retried forever
+      if (!cancelled) dispatch(updateSlide({ id: slide.id, thumbnail }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [slides, slideSize, assets, dispatch]);
 
   const handleAddSlide = () => {
     dispatch(addSlide({}));
@@ -116,12 +136,15 @@ export const SlideList: React.FC<SlideListProps> = ({ className }) => {
                 </div>
 
                 {/* Thumbnail */}
-                <div className="aspect-video bg-gray-100 rounded-t-lg overflow-hidden">
+                <div
+                  className="bg-gray-100 rounded-t-lg overflow-hidden"
+                  style={{ aspectRatio: `${slideSize.width} / ${slideSize.height}` }}
+                >
                   {slide.thumbnail ? (
                     <img
                       src={slide.thumbnail}
                       alt={slide.name}
-                      className="w-full h-full object-cover"
+                      className="w-full h-full object-contain"
                     />
                   ) : (
                     <div className="w-full h-full flex items-center justify-center text-gray-400">
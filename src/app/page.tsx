@@ -1,27 +1,190 @@
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
-import { useDispatch, useSelector } from 'react-redux';
-import { RootState } from './redux/store';
-import { addSlide } from './redux/presentationSlice';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import * as fabric from 'fabric';
+import { useDispatch, useSelector, useStore } from 'react-redux';
+import { RootState, AppStore } from './redux/store';
+import { addSlide, loadPresentation, setCurrentSlide } from './redux/presentationSlice';
+import { startAutosave } from './redux/autosave';
+import { PresentationDB, StoredPresentation } from './utils/presentationDB';
+import { undo, redo } from './redux/historySlice';
+import { isTextInputEvent, hasCommandModifier } from './utils/keyboard';
 import { SlideCanvas, SlideCanvasRef } from './components/slideCanvas';
 import { SlideList } from './components/slideList';
 import { Toolbar } from './components/Toolbar';
+import { RestoreSessionDialog } from './components/RestoreSessionDialog';
+import { Slideshow } from './components/Slideshow';
+import { SlideNotes } from './components/SlideNotes';
+import { LayersPanel } from './components/LayersPanel';
+import { PRESENTER_WINDOW_PATH } from './utils/presenterChannel';
+import { ThemeColorSlot } from './utils/themes';
+import { AlignMode, DistributeDirection } from './utils/alignment';
+import { LayerInfo, ZOrderAction } from './utils/layers';
+import { BrushSettings } from './utils/drawing';
+import { ShapeToolOptions } from './utils/shapes';
+import { ConnectorStyle } from './utils/connectors';
+import { TableToolOptions } from './utils/tables';
+import { resolveSlideAssets } from './utils/assets';
+import { registerEmbeddedFonts } from './utils/fonts';
 
 export default function Home() {
   const dispatch = useDispatch();
+  const store = useStore() as AppStore;
   const canvasRef = useRef<SlideCanvasRef>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isLayersPanelOpen, setIsLayersPanelOpen] = useState(false);
+  const [showRulers, setShowRulers] = useState(false);
+  const [layers, setLayers] = useState<LayerInfo[]>([]);
+  // 'checking' while looking for a previous session in local storage
+  const [startupState, setStartupState] = useState<'checking' | 'prompt' | 'ready'>('checking');
+  const [storedSession, setStoredSession] = useState<StoredPresentation | null>(null);
+  // Index of the slide the running slideshow started from; null when not presenting
+  const [slideshowStartIndex, setSlideshowStartIndex] = useState<number | null>(null);
   
   const slides = useSelector((state: RootState) => state.presentation.slides);
+  const currentSlideIndex = useSelector((state: RootState) => state.presentation.currentSlideIndex);
+  const presentationName = useSelector((state: RootState) => state.presentation.presentationName);
+  const slideSize = useSelector((state: RootState) => state.presentation.slideSize);
+  const assets = useSelector((state: RootState) => state.presentation.assets);
+  const fonts = useSelector((state: RootState) => state.presentation.fonts);
   const error = useSelector((state: RootState) => state.presentation.error);
 
+  // Offer to restore the last autosaved session
+  useEffect(() => {
+    if (!PresentationDB.isAvailable()) {
+      setStartupState('ready');
+      return;
+    }
+    PresentationDB.loadLatest()
+      .then((session) => {
+        if (session && session.slides.length > 0) {
+          setStoredSession(session);
+          setStartupState('prompt');
+        } else {
+          setStartupState('ready');
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to read autosaved session:', error);
+        setStartupState('ready');
+      });
+  }, []);
+
+  // Autosave once the startup decision has been made
+  useEffect(() => {
+    if (startupState !== 'ready') return;
+    return startAutosave(store);
+  }, [startupState, store]);
+
+  // Make the presentation's embedded fonts available to the canvas and slideshow
+  useEffect(() => {
+    registerEmbeddedFonts(fonts).then(() => {
+      const canvas = canvasRef.current?.canvas;
+      if (!canvas) return;
+      // Text on the open slide was measured with a fallback font
+      fabric.cache.clearFontCache();
+      canvas.getObjects().forEach(obj => {
+        if (obj instanceof fabric.FabricText) obj.initDimensions();
+      });
+      canvas.requestRenderAll();
+    });
+  }, [fonts]);
+
   // Create initial slide if none exist
   useEffect(() => {
-    if (slides.length === 0) {
+    if (startupState === 'ready' && slides.length === 0) {
       dispatch(addSlide({ name: 'Slide 1' }));
     }
-  }, [slides.length, dispatch]);
+  }, [startupState, slides.length, dispatch]);
+
+  const handleRestoreSession = () => {
+    if (storedSession) {
+      dispatch(loadPresentation({
+        slides: storedSession.slides,
+        name: storedSession.name,
+        slideSize: storedSession.slideSize,
+        theme: storedSession.theme,
+        assets: storedSession.assets,
+        fonts: storedSession.fonts,
+        guides: storedSession.guides,
+        id: storedSession.id,
+        savedAt: storedSession.savedAt,
+      }));
+      if (storedSession.currentSlideId) {
+        dispatch(setCurrentSlide(storedSession.currentSlideId));
+      }
+    }
+    setStoredSession(null);
+    setStartupState('ready');
+  };
+
+  const handleDiscardSession = () => {
+    if (storedSession) {
+      PresentationDB.remove(storedSession.id).catch((error) => {
+        console.error('Failed to delete autosaved session:', error);
+      });
+    }
+    setStoredSession(null);
+    setStartupState('ready');
+  };
+
+  // Undo/redo shortcuts: Ctrl+Z, Ctrl+Shift+Z (and Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!hasCommandModifier(event) || isTextInputEvent(event)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        dispatch(undo());
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        dispatch(redo());
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [dispatch]);
+
+  const startSlideshow = useCallback((fromIndex: number) => {
+    if (slides.length > 0) {
+      setSlideshowStartIndex(fromIndex);
+    }
+  }, [slides.length]);
+
+  // The presenter window follows the slideshow started in this window
+  const startPresenterView = () => {
+    if (slides.length === 0) return;
+    window.open(PRESENTER_WINDOW_PATH, 'presenter-view', 'width=1100,height=700');
+    startSlideshow(0);
+  };
+
+  // The slideshow and presenter window render slides with their images filled in
+  const slideshowSlides = useMemo(
+    () => (slideshowStartIndex !== null ? resolveSlideAssets(slides, assets) : []),
+    [slideshowStartIndex, slides, assets]
+  );
+
+  const exitSlideshow = useCallback(() => {
+    setSlideshowStartIndex(null);
+  }, []);
+
+  // Slideshow shortcuts: F5 from the beginning, Shift+F5 from the current slide
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'F5' || hasCommandModifier(event) || slideshowStartIndex !== null) return;
+      event.preventDefault();
+      startSlideshow(event.shiftKey ? Math.max(currentSlideIndex, 0) : 0);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [startSlideshow, currentSlideIndex, slideshowStartIndex]);
 
   const handleAddImageFromUrl = (url: string) => {
     if (canvasRef.current?.addImageFromUrl) {
@@ -35,18 +198,70 @@ export default function Home() {
     }
   };
 
-  const handleTextFormatChange = (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string }) => {
+  const handleAddImageFromAsset = (assetId: string) => {
+    if (canvasRef.current?.addImageFromAsset) {
+      canvasRef.current.addImageFromAsset(assetId);
+    }
+  };
+
+  const handleTextFormatChange = (format: { fontSize?: number; fontWeight?: string; fontStyle?: string; textAlign?: string; fill?: string; fillSlot?: ThemeColorSlot }) => {
     if (canvasRef.current?.updateSelectedTextFormat) {
       canvasRef.current.updateSelectedTextFormat(format);
     }
   };
 
-  const handleShapeFormatChange = (format: { fill?: string; stroke?: string; strokeWidth?: number }) => {
+  const handleShapeFormatChange = (format: { fill?: string; fillSlot?: ThemeColorSlot; stroke?: string; strokeSlot?: ThemeColorSlot; strokeWidth?: number; cornerRadius?: number }) => {
     if (canvasRef.current?.updateSelectedShapeFormat) {
       canvasRef.current.updateSelectedShapeFormat(format);
     }
   };
 
+  const handleBrushChange = (settings: Partial<BrushSettings>) => {
+    canvasRef.current?.setBrush(settings);
+  };
+
+  const handleShapeToolChange = (options: Partial<ShapeToolOptions>) => {
+    canvasRef.current?.setShapeTool(options);
+  };
+
+  const handleConnectorStyleChange = (style: Partial<ConnectorStyle>) => {
+    canvasRef.current?.setConnectorStyle(style);
+  };
+
+  const handleTableToolChange = (options: Partial<TableToolOptions>) => {
+    canvasRef.current?.setTableTool(options);
+  };
+
+  const handleAlign = (mode: AlignMode) => {
+    if (canvasRef.current?.alignSelection) {
+      canvasRef.current.alignSelection(mode);
+    }
+  };
+
+  const handleDistribute = (direction: DistributeDirection) => {
+    if (canvasRef.current?.distributeSelection) {
+      canvasRef.current.distributeSelection(direction);
+    }
+  };
+
+  const handleZOrder = (action: ZOrderAction) => {
+    if (canvasRef.current?.changeSelectionZOrder) {
+      canvasRef.current.changeSelectionZOrder(action);
+    }
+  };
+
+  const handleGroup = () => {
+    if (canvasRef.current?.groupSelection) {
+      canvasRef.current.groupSelection();
+    }
+  };
+
+  const handleUngroup = () => {
+    if (canvasRef.current?.ungroupSelection) {
+      canvasRef.current.ungroupSelection();
+    }
+  };
+
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
@@ -58,10 +273,26 @@ export default function Home() {
         <Toolbar
           onAddImageFromUrl={handleAddImageFromUrl}
           onAddImageFromFile={handleAddImageFromFile}
+          onAddImageFromAsset={handleAddImageFromAsset}
           onTextFormatChange={handleTextFormatChange}
           onShapeFormatChange={handleShapeFormatChange}
+          onBrushChange={handleBrushChange}
+          onShapeToolChange={handleShapeToolChange}
+          onConnectorStyleChange={handleConnectorStyleChange}
+          onTableToolChange={handleTableToolChange}
+          onAlign={handleAlign}
+          onDistribute={handleDistribute}
+          onZOrder={handleZOrder}
+          onGroup={handleGroup}
+          onUngroup={handleUngroup}
           onToggleSidebar={toggleSidebar}
+          onToggleLayers={() => setIsLayersPanelOpen(!isLayersPanelOpen)}
+          onToggleRulers={() => setShowRulers(!showRulers)}
+          onStartPresentation={() => startSlideshow(0)}
+          onStartPresenterView={startPresenterView}
           isSidebarOpen={isSidebarOpen}
+          isLayersPanelOpen={isLayersPanelOpen}
+          showRulers={showRulers}
         />
       </div>
 
@@ -90,10 +321,46 @@ export default function Home() {
           <SlideCanvas 
             ref={canvasRef}
             className="flex-1 min-h-0"
+            showRulers={showRulers}
+            onLayersChange={setLayers}
           />
+          <SlideNotes className="h-28 flex-shrink-0" />
         </div>
+
+        {/* Layers Panel - Hidden on mobile */}
+        {isLayersPanelOpen && (
+          <LayersPanel
+            className="hidden md:flex w-56 xl:w-64 flex-shrink-0"
+            layers={layers}
+            onSelect={(path) => canvasRef.current?.selectLayer(path)}
+            onMove={(fromIndex, toIndex) => canvasRef.current?.moveLayer(fromIndex, toIndex)}
+            onSetVisible={(path, visible) => canvasRef.current?.setLayerVisible(path, visible)}
+            onSetLocked={(path, locked) => canvasRef.current?.setLayerLocked(path, locked)}
+            onRename={(path, name) => canvasRef.current?.renameLayer(path, name)}
+          />
+        )}
       </div>
 
+      {/* Restore Last Session */}
+      {startupState === 'prompt' && storedSession && (
+        <RestoreSessionDialog
+          session={storedSession}
+          onRestore={handleRestoreSession}
+          onDiscard={handleDiscardSession}
+        />
+      )}
+
+      {/* Slideshow */}
+      {slideshowStartIndex !== null && (
+        <Slideshow
+          slides={slideshowSlides}
+          slideSize={slideSize}
+          presentationName={presentationName}
+          startIndex={slideshowStartIndex}
+          onExit={exitSlideshow}
+        />
+      )}
+
       {/* Error Toast */}
       {error && (
         <div className="fixed bottom-4 right-4 bg-red-100 border border-red-300 text-red-800 px-4 py-2 rounded-lg shadow-lg z-50 max-w-sm">
@@ -0,0 +1,7 @@
+'use client';
+
+import { PresenterView } from '../components/PresenterView';
+
+export default function PresenterPage() {
+  return <PresenterView />;
+}
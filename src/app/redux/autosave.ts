@@ -0,0 +1,112 @@
+import type { AppStore } from './store';
+import { markAsSaved, PresentationState } from './presentationSlice';
+import { PresentationDB } from '../utils/presentationDB';
+import { pickUsedAssets } from '../utils/assets';
+
+export const AUTOSAVE_INTERVAL_MS = 2000;
+
+// Parts of the presentation that are persisted; compared by reference
+const persistedFields = (state: PresentationState) => ({
+  id: state.presentationId,
+  slides: state.slides,
+  slideSize: state.slideSize,
+  theme: state.theme,
+  assets: state.assets,
+  fonts: state.fonts,
+  guides: state.guides,
+  name: state.presentationName,
+});
+
+const isSameSnapshot = (a: ReturnType<typeof persistedFields>, b: ReturnType<typeof persistedFields>) =>
+  a.id === b.id && a.slides === b.slides && a.slideSize === b.slideSize && a.theme === b.theme && a.assets === b.assets && a.fonts === b.fonts && a.guides === b.guides && a.name === b.name;
+
+/**
+ * Persist the presentation to IndexedDB whenever it changes, at most once per
+ * interval. `lastSaved`/`isDirty` are only updated once a write has completed
+ * and nothing changed while it was in flight. Returns a function that stops
+ * autosaving after flushing any pending write.
+ */
+export const startAutosave = (store: AppStore): (() => void) => {
+  if (!PresentationDB.isAvailable()) {
+    return () => {};
+  }
+
+  let lastPersisted = persistedFields(store.getState().presentation);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastWriteAt = 0;
+  let writing = false;
+
+  const write = async () => {
+    timer = null;
+    if (writing) {
+      schedule();
+      return;
+    }
+
+    const state = store.getState().presentation;
+    const snapshot = persistedFields(state);
+    if (isSameSnapshot(snapshot, lastPersisted) || snapshot.slides.length === 0) return;
+
+    writing = true;
+    lastWriteAt = Date.now();
+    try {
+      const savedAt = Date.now();
+      await PresentationDB.save({
+        id: snapshot.id,
+        name: snapshot.name,
+        slides: snapshot.slides,
+        slideSize: snapshot.slideSize,
+        theme: snapshot.theme,
+        // Images no slide uses any more are not persisted
+        assets: pickUsedAssets(snapshot.slides, snapshot.assets),
+        fonts: snapshot.fonts,
+        guides: snapshot.guides,
+        currentSlideId: state.currentSlideId,
+        savedAt,
+      });
+      lastPersisted = snapshot;
+      if (isSameSnapshot(persistedFields(store.getState().presentation), snapshot)) {
+        store.dispatch(markAsSaved(savedAt));
+      }
+    } catch (error) {
+      console.error('Autosave failed:', error);
+    } finally {
+      writing = false;
+    }
+  };
+
+  // Throttle: write immediately if the last write is old enough, otherwise at the end of the interval
+  const schedule = () => {
+    if (timer) return;
+    const wait = Math.max(0, AUTOSAVE_INTERVAL_MS - (Date.now() - lastWriteAt));
+    timer = setTimeout(write, wait);
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      void write();
+    }
+  };
+
+  const unsubscribe = store.subscribe(() => {
+    const snapshot = persistedFields(store.getState().presentation);
+    if (!isSameSnapshot(snapshot, lastPersisted)) {
+      schedule();
+    }
+  });
+
+  // Best effort: persist before the tab is hidden or closed
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('pagehide', flush);
+
+  return () => {
+    flush();
+    unsubscribe();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('pagehide', flush);
+  };
+};
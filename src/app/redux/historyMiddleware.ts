@@ -0,0 +1,122 @@
+import { Middleware, UnknownAction } from '@reduxjs/toolkit';
+import {
+  addSlide,
+  deleteSlide,
+  duplicateSlide,
+  reorderSlides,
+  updateSlide,
+  setSlideLayout,
+  setPresentationName,
+  setSlideSize,
+  setTheme,
+  removeUnusedAssets,
+  loadPresentation,
+  clearPresentation,
+  restoreSnapshot,
+  PresentationState,
+} from './presentationSlice';
+import { pushEntry, undo, redo, clearHistory, HistorySnapshot } from './historySlice';
+
+interface HistoryAwareState {
+  presentation: PresentationState;
+  history: { past: { before: HistorySnapshot }[]; future: { after: HistorySnapshot }[] };
+}
+
+const describeAction = (action: UnknownAction): { label: string; coalesceKey: string | null } | null => {
+  if (addSlide.match(action)) return { label: 'Add slide', coalesceKey: null };
+  if (deleteSlide.match(action)) return { label: 'Delete slide', coalesceKey: null };
+  if (duplicateSlide.match(action)) return { label: 'Duplicate slide', coalesceKey: null };
+  if (reorderSlides.match(action)) return { label: 'Reorder slides', coalesceKey: null };
+  if (setPresentationName.match(action)) return { label: 'Rename presentation', coalesceKey: 'presentation-name' };
+  if (setSlideSize.match(action)) return { label: 'Change slide size', coalesceKey: null };
+  if (setTheme.match(action)) return { label: 'Change theme', coalesceKey: null };
+  if (setSlideLayout.match(action)) return { label: 'Change layout', coalesceKey: null };
+  if (removeUnusedAssets.match(action)) return { label: 'Remove unused images', coalesceKey: null };
+  if (updateSlide.match(action)) {
+    const { id, canvasData, name, notes } = action.payload;
+    if (canvasData !== undefined) return { label: 'Edit slide', coalesceKey: `canvas:${id}` };
+    if (name !== undefined) return { label: 'Rename slide', coalesceKey: `rename:${id}` };
+    if (notes !== undefined) return { label: 'Edit notes', coalesceKey: `notes:${id}` };
+  }
+  return null;
+};
+
+const takeSnapshot = (state: PresentationState): HistorySnapshot => ({
+  slides: state.slides,
+  slideSize: state.slideSize,
+  theme: state.theme,
+  assets: state.assets,
+  currentSlideId: state.currentSlideId,
+  presentationName: state.presentationName,
+});
+
+// Thumbnail-only updates and re-saves of identical canvas data are not undo steps
+const hasContentChanged = (before: HistorySnapshot, after: HistorySnapshot): boolean =>
+  before.presentationName !== after.presentationName ||
+  before.slideSize !== after.slideSize ||
+  before.theme !== after.theme ||
+  before.assets !== after.assets ||
+  before.slides.length !== after.slides.length ||
+  before.slides.some((slide, index) => {
+    const other = after.slides[index];
+    return (
+      slide.id !== other.id ||
+      slide.canvasData !== other.canvasData ||
+      slide.name !== other.name ||
+      slide.notes !== other.notes ||
+      slide.layoutId !== other.layoutId
+    );
+  });
+
+// Slide objects are shared between snapshots, so only changed slides cost memory
+const estimateSize = (before: HistorySnapshot, after: HistorySnapshot): number => {
+  const beforeSet = new Set(before.slides);
+  const afterSet = new Set(after.slides);
+  const slideSize = (slide: HistorySnapshot['slides'][number]) =>
+    slide.canvasData.length + (slide.thumbnail?.length ?? 0) + (slide.notes?.length ?? 0);
+  return (
+    after.slides.filter(slide => !beforeSet.has(slide)).reduce((sum, slide) => sum + slideSize(slide), 0) +
+    before.slides.filter(slide => !afterSet.has(slide)).reduce((sum, slide) => sum + slideSize(slide), 0)
+  );
+};
+
+export const historyMiddleware: Middleware<{}, HistoryAwareState> = store => next => action => {
+  const typedAction = action as UnknownAction;
+
+  if (undo.match(typedAction)) {
+    const entry = store.getState().history.past.slice(-1)[0];
+    if (entry) store.dispatch(restoreSnapshot(entry.before));
+    return next(action);
+  }
+
+  if (redo.match(typedAction)) {
+    const entry = store.getState().history.future.slice(-1)[0];
+    if (entry) store.dispatch(restoreSnapshot(entry.after));
+    return next(action);
+  }
+
+  const description = describeAction(typedAction);
+  const before = takeSnapshot(store.getState().presentation);
+  const result = next(action);
+
+  if (loadPresentation.match(typedAction) || clearPresentation.match(typedAction)) {
+    store.dispatch(clearHistory());
+    return result;
+  }
+
+  // Creating the first slide of an empty deck is setup, not an undo step
+  if (description && before.slides.length > 0) {
+    const after = takeSnapshot(store.getState().presentation);
+    if (hasContentChanged(before, after)) {
+      store.dispatch(pushEntry({
+        ...description,
+        before,
+        after,
+        size: estimateSize(before, after),
+        timestamp: Date.now(),
+      }));
+    }
+  }
+
+  return result;
+};
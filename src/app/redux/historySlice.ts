@@ -0,0 +1,96 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { Slide, SlideSize } from './presentationSlice';
+import { PresentationTheme } from '../utils/themes';
+import { AssetTable } from '../utils/assets';
+
+export interface HistorySnapshot {
+  slides: Slide[];
+  slideSize: SlideSize;
+  theme: PresentationTheme;
+  assets: AssetTable;
+  currentSlideId: string | null;
+  presentationName: string;
+}
+
+export interface HistoryEntry {
+  label: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+  coalesceKey: string | null; // Consecutive entries with the same key are merged
+  size: number; // Approximate bytes retained by this entry
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_BYTES = 32 * 1024 * 1024;
+export const COALESCE_WINDOW_MS = 1000;
+
+const initialState: HistoryState = {
+  past: [],
+  future: [],
+};
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {
+    pushEntry: (state, action: PayloadAction<HistoryEntry>) => {
+      const entry = action.payload;
+      const previous = state.past[state.past.length - 1];
+
+      if (
+        previous &&
+        entry.coalesceKey &&
+        previous.coalesceKey === entry.coalesceKey &&
+        entry.timestamp - previous.timestamp <= COALESCE_WINDOW_MS
+      ) {
+        // Merge into the previous step, keeping its original "before"
+        previous.after = entry.after;
+        previous.size = Math.max(previous.size, entry.size);
+        previous.timestamp = entry.timestamp;
+      } else {
+        state.past.push(entry);
+      }
+      state.future = [];
+
+      // Drop the oldest steps once either bound is exceeded
+      let totalSize = state.past.reduce((sum, item) => sum + item.size, 0);
+      while (state.past.length > 1 && (state.past.length > MAX_HISTORY_ENTRIES || totalSize > MAX_HISTORY_BYTES)) {
+        totalSize -= state.past.shift()!.size;
+      }
+    },
+
+    undo: (state) => {
+      const entry = state.past.pop();
+      if (entry) {
+        state.future.push(entry);
+      }
+    },
+
+    redo: (state) => {
+      const entry = state.future.pop();
+      if (entry) {
+        state.past.push(entry);
+      }
+    },
+
+    clearHistory: (state) => {
+      state.past = [];
+      state.future = [];
+    },
+  },
+});
+
+export const {
+  pushEntry,
+  undo,
+  redo,
+  clearHistory,
+} = historySlice.actions;
+
+export default historySlice.reducer;
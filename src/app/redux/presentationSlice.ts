@@ -1,19 +1,44 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { DEFAULT_SLIDE_SIZE, SlideSizeFit, fitCanvasDataToSize } from '../utils/slideSize';
+import {
+  DEFAULT_FIRST_SLIDE_LAYOUT,
+  DEFAULT_SLIDE_LAYOUT,
+  createLayoutCanvasData,
+  applyLayoutToCanvasData,
+} from '../utils/layouts';
+import { DEFAULT_THEME, PresentationTheme, applyThemeToCanvasData } from '../utils/themes';
+import { AssetTable, PresentationAsset, findUsedAssetIds } from '../utils/assets';
+import { EmbeddedFont } from '../utils/fonts';
+import { DEFAULT_GUIDE_SETTINGS, GridSettings, Guide, GuideSettings, fitGuidesToSize } from '../utils/guides';
 
 export interface Slide {
   id: string;
   name: string;
   canvasData: string; // JSON string of Fabric.js canvas
   thumbnail?: string; // Base64 thumbnail
+  notes?: string; // Speaker notes, shown in the presenter view
+  layoutId?: string; // Absent on slides from older files and PowerPoint imports
   createdAt: number;
   updatedAt: number;
 }
 
+// Logical slide size in px; the editor and slideshow zoom it to fit the screen
+export interface SlideSize {
+  width: number;
+  height: number;
+}
+
 export interface PresentationState {
+  presentationId: string; // Key of the presentation in local (IndexedDB) storage
   slides: Slide[];
+  slideSize: SlideSize;
+  theme: PresentationTheme;
+  assets: AssetTable; // Embedded images, referenced from slides by id
+  fonts: EmbeddedFont[]; // Font files carried with the presentation
+  guides: GuideSettings; // Grid and ruler guides for laying out slides
   currentSlideId: string | null;
   currentSlideIndex: number;
-  selectedTool: 'select' | 'text' | 'rectangle' | 'circle' | 'line' | 'image';
+  selectedTool: 'select' | 'text' | 'rectangle' | 'circle' | 'line' | 'draw' | 'shape' | 'connector' | 'table' | 'image';
   isLoading: boolean;
   error: string | null;
   presentationName: string;
@@ -21,8 +46,17 @@ export interface PresentationState {
   isDirty: boolean; // Track if presentation has unsaved changes
 }
 
+const generatePresentationId = () =>
+  `presentation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
 const initialState: PresentationState = {
+  presentationId: generatePresentationId(),
   slides: [],
+  slideSize: DEFAULT_SLIDE_SIZE,
+  theme: DEFAULT_THEME,
+  assets: {},
+  fonts: [],
+  guides: DEFAULT_GUIDE_SETTINGS,
   currentSlideId: null,
   currentSlideIndex: -1,
   selectedTool: 'select',
@@ -37,12 +71,15 @@ const presentationSlice = createSlice({
   name: 'presentation',
   initialState,
   reducers: {
-    addSlide: (state, action: PayloadAction<{ name?: string }>) => {
+    addSlide: (state, action: PayloadAction<{ name?: string; layoutId?: string }>) => {
       const timestamp = Date.now();
+      const layoutId = action.payload.layoutId
+        ?? (state.slides.length === 0 ? DEFAULT_FIRST_SLIDE_LAYOUT : DEFAULT_SLIDE_LAYOUT);
       const newSlide: Slide = {
         id: `slide-${timestamp}-${Math.random().toString(36).substr(2, 9)}`,
         name: action.payload.name || `Slide ${state.slides.length + 1}`,
-        canvasData: JSON.stringify({ objects: [], background: '#ffffff' }),
+        canvasData: createLayoutCanvasData(layoutId, state.slideSize, state.theme),
+        layoutId,
         createdAt: timestamp,
         updatedAt: timestamp,
       };
@@ -69,6 +106,8 @@ const presentationSlice = createSlice({
             state.currentSlideId = null;
           }
         }
+        state.currentSlideIndex = state.slides.findIndex(slide => slide.id === state.currentSlideId);
+        state.isDirty = true;
       }
     },
 
@@ -80,7 +119,7 @@ const presentationSlice = createSlice({
       }
     },
 
-    updateSlide: (state, action: PayloadAction<{ id: string; canvasData?: string; name?: string; thumbnail?: string }>) => {
+    updateSlide: (state, action: PayloadAction<{ id: string; canvasData?: string; name?: string; notes?: string; thumbnail?: string }>) => {
       const slide = state.slides.find(slide => slide.id === action.payload.id);
       if (slide) {
         if (action.payload.canvasData !== undefined) {
@@ -91,6 +130,10 @@ const presentationSlice = createSlice({
           slide.name = action.payload.name;
           state.isDirty = true;
         }
+        if (action.payload.notes !== undefined) {
+          slide.notes = action.payload.notes;
+          state.isDirty = true;
+        }
         if (action.payload.thumbnail !== undefined) {
           slide.thumbnail = action.payload.thumbnail;
         }
@@ -98,6 +141,21 @@ const presentationSlice = createSlice({
       }
     },
 
+    setSlideLayout: (state, action: PayloadAction<{ id: string; layoutId: string }>) => {
+      const slide = state.slides.find(slide => slide.id === action.payload.id);
+      if (!slide || slide.layoutId === action.payload.layoutId) return;
+      try {
+        slide.canvasData = applyLayoutToCanvasData(slide.canvasData, action.payload.layoutId, state.slideSize, state.theme);
+      } catch (error) {
+        console.error(`Error applying layout to slide ${slide.id}:`, error);
+        return;
+      }
+      slide.layoutId = action.payload.layoutId;
+      slide.thumbnail = undefined;
+      slide.updatedAt = Date.now();
+      state.isDirty = true;
+    },
+
     duplicateSlide: (state, action: PayloadAction<string>) => {
       const originalSlide = state.slides.find(slide => slide.id === action.payload);
       if (originalSlide) {
@@ -111,6 +169,8 @@ const presentationSlice = createSlice({
         };
         const originalIndex = state.slides.findIndex(slide => slide.id === action.payload);
         state.slides.splice(originalIndex + 1, 0, duplicatedSlide);
+        state.currentSlideIndex = state.slides.findIndex(slide => slide.id === state.currentSlideId);
+        state.isDirty = true;
       }
     },
 
@@ -120,6 +180,8 @@ const presentationSlice = createSlice({
           toIndex >= 0 && toIndex < state.slides.length) {
         const [movedSlide] = state.slides.splice(fromIndex, 1);
         state.slides.splice(toIndex, 0, movedSlide);
+        state.currentSlideIndex = state.slides.findIndex(slide => slide.id === state.currentSlideId);
+        state.isDirty = true;
       }
     },
 
@@ -129,23 +191,137 @@ const presentationSlice = createSlice({
 
     setPresentationName: (state, action: PayloadAction<string>) => {
       state.presentationName = action.payload;
+      state.isDirty = true;
     },
 
-    loadPresentation: (state, action: PayloadAction<{ slides: Slide[]; name: string }>) => {
+    setSlideSize: (state, action: PayloadAction<{ size: SlideSize; fit: SlideSizeFit }>) => {
+      const { size, fit } = action.payload;
+      if (size.width === state.slideSize.width && size.height === state.slideSize.height) return;
+      const previousSize = state.slideSize;
+      state.slides.forEach(slide => {
+        try {
+          // The theme background is laid out for the slide size, so it is rebuilt too
+          slide.canvasData = applyThemeToCanvasData(
+            fitCanvasDataToSize(slide.canvasData, previousSize, size, fit),
+            state.theme,
+            size
+          );
+        } catch (error) {
+          console.error(`Error resizing slide ${slide.id}:`, error);
+        }
+        // Thumbnails have the old aspect ratio and are regenerated by the slide list
+        slide.thumbnail = undefined;
+        slide.updatedAt = Date.now();
+      });
+      state.guides.lines = fitGuidesToSize(state.guides.lines, previousSize, size, fit);
+      state.slideSize = size;
+      state.isDirty = true;
+    },
+
+    setTheme: (state, action: PayloadAction<PresentationTheme>) => {
+      const theme = action.payload;
+      state.slides.forEach(slide => {
+        try {
+          slide.canvasData = applyThemeToCanvasData(slide.canvasData, theme, state.slideSize);
+        } catch (error) {
+          console.error(`Error applying theme to slide ${slide.id}:`, error);
+        }
+        slide.thumbnail = undefined;
+        slide.updatedAt = Date.now();
+      });
+      state.theme = theme;
+      state.isDirty = true;
+    },
+
+    // Assets are content-addressed, so adding a known image is a no-op
+    addAsset: (state, action: PayloadAction<PresentationAsset>) => {
+      const asset = action.payload;
+      if (!state.assets[asset.id]) {
+        state.assets[asset.id] = asset;
+      }
+    },
+
+    removeUnusedAssets: (state) => {
+      const used = findUsedAssetIds(state.slides);
+      if (state.theme.background.type === 'image') used.add(state.theme.background.assetId);
+      const unused = Object.keys(state.assets).filter(id => !used.has(id));
+      if (unused.length === 0) return;
+      unused.forEach(id => {
+        delete state.assets[id];
+      });
+      state.isDirty = true;
+    },
+
+    // A font with the same family, weight and style is replaced
+    addEmbeddedFont: (state, action: PayloadAction<EmbeddedFont>) => {
+      const font = action.payload;
+      state.fonts = [
+        ...state.fonts.filter(f => f.family !== font.family || f.weight !== font.weight || f.style !== font.style),
+        font,
+      ];
+      state.isDirty = true;
+    },
+
+    // Layout aids are not part of the slides, so they are not undo steps
+    setGridSettings: (state, action: PayloadAction<Partial<GridSettings>>) => {
+      state.guides.grid = { ...state.guides.grid, ...action.payload };
+      state.isDirty = true;
+    },
+
+    addGuide: (state, action: PayloadAction<Guide>) => {
+      state.guides.lines.push(action.payload);
+      state.isDirty = true;
+    },
+
+    moveGuide: (state, action: PayloadAction<{ id: string; position: number }>) => {
+      const guide = state.guides.lines.find(line => line.id === action.payload.id);
+      if (!guide || guide.position === action.payload.position) return;
+      guide.position = action.payload.position;
+      state.isDirty = true;
+    },
+
+    removeGuide: (state, action: PayloadAction<string>) => {
+      state.guides.lines = state.guides.lines.filter(line => line.id !== action.payload);
+      state.isDirty = true;
+    },
+
+    clearGuides: (state) => {
+      if (state.guides.lines.length === 0) return;
+      state.guides.lines = [];
+      state.isDirty = true;
+    },
+
+    loadPresentation: (state, action: PayloadAction<{ slides: Slide[]; name: string; slideSize?: SlideSize; theme?: PresentationTheme; assets?: AssetTable; fonts?: EmbeddedFont[]; guides?: GuideSettings; id?: string; savedAt?: number }>) => {
+      // Restored sessions keep their id; loaded files start a new local copy
+      state.presentationId = action.payload.id ?? generatePresentationId();
       state.slides = action.payload.slides;
+      // Files from before page setup existed use the original fixed size
+      state.slideSize = action.payload.slideSize ?? DEFAULT_SLIDE_SIZE;
+      state.theme = action.payload.theme ?? DEFAULT_THEME;
+      state.assets = action.payload.assets ?? {};
+      state.fonts = action.payload.fonts ?? [];
+      state.guides = action.payload.guides ?? DEFAULT_GUIDE_SETTINGS;
       state.presentationName = action.payload.name;
       state.currentSlideId = action.payload.slides.length > 0 ? action.payload.slides[0].id : null;
       state.currentSlideIndex = action.payload.slides.length > 0 ? 0 : -1;
-      state.lastSaved = Date.now();
+      state.lastSaved = action.payload.savedAt ?? Date.now();
       state.isDirty = false;
       state.error = null;
     },
 
     clearPresentation: (state) => {
+      state.presentationId = generatePresentationId();
       state.slides = [];
+      state.slideSize = DEFAULT_SLIDE_SIZE;
+      state.theme = DEFAULT_THEME;
+      state.assets = {};
+      state.fonts = [];
+      state.guides = DEFAULT_GUIDE_SETTINGS;
       state.currentSlideId = null;
+      state.currentSlideIndex = -1;
       state.presentationName = 'Untitled Presentation';
       state.lastSaved = null;
+      state.isDirty = false;
       state.error = null;
     },
 
@@ -157,8 +333,23 @@ const presentationSlice = createSlice({
       state.error = action.payload;
     },
 
-    markAsSaved: (state) => {
-      state.lastSaved = Date.now();
+    restoreSnapshot: (state, action: PayloadAction<{ slides: Slide[]; slideSize: SlideSize; theme: PresentationTheme; assets: AssetTable; currentSlideId: string | null; presentationName: string }>) => {
+      const { slides, slideSize, theme, assets, currentSlideId, presentationName } = action.payload;
+      state.slides = slides;
+      state.slideSize = slideSize;
+      state.theme = theme;
+      state.assets = assets;
+      state.presentationName = presentationName;
+      // Keep the restored slide in view so the change is visible
+      const slideIndex = slides.findIndex(slide => slide.id === currentSlideId);
+      const index = slideIndex !== -1 ? slideIndex : Math.min(Math.max(state.currentSlideIndex, 0), slides.length - 1);
+      state.currentSlideId = slides[index]?.id ?? null;
+      state.currentSlideIndex = slides[index] ? index : -1;
+      state.isDirty = true;
+    },
+
+    markAsSaved: (state, action: PayloadAction<number | undefined>) => {
+      state.lastSaved = action.payload ?? Date.now();
       state.isDirty = false;
     },
   },
@@ -169,14 +360,26 @@ export const {
   deleteSlide,
   setCurrentSlide,
   updateSlide,
+  setSlideLayout,
   duplicateSlide,
   reorderSlides,
   setSelectedTool,
   setPresentationName,
+  setSlideSize,
+  setTheme,
+  addAsset,
+  removeUnusedAssets,
+  addEmbeddedFont,
+  setGridSettings,
+  addGuide,
+  moveGuide,
+  removeGuide,
+  clearGuides,
   loadPresentation,
   clearPresentation,
   setLoading,
   setError,
+  restoreSnapshot,
   markAsSaved,
 } = presentationSlice.actions;
 
@@ -1,9 +1,12 @@
 import { configureStore } from '@reduxjs/toolkit';
 import presentationReducer from './presentationSlice';
+import historyReducer from './historySlice';
+import { historyMiddleware } from './historyMiddleware';
 
 export const store = configureStore({
   reducer: {
     presentation: presentationReducer,
+    history: historyReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -13,10 +16,15 @@ export const store = configureStore({
         // Ignore these field paths in all actions
         ignoredActionsPaths: ['meta.arg', 'payload.timestamp'],
         // Ignore these paths in the state
-        ignoredPaths: ['presentation.slides'],
+        ignoredPaths: ['presentation.slides', 'history'],
       },
-    }),
+      immutableCheck: {
+        // History snapshots share slide objects with the presentation state
+        ignoredPaths: ['history'],
+      },
+    }).concat(historyMiddleware),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
+export type AppStore = typeof store;
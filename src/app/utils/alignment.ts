@@ -0,0 +1,82 @@
+import * as fabric from 'fabric';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeDirection = 'horizontal' | 'vertical';
+
+export const ALIGN_MODES: { mode: AlignMode; name: string }[] = [
+  { mode: 'left', name: 'Align left' },
+  { mode: 'center', name: 'Align center' },
+  { mode: 'right', name: 'Align right' },
+  { mode: 'top', name: 'Align top' },
+  { mode: 'middle', name: 'Align middle' },
+  { mode: 'bottom', name: 'Align bottom' },
+];
+
+const moveBy = (obj: fabric.FabricObject, dx: number, dy: number) => {
+  obj.set({ left: obj.left + dx, top: obj.top + dy });
+  obj.setCoords();
+};
+
+/**
+ * Line up objects along an edge or center of their combined bounds. Objects
+ * must be in slide coordinates, i.e. not inside an active selection.
+ */
+export const alignObjects = (objects: fabric.FabricObject[], mode: AlignMode) => {
+  if (objects.length < 2) return;
+  const rects = objects.map(obj => obj.getBoundingRect());
+  const left = Math.min(...rects.map(r => r.left));
+  const top = Math.min(...rects.map(r => r.top));
+  const right = Math.max(...rects.map(r => r.left + r.width));
+  const bottom = Math.max(...rects.map(r => r.top + r.height));
+
+  objects.forEach((obj, index) => {
+    const rect = rects[index];
+    switch (mode) {
+      case 'left':
+        moveBy(obj, left - rect.left, 0);
+        break;
+      case 'center':
+        moveBy(obj, (left + right) / 2 - (rect.left + rect.width / 2), 0);
+        break;
+      case 'right':
+        moveBy(obj, right - (rect.left + rect.width), 0);
+        break;
+      case 'top':
+        moveBy(obj, 0, top - rect.top);
+        break;
+      case 'middle':
+        moveBy(obj, 0, (top + bottom) / 2 - (rect.top + rect.height / 2));
+        break;
+      case 'bottom':
+        moveBy(obj, 0, bottom - (rect.top + rect.height));
+        break;
+    }
+  });
+};
+
+/**
+ * Space objects evenly between the first and last one, so the gaps between
+ * neighbours are equal. Needs at least three objects.
+ */
+export const distributeObjects = (objects: fabric.FabricObject[], direction: DistributeDirection) => {
+  if (objects.length < 3) return;
+  const horizontal = direction === 'horizontal';
+  const items = objects
+    .map(obj => {
+      const rect = obj.getBoundingRect();
+      return { obj, start: horizontal ? rect.left : rect.top, size: horizontal ? rect.width : rect.height };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const totalSize = items.reduce((sum, item) => sum + item.size, 0);
+  const gap = (last.start + last.size - first.start - totalSize) / (items.length - 1);
+
+  let position = first.start;
+  items.forEach(item => {
+    const offset = position - item.start;
+    moveBy(item.obj, horizontal ? offset : 0, horizontal ? 0 : offset);
+    position += item.size + gap;
+  });
+};
@@ -0,0 +1,206 @@
+import type { Slide } from '../redux/presentationSlice';
+import type { SerializedCanvas, SerializedObject } from './slideRenderer';
+
+/**
+ * An embedded image, stored once per presentation and referenced from Fabric
+ * image objects by id. The id is the SHA-256 of the image bytes, so adding the
+ * same image twice yields the same asset.
+ */
+export interface PresentationAsset {
+  id: string;
+  src: string; // Data URL
+  mimeType: string;
+  size: number; // Bytes
+  name?: string;
+}
+
+export type AssetTable = Record<string, PresentationAsset>;
+
+// Custom Fabric object property that points an image at its asset
+export const ASSET_PROPERTIES = ['assetId'] as const;
+
+const DATA_URL_PATTERN = /^data:([^;,]*)(;base64)?,([\s\S]*)$/;
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } | null => {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) return null;
+  const [, mimeType, base64, payload] = match;
+  try {
+    if (base64) {
+      const binary = atob(payload);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return { bytes, mimeType: mimeType || 'application/octet-stream' };
+    }
+    return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mimeType: mimeType || 'text/plain' };
+  } catch {
+    return null;
+  }
+};
+
+const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Build the asset for an image data URL; returns null for anything that is not a data URL */
+export const createAssetFromDataUrl = async (dataUrl: string, name?: string): Promise<PresentationAsset | null> => {
+  const decoded = dataUrlToBytes(dataUrl);
+  if (!decoded) return null;
+  return {
+    id: await hashBytes(decoded.bytes),
+    src: dataUrl,
+    mimeType: decoded.mimeType,
+    size: decoded.bytes.length,
+    ...(name && { name }),
+  };
+};
+
+const isImageObject = (obj: SerializedObject): boolean => typeof obj?.type === 'string' && obj.type.toLowerCase() === 'image';
+
+const mapObjects = (objects: SerializedObject[], map: (obj: SerializedObject) => SerializedObject): SerializedObject[] =>
+  objects.map(obj => {
+    const mapped = map(obj);
+    return Array.isArray(mapped.objects) ? { ...mapped, objects: mapObjects(mapped.objects, map) } : mapped;
+  });
+
+const forEachObject = (objects: SerializedObject[], visit: (obj: SerializedObject) => void) => {
+  objects.forEach(obj => {
+    visit(obj);
+    if (Array.isArray(obj.objects)) forEachObject(obj.objects, visit);
+  });
+};
+
+// A slide's images include its background image, such as a theme's picture
+const mapCanvasImages = (data: SerializedCanvas, map: (obj: SerializedObject) => SerializedObject): SerializedCanvas => ({
+  ...data,
+  objects: mapObjects(data.objects ?? [], map),
+  ...(data.backgroundImage && { backgroundImage: map(data.backgroundImage) }),
+});
+
+const canvasObjects = (data: SerializedCanvas): SerializedObject[] =>
+  data.backgroundImage ? [...(data.objects ?? []), data.backgroundImage] : data.objects ?? [];
+
+/**
+ * Assets for image objects among serialized Fabric objects that are missing
+ * from the asset table, rebuilt from their image data. Objects copied from
+ * another presentation bring their images along this way.
+ */
+export const collectMissingAssets = async (objects: SerializedObject[], assets: AssetTable): Promise<PresentationAsset[]> => {
+  const sources: string[] = [];
+  forEachObject(objects, obj => {
+    if (isImageObject(obj) && obj.assetId && !assets[obj.assetId] && typeof obj.src === 'string') sources.push(obj.src);
+  });
+  const created = await Promise.all(sources.map(src => createAssetFromDataUrl(src)));
+  return created.filter((asset): asset is PresentationAsset => asset !== null);
+};
+
+// Canvas data without asset references never needs parsing
+const referencesAssets = (canvasData: string) => canvasData.includes('"assetId"');
+
+/** Fill in the image data of asset references so Fabric can load the slide */
+export const resolveCanvasAssets = (canvasData: string, assets: AssetTable): string => {
+  if (!referencesAssets(canvasData)) return canvasData;
+  return JSON.stringify(mapCanvasImages(JSON.parse(canvasData), obj => {
+    if (!obj.assetId) return obj;
+    const asset = assets[obj.assetId];
+    if (!asset) {
+      console.warn(`Image asset ${obj.assetId} is missing`);
+      return obj;
+    }
+    return { ...obj, src: asset.src };
+  }));
+};
+
+/** Drop the image data of asset references; the asset table holds it once */
+export const stripCanvasAssets = (canvasData: string): string => {
+  if (!referencesAssets(canvasData)) return canvasData;
+  return JSON.stringify(mapCanvasImages(JSON.parse(canvasData), obj => (obj.assetId ? { ...obj, src: '' } : obj)));
+};
+
+/** Slides with their image data filled in, for rendering and exports */
+export const resolveSlideAssets = (slides: Slide[], assets: AssetTable): Slide[] =>
+  slides.map(slide => {
+    const canvasData = resolveCanvasAssets(slide.canvasData, assets);
+    return canvasData === slide.canvasData ? slide : { ...slide, canvasData };
+  });
+
+export const findUsedAssetIds = (slides: Slide[]): Set<string> => {
+  const used = new Set<string>();
+  slides.forEach(slide => {
+    if (!referencesAssets(slide.canvasData)) return;
+    try {
+      forEachObject(canvasObjects(JSON.parse(slide.canvasData)), obj => {
+        if (obj.assetId) used.add(obj.assetId);
+      });
+    } catch {
+      // Unreadable slides reference nothing
+    }
+  });
+  return used;
+};
+
+/** The assets still referenced by a slide; unused ones are garbage */
+export const pickUsedAssets = (slides: Slide[], assets: AssetTable): AssetTable => {
+  const used = findUsedAssetIds(slides);
+  const picked: AssetTable = {};
+  used.forEach(id => {
+    if (assets[id]) picked[id] = assets[id];
+  });
+  return picked;
+};
+
+/**
+ * Move images embedded directly in slides into the asset table, so repeated
+ * images are stored once. Slides that cannot be read are returned unchanged.
+ */
+export const internInlineImages = async <T extends { canvasData: unknown }>(
+  slides: T[],
+  assets: AssetTable = {}
+): Promise<{ slides: T[]; assets: AssetTable }> => {
+  const table: AssetTable = { ...assets };
+
+  const internObjects = async (objects: SerializedObject[]): Promise<SerializedObject[]> =>
+    Promise.all(objects.map(async obj => {
+      let interned: SerializedObject = obj;
+      if (isImageObject(obj) && !obj.assetId && typeof obj.src === 'string') {
+        const asset = await createAssetFromDataUrl(obj.src);
+        if (asset) {
+          table[asset.id] = table[asset.id] ?? asset;
+          interned = { ...obj, assetId: asset.id, src: '' };
+        }
+      }
+      if (Array.isArray(interned.objects)) {
+        interned = { ...interned, objects: await internObjects(interned.objects) };
+      }
+      return interned;
+    }));
+
+  const internedSlides = await Promise.all(slides.map(async slide => {
+    if (typeof slide.canvasData !== 'string' || !slide.canvasData.includes('data:')) return slide;
+    try {
+      const data: SerializedCanvas = JSON.parse(slide.canvasData);
+      data.objects = await internObjects(data.objects ?? []);
+      if (data.backgroundImage) [data.backgroundImage] = await internObjects([data.backgroundImage]);
+      return { ...slide, canvasData: JSON.stringify(data) };
+    } catch {
+      return slide;
+    }
+  }));
+
+  return { slides: internedSlides, assets: table };
+};
+
+export const isValidAsset = (asset: unknown, id: string): asset is PresentationAsset => {
+  if (typeof asset !== 'object' || asset === null) return false;
+  const { id: assetId, src, mimeType, size, name } = asset as Record<string, unknown>;
+  return (
+    assetId === id &&
+    typeof src === 'string' &&
+    typeof mimeType === 'string' &&
+    typeof size === 'number' &&
+    (name === undefined || typeof name === 'string')
+  );
+};
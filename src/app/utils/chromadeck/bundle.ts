@@ -0,0 +1,257 @@
+import PizZip from 'pizzip';
+import type { Slide } from '../../redux/presentationSlice';
+import type { PresentationData } from '../fileHandlers';
+import type { AssetTable } from '../assets';
+import { FONT_EXTENSIONS } from '../fonts';
+import type { PresentationTheme } from '../themes';
+
+export const CHROMADECK_EXTENSION = '.chromadeck';
+
+const FORMAT_ID = 'chromadeck';
+const MANIFEST_PATH = 'manifest.json';
+// Stands in for a data URL in a slide file, followed by the path of the media file that holds it
+const MEDIA_REFERENCE = 'chromadeck-media:';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+interface ManifestMedia {
+  path: string;
+  mimeType: string;
+}
+
+interface ManifestSlide {
+  path: string;
+  thumbnail?: ManifestMedia;
+  media?: ManifestMedia[]; // Images the slide file refers to instead of holding them
+}
+
+interface ManifestAsset {
+  id: string;
+  path: string;
+  mimeType: string;
+  size: number;
+  name?: string;
+}
+
+interface ManifestFont {
+  family: string;
+  path: string;
+  mimeType: string;
+  weight?: string;
+  style?: string;
+}
+
+/**
+ * `manifest.json` at the root of a bundle. Everything else is referenced from
+ * here by path: one JSON file per slide, and images, thumbnails and fonts as
+ * binary files.
+ */
+interface BundleManifest {
+  format: typeof FORMAT_ID;
+  version: string; // Presentation data version, upgraded like JSON files on load
+  name: string;
+  slideSize?: unknown;
+  theme?: PresentationTheme; // An image background is one of the assets
+  guides?: unknown;
+  createdAt: number;
+  updatedAt: number;
+  slides: ManifestSlide[];
+  assets: ManifestAsset[];
+  fonts: ManifestFont[];
+}
+
+// Slide files hold the canvas as JSON rather than as an escaped string
+type SlideFile = Omit<Slide, 'canvasData' | 'thumbnail'> & { canvas: unknown };
+
+const DATA_URL_PATTERN = /^data:([^;,]*)(;base64)?,([\s\S]*)$/;
+
+const splitDataUrl = (dataUrl: string): { mimeType: string; data: string; base64: boolean } | null => {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) return null;
+  const [, mimeType, base64, payload] = match;
+  return base64
+    ? { mimeType, data: payload, base64: true }
+    : { mimeType, data: decodeURIComponent(payload), base64: false };
+};
+
+// Apply `replace` to every string in parsed JSON
+const mapStrings = (value: unknown, replace: (text: string) => string): unknown => {
+  if (typeof value === 'string') return replace(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, replace));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, replace)]));
+  }
+  return value;
+};
+
+const extensionFor = (mimeType: string) => IMAGE_EXTENSIONS[mimeType] ?? FONT_EXTENSIONS[mimeType] ?? 'bin';
+
+export class ChromadeckBundle {
+  /**
+   * Pack a presentation into a zip. Media is stored as raw bytes without
+   * recompression, so large image-heavy decks stay fast to save and load.
+   */
+  static generate(data: PresentationData): Blob {
+    const zip = new PizZip();
+
+    // Binary media: already compressed formats gain nothing from DEFLATE
+    const addMedia = (basePath: string, dataUrl: string): ManifestMedia | null => {
+      const parts = splitDataUrl(dataUrl);
+      if (!parts) return null;
+      const path = `${basePath}.${extensionFor(parts.mimeType)}`;
+      zip.file(path, parts.data, { base64: parts.base64, binary: parts.base64, compression: 'STORE' });
+      return { path, mimeType: parts.mimeType };
+    };
+
+    const slides = data.slides.map((slide, index) => {
+      const number = String(index + 1).padStart(3, '0');
+      const { canvasData, thumbnail, ...meta } = slide;
+      // Images still embedded in the canvas, such as ones without an asset, become media files too
+      const media: ManifestMedia[] = [];
+      const canvas = mapStrings(JSON.parse(canvasData), text => {
+        const added = text.startsWith('data:') ? addMedia(`media/slide-${number}-${media.length + 1}`, text) : null;
+        if (!added) return text;
+        media.push(added);
+        return `${MEDIA_REFERENCE}${added.path}`;
+      });
+      const slideFile: SlideFile = { ...meta, canvas };
+      const path = `slides/${number}.json`;
+      zip.file(path, JSON.stringify(slideFile));
+      const thumbnailMedia = thumbnail ? addMedia(`thumbnails/${number}`, thumbnail) : null;
+      return { path, ...(thumbnailMedia && { thumbnail: thumbnailMedia }), ...(media.length > 0 && { media }) };
+    });
+
+    const assets: ManifestAsset[] = [];
+    Object.values(data.assets ?? {}).forEach(asset => {
+      const media = addMedia(`media/${asset.id}`, asset.src);
+      if (media) {
+        assets.push({ id: asset.id, path: media.path, mimeType: asset.mimeType, size: asset.size, ...(asset.name && { name: asset.name }) });
+      }
+    });
+
+    const fonts: ManifestFont[] = [];
+    (data.fonts ?? []).forEach((font, index) => {
+      const media = addMedia(`fonts/${String(index + 1).padStart(2, '0')}`, font.src);
+      if (media) {
+        fonts.push({ family: font.family, path: media.path, mimeType: media.mimeType, weight: font.weight, style: font.style });
+      }
+    });
+
+    const manifest: BundleManifest = {
+      format: FORMAT_ID,
+      version: data.version,
+      name: data.name,
+      slideSize: data.slideSize,
+      theme: data.theme,
+      guides: data.guides,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+      slides,
+      assets,
+      fonts,
+    };
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    return zip.generate({
+      type: 'blob',
+      mimeType: 'application/zip',
+      compression: 'DEFLATE',
+    });
+  }
+
+  /**
+   * Unpack a bundle into presentation data. The result has the same shape as
+   * a parsed `.json` file and still needs migrating and validating.
+   */
+  static parse(buffer: ArrayBuffer): PresentationData {
+    let zip: PizZip;
+    try {
+      zip = new PizZip(buffer);
+    } catch {
+      throw new Error('The file is not a valid .chromadeck bundle');
+    }
+
+    const readText = (path: string): string => {
+      const file = zip.file(path);
+      if (!file) throw new Error(`The bundle is missing "${path}"`);
+      return file.asText();
+    };
+
+    const readJSON = (path: string): unknown => {
+      try {
+        return JSON.parse(readText(path));
+      } catch (error) {
+        if (error instanceof SyntaxError) throw new Error(`"${path}" in the bundle is not valid JSON`);
+        throw error;
+      }
+    };
+
+    const readDataUrl = ({ path, mimeType }: ManifestMedia): string => {
+      const file = zip.file(path);
+      if (!file) throw new Error(`The bundle is missing "${path}"`);
+      return `data:${mimeType};base64,${btoa(file.asBinary())}`;
+    };
+
+    const manifest = readJSON(MANIFEST_PATH) as BundleManifest;
+    if (manifest?.format !== FORMAT_ID) {
+      throw new Error('The bundle manifest is not a .chromadeck manifest');
+    }
+    if (!Array.isArray(manifest.slides)) {
+      throw new Error('The bundle manifest has no slide list');
+    }
+
+    const slides = manifest.slides.map(entry => {
+      const { canvas, ...meta } = readJSON(entry.path) as SlideFile;
+      const media = new Map((entry.media ?? []).map(item => [item.path, item]));
+      const readMedia = (text: string) => {
+        if (!text.startsWith(MEDIA_REFERENCE)) return text;
+        const path = text.slice(MEDIA_REFERENCE.length);
+        const item = media.get(path);
+        if (!item) throw new Error(`"${entry.path}" refers to "${path}", which the manifest does not list`);
+        return readDataUrl(item);
+      };
+      return {
+        ...meta,
+        canvasData: canvas === undefined ? undefined : JSON.stringify(mapStrings(canvas, readMedia)),
+        ...(entry.thumbnail && { thumbnail: readDataUrl(entry.thumbnail) }),
+      } as Slide;
+    });
+
+    const assets: AssetTable = {};
+    (manifest.assets ?? []).forEach(entry => {
+      assets[entry.id] = {
+        id: entry.id,
+        src: readDataUrl(entry),
+        mimeType: entry.mimeType,
+        size: entry.size,
+        ...(entry.name && { name: entry.name }),
+      };
+    });
+
+    const fonts = (manifest.fonts ?? []).map(entry => ({
+      family: entry.family,
+      src: readDataUrl(entry),
+      ...(entry.weight && { weight: entry.weight }),
+      ...(entry.style && { style: entry.style }),
+    }));
+
+    return {
+      name: manifest.name,
+      slides,
+      slideSize: manifest.slideSize as PresentationData['slideSize'],
+      theme: manifest.theme,
+      assets,
+      fonts,
+      guides: manifest.guides as PresentationData['guides'],
+      version: manifest.version,
+      createdAt: manifest.createdAt,
+      updatedAt: manifest.updatedAt,
+    };
+  }
+}
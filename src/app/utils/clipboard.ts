@@ -0,0 +1,113 @@
+import * as fabric from 'fabric';
+import { detachPlaceholder } from './layouts';
+import { reassignObjectIds } from './connectors';
+import type { SerializedObject } from './slideRenderer';
+
+// Offset between repeated pastes on one slide, in slide pixels
+export const PASTE_OFFSET = 20;
+
+interface ClipboardContents {
+  id: string;
+  objects: SerializedObject[]; // Serialized Fabric objects in slide coordinates
+  sourceSlideId: string | null; // Slide the objects were copied from, null after a cut
+  pastes: Record<string, number>; // Pastes so far, by slide
+}
+
+// Shared by every slide, so objects can be pasted after switching slides
+let contents: ClipboardContents | null = null;
+// Set when something may have been copied since, in another app or a text field
+let superseded = false;
+
+// Tags the system clipboard copy of a selection, so pasting it brings back the objects
+const clipboardMarker = (id: string) => `presentation-objects:${id}`;
+
+/**
+ * Note that the system clipboard may have changed, e.g. because the window
+ * lost focus or text was copied from a field.
+ */
+export const markClipboardSuperseded = () => {
+  superseded = true;
+};
+
+/** True while pasting should bring back the copied objects without asking the system clipboard */
+export const hasClipboardObjects = (): boolean => contents !== null;
+
+export const hasCurrentClipboardObjects = (): boolean => contents !== null && !superseded;
+
+/**
+ * Whether a paste event should bring back the copied objects rather than the
+ * system clipboard's content: it does when the system clipboard holds our own
+ * copy, or when nothing else can have been copied since.
+ */
+export const shouldPasteObjects = (data: DataTransfer | null): boolean => {
+  if (!contents) return false;
+  return !superseded || !!data?.getData('text/html').includes(clipboardMarker(contents.id));
+};
+
+// Copies are plain objects; empty placeholders are layout hints and are left out
+const serializeObjects = (objects: fabric.FabricObject[]): SerializedObject[] =>
+  objects
+    .filter(obj => !obj.placeholderEmpty)
+    .map(obj => detachPlaceholder(obj.toObject()));
+
+/**
+ * Put objects on the clipboard. They must be in slide coordinates, i.e. not
+ * inside an active selection.
+ */
+export const copyObjects = (objects: fabric.FabricObject[], sourceSlideId: string | null) => {
+  contents = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    objects: serializeObjects(objects),
+    sourceSlideId,
+    pastes: {},
+  };
+  superseded = false;
+};
+
+export const getClipboardObjects = (): SerializedObject[] => contents?.objects ?? [];
+
+/**
+ * Recreate the clipboard's objects for a slide. The first paste onto the
+ * slide they were copied from is offset so the copy does not hide the
+ * original, and every further paste moves one step more.
+ */
+export const pasteObjects = async (slideId: string): Promise<fabric.FabricObject[]> => {
+  if (!contents) return [];
+  const pastes = contents.pastes[slideId] ?? 0;
+  contents.pastes[slideId] = pastes + 1;
+  const steps = pastes + (contents.sourceSlideId === slideId ? 1 : 0);
+  return enlivenWithOffset(contents.objects, steps * PASTE_OFFSET);
+};
+
+/** Copies of objects in slide coordinates, one paste step down and to the right */
+export const duplicateObjects = (objects: fabric.FabricObject[]): Promise<fabric.FabricObject[]> =>
+  enlivenWithOffset(serializeObjects(objects), PASTE_OFFSET);
+
+// Copies get ids of their own, so connectors on the slide stay attached to the originals
+const enlivenWithOffset = async (serialized: SerializedObject[], offset: number): Promise<fabric.FabricObject[]> => {
+  const objects = await fabric.util.enlivenObjects<fabric.FabricObject>(reassignObjectIds(serialized));
+  objects.forEach(obj => {
+    obj.set({ left: obj.left + offset, top: obj.top + offset });
+    obj.setCoords();
+  });
+  return objects;
+};
+
+/**
+ * Copy a rendering of the copied object (or active selection) to the system
+ * clipboard as PNG, where the browser allows writing images. An HTML version
+ * carries the marker that lets a later paste recognize it. The object is
+ * rendered right away, so it may be removed once this returns.
+ */
+export const writeObjectImageToSystemClipboard = async (obj: fabric.FabricObject) => {
+  if (!contents || typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) return;
+  try {
+    // Rendered at twice the slide resolution so it stays sharp when pasted elsewhere
+    const dataUrl = obj.toDataURL({ format: 'png', multiplier: 2 });
+    const png = await (await fetch(dataUrl)).blob();
+    const html = new Blob([`<img src="${dataUrl}" alt="${clipboardMarker(contents.id)}">`], { type: 'text/html' });
+    await navigator.clipboard.write([new ClipboardItem({ 'image/png': png, 'text/html': html })]);
+  } catch (error) {
+    console.warn('Could not copy the selection to the system clipboard:', error);
+  }
+};
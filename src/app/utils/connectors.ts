@@ -0,0 +1,346 @@
+import * as fabric from 'fabric';
+import { arrowheadPath, arrowheadSize } from './shapes';
+import { isGroup } from './layers';
+import type { SerializedObject } from './slideRenderer';
+
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved';
+
+export type ConnectorAnchor = 'top' | 'right' | 'bottom' | 'left' | 'center';
+
+// An end attached to an object, found by the object's `objectId`
+export interface ConnectorAttachment {
+  objectId: string;
+  anchor: ConnectorAnchor;
+}
+
+export interface ConnectorStyle {
+  routing: ConnectorRouting;
+  startArrow: boolean;
+  endArrow: boolean;
+}
+
+// Saved on the connector's path. Ends that are not attached stay where the path puts them.
+export interface ConnectorData extends ConnectorStyle {
+  start?: ConnectorAttachment;
+  end?: ConnectorAttachment;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export type ConnectorEnd = 'start' | 'end';
+
+// A connector end while drawing: a point, and the object anchor it is on if any
+export interface ConnectorEndpoint {
+  point: Point;
+  object?: fabric.FabricObject;
+  anchor?: ConnectorAnchor;
+}
+
+// Custom Fabric object properties: a stable id for objects connectors attach
+// to, and the attachments and style of connectors themselves
+export const CONNECTOR_PROPERTIES = ['objectId', 'connector'] as const;
+
+export const DEFAULT_CONNECTOR_STYLE: ConnectorStyle = { routing: 'elbow', startArrow: false, endArrow: true };
+
+export const CONNECTOR_ROUTINGS: { routing: ConnectorRouting; name: string }[] = [
+  { routing: 'straight', name: 'Straight' },
+  { routing: 'elbow', name: 'Elbow' },
+  { routing: 'curved', name: 'Curved' },
+];
+
+const ANCHORS: ConnectorAnchor[] = ['top', 'right', 'bottom', 'left', 'center'];
+
+// Anchor positions in the object's own box, from its center, as fractions of its size
+const ANCHOR_OFFSETS: Record<ConnectorAnchor, Point> = {
+  top: { x: 0, y: -0.5 },
+  right: { x: 0.5, y: 0 },
+  bottom: { x: 0, y: 0.5 },
+  left: { x: -0.5, y: 0 },
+  center: { x: 0, y: 0 },
+};
+
+// Pointer distance from an anchor, in screen pixels, within which a connector end attaches to it
+export const ANCHOR_SNAP_DISTANCE = 12;
+
+export const isConnector = (obj: fabric.FabricObject): obj is fabric.Path => !!obj.connector && obj instanceof fabric.Path;
+
+const newObjectId = () => `object-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+
+/** The object's `objectId`, given one first if it has none */
+export const ensureObjectId = (obj: fabric.FabricObject): string => {
+  if (!obj.objectId) obj.objectId = newObjectId();
+  return obj.objectId;
+};
+
+/** Where an anchor of an object is on the canvas, following its scale and rotation and any group it is in */
+export const getAnchorPoint = (obj: fabric.FabricObject, anchor: ConnectorAnchor): fabric.Point => {
+  const offset = ANCHOR_OFFSETS[anchor];
+  return fabric.util.transformPoint(new fabric.Point(offset.x * obj.width, offset.y * obj.height), obj.calcTransformMatrix());
+};
+
+// Objects a connector can attach to: anything but connectors, including objects
+// inside groups. Tables attach as a whole, since their cells are rebuilt on every edit.
+const attachableObjects = (objects: fabric.FabricObject[]): fabric.FabricObject[] =>
+  objects.flatMap(obj => {
+    if (isConnector(obj) || !obj.visible) return [];
+    return isGroup(obj) ? [obj, ...attachableObjects(obj.getObjects())] : [obj];
+  });
+
+const findObjectById = (canvas: fabric.Canvas, objectId: string): fabric.FabricObject | undefined =>
+  attachableObjects(canvas.getObjects()).find(obj => obj.objectId === objectId);
+
+/**
+ * The anchor closest to `point` within `distance` (in canvas units), for
+ * starting or ending a connector there.
+ */
+export const findNearestAnchor = (
+  canvas: fabric.Canvas,
+  point: Point,
+  distance: number
+): Required<ConnectorEndpoint> | null => {
+  let nearest: Required<ConnectorEndpoint> | null = null;
+  let nearestDistance = distance;
+  attachableObjects(canvas.getObjects()).forEach(object => {
+    ANCHORS.forEach(anchor => {
+      const anchorPoint = getAnchorPoint(object, anchor);
+      const anchorDistance = Math.hypot(anchorPoint.x - point.x, anchorPoint.y - point.y);
+      if (anchorDistance <= nearestDistance) {
+        nearest = { object, anchor, point: anchorPoint };
+        nearestDistance = anchorDistance;
+      }
+    });
+  });
+  return nearest;
+};
+
+/** Objects whose anchors should be shown near `point`: those whose bounds it is within `distance` of */
+export const findObjectsNear = (canvas: fabric.Canvas, point: Point, distance: number): fabric.FabricObject[] =>
+  attachableObjects(canvas.getObjects()).filter(obj => {
+    const bounds = obj.getBoundingRect();
+    return point.x >= bounds.left - distance && point.x <= bounds.left + bounds.width + distance &&
+      point.y >= bounds.top - distance && point.y <= bounds.top + bounds.height + distance;
+  });
+
+// Unit vector pointing out of an object at an anchor; the center has none
+const anchorDirection = (obj: fabric.FabricObject, anchor: ConnectorAnchor): Point | null => {
+  if (anchor === 'center') return null;
+  const center = obj.getCenterPoint();
+  const point = getAnchorPoint(obj, anchor);
+  const length = Math.hypot(point.x - center.x, point.y - center.y);
+  return length > 0 ? { x: (point.x - center.x) / length, y: (point.y - center.y) / length } : null;
+};
+
+// Free ends and center anchors leave along whichever axis points more towards the other end
+const towards = (from: Point, to: Point): Point =>
+  Math.abs(to.x - from.x) >= Math.abs(to.y - from.y)
+    ? { x: Math.sign(to.x - from.x) || 1, y: 0 }
+    : { x: 0, y: Math.sign(to.y - from.y) || 1 };
+
+const isHorizontal = (direction: Point) => Math.abs(direction.x) >= Math.abs(direction.y);
+
+/**
+ * Path data for a connector between two points. `startDirection` and
+ * `endDirection` point out of the objects the ends are attached to, if any.
+ */
+export const connectorPath = (
+  style: ConnectorStyle,
+  start: Point,
+  end: Point,
+  startDirection: Point | null,
+  endDirection: Point | null,
+  strokeWidth: number
+): string => {
+  const startOut = startDirection ?? towards(start, end);
+  const endOut = endDirection ?? towards(end, start);
+  // Points the route goes through after the start, ending at the end
+  let route: Point[];
+  let commands: string;
+
+  if (style.routing === 'curved') {
+    const reach = Math.max(30, Math.hypot(end.x - start.x, end.y - start.y) * 0.4);
+    const c1 = { x: start.x + startOut.x * reach, y: start.y + startOut.y * reach };
+    const c2 = { x: end.x + endOut.x * reach, y: end.y + endOut.y * reach };
+    route = [c1, c2, end];
+    commands = `M ${start.x} ${start.y} C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${end.x} ${end.y}`;
+  } else {
+    if (style.routing === 'straight') {
+      route = [end];
+    } else if (isHorizontal(startOut) && isHorizontal(endOut)) {
+      const middle = (start.x + end.x) / 2;
+      route = [{ x: middle, y: start.y }, { x: middle, y: end.y }, end];
+    } else if (!isHorizontal(startOut) && !isHorizontal(endOut)) {
+      const middle = (start.y + end.y) / 2;
+      route = [{ x: start.x, y: middle }, { x: end.x, y: middle }, end];
+    } else if (isHorizontal(startOut)) {
+      route = [{ x: end.x, y: start.y }, end];
+    } else {
+      route = [{ x: start.x, y: end.y }, end];
+    }
+    commands = `M ${start.x} ${start.y}` + route.map(point => ` L ${point.x} ${point.y}`).join('');
+  }
+
+  // Arrowheads follow the first and last bit of the route that has a length
+  const points = [start, ...route];
+  const distinct = (from: Point, candidates: Point[]) =>
+    candidates.find(point => Math.hypot(point.x - from.x, point.y - from.y) > 0.5) ?? from;
+  const angleFrom = (tip: Point, from: Point) => Math.atan2(tip.y - from.y, tip.x - from.x);
+  const head = arrowheadSize(strokeWidth, Math.hypot(end.x - start.x, end.y - start.y));
+  if (style.endArrow) {
+    commands += arrowheadPath(end, angleFrom(end, distinct(end, points.slice(0, -1).reverse())), head);
+  }
+  if (style.startArrow) {
+    commands += arrowheadPath(start, angleFrom(start, distinct(start, points.slice(1))), head);
+  }
+  return commands;
+};
+
+/** Path data for a connector between two ends, leaving objects straight out of their anchors */
+export const connectorPathBetween = (style: ConnectorStyle, start: ConnectorEndpoint, end: ConnectorEndpoint, strokeWidth: number): string => {
+  const direction = ({ object, anchor }: ConnectorEndpoint) => (object && anchor ? anchorDirection(object, anchor) : null);
+  return connectorPath(style, start.point, end.point, direction(start), direction(end), strokeWidth);
+};
+
+/** How a connector end is saved: attached when it is on an object's anchor, which gets an id if needed */
+export const attachmentOf = ({ object, anchor }: ConnectorEndpoint): ConnectorAttachment | undefined =>
+  object && anchor ? { objectId: ensureObjectId(object), anchor } : undefined;
+
+// Where a connector's route starts and ends, through `matrix`: on the canvas
+// by default. The route is the first subpath; arrowheads come after it.
+const routeEnds = (path: fabric.Path, matrix: fabric.TMat2D = path.calcTransformMatrix()): [fabric.Point, fabric.Point] => {
+  const commands = path.path;
+  const routeLength = commands.findIndex((command, index) => index > 0 && command[0] === 'M');
+  const last = commands[(routeLength === -1 ? commands.length : routeLength) - 1];
+  const transform = (x: number, y: number) =>
+    fabric.util.transformPoint(new fabric.Point(x - path.pathOffset.x, y - path.pathOffset.y), matrix);
+  const first = commands[0];
+  return [
+    transform(first[1] as number, first[2] as number),
+    transform(last[last.length - 2] as number, last[last.length - 1] as number),
+  ];
+};
+
+/**
+ * Redraw a connector from its attached objects' anchors, or from where its
+ * ends are now for ends that are free or whose object is gone. An end being
+ * dragged is drawn at `moved` instead. Connectors inside a group or selection
+ * move with it instead.
+ */
+export const rerouteConnector = (
+  canvas: fabric.Canvas,
+  connector: fabric.Path,
+  moved?: { end: ConnectorEnd; endpoint: ConnectorEndpoint }
+) => {
+  const data = connector.connector;
+  if (!data || connector.group) return;
+
+  const [currentStart, currentEnd] = routeEnds(connector);
+  const resolve = (end: ConnectorEnd, current: fabric.Point): ConnectorEndpoint => {
+    if (moved?.end === end) return moved.endpoint;
+    const attachment = data[end];
+    const object = attachment && findObjectById(canvas, attachment.objectId);
+    return object ? { point: getAnchorPoint(object, attachment.anchor), object, anchor: attachment.anchor } : { point: current };
+  };
+  const path = connectorPathBetween(data, resolve('start', currentStart), resolve('end', currentEnd), connector.strokeWidth);
+
+  // The route is recomputed in canvas coordinates, so any transform of the path is dropped
+  connector.set({ angle: 0, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0, flipX: false, flipY: false });
+  connector._setPath(path, true);
+  connector.setCoords();
+  connector.set('dirty', true);
+};
+
+/**
+ * Handles on a connector's two ends. A dragged end attaches to the nearest
+ * anchor within reach, and lets go of its object when dropped anywhere else.
+ */
+export const connectorEndControls = (): Record<ConnectorEnd, fabric.Control> => {
+  const endControl = (end: ConnectorEnd) => new fabric.Control({
+    actionName: 'moveConnectorEnd',
+    cursorStyle: 'crosshair',
+    render: fabric.controlsUtils.renderCircleControl,
+    positionHandler: (_dim, _finalMatrix, object) => {
+      const connector = object as fabric.Path;
+      const toViewport = fabric.util.multiplyTransformMatrices(connector.getViewportTransform(), connector.calcTransformMatrix());
+      return routeEnds(connector, toViewport)[end === 'start' ? 0 : 1];
+    },
+    actionHandler: (_eventData, transform, x, y) => {
+      const connector = transform.target as fabric.Path;
+      const canvas = connector.canvas;
+      if (!(canvas instanceof fabric.Canvas) || !connector.connector) return false;
+      const pointer = new fabric.Point(x, y);
+      const endpoint: ConnectorEndpoint = findNearestAnchor(canvas, pointer, ANCHOR_SNAP_DISTANCE / canvas.getZoom()) ?? { point: pointer };
+      connector.connector = { ...connector.connector, [end]: attachmentOf(endpoint) };
+      rerouteConnector(canvas, connector, { end, endpoint });
+      return true;
+    },
+  });
+  return { start: endControl('start'), end: endControl('end') };
+};
+
+/** Reroute the connectors attached to any of `objects` or to objects inside them */
+export const rerouteConnectorsFor = (canvas: fabric.Canvas, objects: fabric.FabricObject[]) => {
+  const ids = new Set(attachableObjects(objects).map(obj => obj.objectId).filter(Boolean));
+  if (ids.size === 0) return;
+  canvas.getObjects().forEach(obj => {
+    if (!isConnector(obj)) return;
+    const { start, end } = obj.connector!;
+    if ((start && ids.has(start.objectId)) || (end && ids.has(end.objectId))) {
+      rerouteConnector(canvas, obj);
+    }
+  });
+};
+
+/**
+ * Give serialized objects that are about to be pasted new ids, so they do
+ * not share ids with the objects they were copied from. Connector ends stay
+ * attached to objects that were copied along and are let go otherwise.
+ */
+export const reassignObjectIds = (serialized: SerializedObject[]): SerializedObject[] => {
+  const ids = new Map<string, string>();
+  const collectIds = (objects: SerializedObject[]) => objects.forEach(obj => {
+    if (obj.objectId) ids.set(obj.objectId, newObjectId());
+    if (Array.isArray(obj.objects)) collectIds(obj.objects);
+  });
+  collectIds(serialized);
+
+  const remapAttachment = (attachment: ConnectorAttachment | undefined) =>
+    attachment && ids.has(attachment.objectId) ? { ...attachment, objectId: ids.get(attachment.objectId)! } : undefined;
+  const remap = (obj: SerializedObject): SerializedObject => ({
+    ...obj,
+    ...(obj.objectId && { objectId: ids.get(obj.objectId) }),
+    ...(obj.connector && {
+      connector: { ...obj.connector, start: remapAttachment(obj.connector.start), end: remapAttachment(obj.connector.end) },
+    }),
+    ...(Array.isArray(obj.objects) && { objects: obj.objects.map(remap) }),
+  });
+  return serialized.map(remap);
+};
+
+/** Draw anchor handles of objects on the top layer, with the one a connector end would attach to filled in */
+export const drawAnchors = (
+  ctx: CanvasRenderingContext2D,
+  objects: fabric.FabricObject[],
+  active: { object: fabric.FabricObject; anchor: ConnectorAnchor } | null,
+  viewportTransform: fabric.TMat2D
+) => {
+  const zoom = viewportTransform[0];
+  ctx.save();
+  ctx.transform(...viewportTransform);
+  ctx.lineWidth = 1.5 / zoom;
+  ctx.strokeStyle = '#2563eb';
+  objects.forEach(object => {
+    ANCHORS.forEach(anchor => {
+      const point = getAnchorPoint(object, anchor);
+      const isActive = active?.object === object && active.anchor === anchor;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, (isActive ? 6 : 4) / zoom, 0, Math.PI * 2);
+      ctx.fillStyle = isActive ? '#2563eb' : '#ffffff';
+      ctx.fill();
+      ctx.stroke();
+    });
+  });
+  ctx.restore();
+};
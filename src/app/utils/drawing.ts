@@ -0,0 +1,124 @@
+import * as fabric from 'fabric';
+
+export type BrushMode = 'pen' | 'highlighter' | 'eraser';
+
+export interface BrushSettings {
+  mode: BrushMode;
+  color: string; // Hex color of pen and highlighter strokes
+  width: number; // Slide pixels
+}
+
+// Custom Fabric object property marking freehand strokes, which the eraser removes
+export const DRAWING_PROPERTIES = ['brush'] as const;
+
+export const DEFAULT_BRUSH: BrushSettings = { mode: 'pen', color: '#1f2937', width: 4 };
+
+export const BRUSH_MODES: { mode: BrushMode; name: string }[] = [
+  { mode: 'pen', name: 'Pen' },
+  { mode: 'highlighter', name: 'Highlighter' },
+  { mode: 'eraser', name: 'Eraser' },
+];
+
+export const BRUSH_WIDTHS = [2, 4, 8, 16, 32];
+
+export const BRUSH_COLORS = ['#1f2937', '#dc2626', '#2563eb', '#16a34a', '#facc15', '#f97316', '#db2777', '#ffffff'];
+
+// Highlighter strokes are see-through and darken what is under them, like ink on paper
+export const HIGHLIGHTER_OPACITY = 0.4;
+
+// Points closer together than this (in screen pixels) are merged, which smooths out hand jitter
+const SMOOTHING_DISTANCE = 2;
+
+const hexWithAlpha = (hex: string, alpha: number): string => {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return hex;
+  const value = parseInt(match[1], 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+/**
+ * Brush that draws a trail like the pencil but, instead of adding a path,
+ * hands the points it went through to `onErase`.
+ */
+export class StrokeEraserBrush extends fabric.PencilBrush {
+  onErase?: (points: fabric.Point[]) => void;
+
+  _finalizeAndAddPath() {
+    const points = this._points;
+    this.canvas.clearContext(this.canvas.contextTop);
+    this.canvas.requestRenderAll();
+    this.onErase?.(points);
+  }
+}
+
+/** The free-drawing brush for a mode, with its trail shown the way the stroke will look */
+export const createBrush = (canvas: fabric.Canvas, settings: BrushSettings, onErase: (points: fabric.Point[]) => void): fabric.PencilBrush => {
+  let brush: fabric.PencilBrush;
+  if (settings.mode === 'eraser') {
+    const eraser = new StrokeEraserBrush(canvas);
+    eraser.onErase = onErase;
+    eraser.color = 'rgba(156, 163, 175, 0.5)';
+    brush = eraser;
+  } else {
+    brush = new fabric.PencilBrush(canvas);
+    brush.color = settings.mode === 'highlighter' ? hexWithAlpha(settings.color, HIGHLIGHTER_OPACITY) : settings.color;
+  }
+  brush.width = settings.width;
+  brush.strokeLineCap = 'round';
+  brush.strokeLineJoin = 'round';
+  brush.decimate = SMOOTHING_DISTANCE / canvas.getZoom();
+  return brush;
+};
+
+/** Give a path drawn by the brush its final look and mark it as a freehand stroke */
+export const styleStroke = (path: fabric.Path, settings: BrushSettings) => {
+  const isHighlighter = settings.mode === 'highlighter';
+  path.set({
+    brush: isHighlighter ? 'highlighter' : 'pen',
+    stroke: settings.color,
+    fill: null,
+    opacity: isHighlighter ? HIGHLIGHTER_OPACITY : 1,
+    globalCompositeOperation: isHighlighter ? 'multiply' : 'source-over',
+  });
+};
+
+const distanceToSegment = (point: fabric.Point, a: fabric.Point, b: fabric.Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+// Points a freehand path goes through, in canvas coordinates. Brush paths
+// are dense enough that curve control points can be ignored.
+const strokePoints = (path: fabric.Path): fabric.Point[] => {
+  const matrix = path.calcTransformMatrix();
+  return path.path.map(command => {
+    const x = command[command.length - 2] as number;
+    const y = command[command.length - 1] as number;
+    return fabric.util.transformPoint(new fabric.Point(x - path.pathOffset.x, y - path.pathOffset.y), matrix);
+  });
+};
+
+/**
+ * Freehand strokes on the canvas that an eraser of `width` touched on its
+ * way through `points`. Only whole strokes are erased.
+ */
+export const findErasedStrokes = (canvas: fabric.Canvas, points: fabric.Point[], width: number): fabric.Path[] =>
+  canvas.getObjects().filter((obj): obj is fabric.Path => {
+    if (!obj.brush || !(obj instanceof fabric.Path) || !obj.visible || obj.locked) return false;
+    const reach = width / 2 + (obj.strokeWidth * Math.max(Math.abs(obj.scaleX), Math.abs(obj.scaleY))) / 2;
+    const bounds = obj.getBoundingRect();
+    const nearby = points.filter(point =>
+      point.x >= bounds.left - reach && point.x <= bounds.left + bounds.width + reach &&
+      point.y >= bounds.top - reach && point.y <= bounds.top + bounds.height + reach
+    );
+    if (nearby.length === 0) return false;
+    const stroke = strokePoints(obj);
+    return nearby.some(point =>
+      stroke.length === 1
+        ? point.distanceFrom(stroke[0]) <= reach
+        : stroke.slice(1).some((end, index) => distanceToSegment(point, stroke[index], end) <= reach)
+    );
+  });
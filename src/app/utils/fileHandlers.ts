@@ -1,26 +1,61 @@
-import { Slide } from '../redux/presentationSlice';
+import { Slide, SlideSize } from '../redux/presentationSlice';
+import { PptxExporter } from './pptx/exporter';
+import { PptxImporter, SlideImportReport } from './pptx/importer';
+import { PdfExporter } from './pdf/exporter';
+import { SlideImageExporter, ImageExportOptions } from './slideImageExporter';
+import { createOffscreenSlideCanvas } from './slideRenderer';
+import { isValidSlideSize } from './slideSize';
+import { PresentationTheme, isValidTheme } from './themes';
+import { EmbeddedFont, FONT_EXTENSIONS, isValidEmbeddedFont } from './fonts';
+import { GuideSettings, isValidGuideSettings } from './guides';
+import { ChromadeckBundle, CHROMADECK_EXTENSION } from './chromadeck/bundle';
+import { CURRENT_PRESENTATION_VERSION, migratePresentationData } from './presentationMigrations';
+import {
+  AssetTable,
+  findUsedAssetIds,
+  internInlineImages,
+  isValidAsset,
+  pickUsedAssets,
+  resolveSlideAssets,
+} from './assets';
 
 export interface PresentationData {
   name: string;
   slides: Slide[];
+  slideSize?: SlideSize; // Filled in by migration for files saved before page setup existed
+  theme?: PresentationTheme; // Filled in by migration for files saved before themes existed
+  assets?: AssetTable; // Images referenced from slides by id
+  fonts?: EmbeddedFont[]; // Font files the presentation carries
+  guides?: GuideSettings; // Filled in by migration for files saved before grid and guides existed
   version: string;
   createdAt: number;
   updatedAt: number;
+  importReport?: SlideImportReport[]; // Elements skipped while importing a foreign format
 }
 
 export class FileHandlers {
-  private static readonly CURRENT_VERSION = '1.0.0';
+  private static readonly CURRENT_VERSION = CURRENT_PRESENTATION_VERSION;
+  private static readonly THUMBNAIL_WIDTH = 150;
 
   static async savePresentation(
     presentationName: string,
     slides: Slide[],
-    format: 'json' | 'pptx' = 'json'
+    slideSize: SlideSize,
+    theme: PresentationTheme,
+    assets: AssetTable,
+    fonts: EmbeddedFont[],
+    guides: GuideSettings,
+    format: 'json' | 'chromadeck' | 'pptx' | 'pdf' = 'json'
   ): Promise<void> {
     try {
       if (format === 'json') {
-        await this.saveAsJSON(presentationName, slides);
+        await this.saveAsJSON(this.toPresentationData(presentationName, slides, slideSize, theme, assets, fonts, guides));
+      } else if (format === 'chromadeck') {
+        await this.saveAsBundle(this.toPresentationData(presentationName, slides, slideSize, theme, assets, fonts, guides));
+      } else if (format === 'pptx') {
+        await this.saveAsPPTX(presentationName, resolveSlideAssets(slides, assets), slideSize);
       } else {
-        await this.saveAsPPTX(presentationName, slides);
+        await this.saveAsPDF(presentationName, resolveSlideAssets(slides, assets), slideSize);
       }
     } catch (error) {
       console.error(`Error saving presentation as ${format}:`, error);
@@ -28,26 +63,71 @@ export class FileHandlers {
     }
   }
 
-  private static async saveAsJSON(
+  private static toPresentationData(
     presentationName: string,
-    slides: Slide[]
-  ): Promise<void> {
-    const data: PresentationData = {
+    slides: Slide[],
+    slideSize: SlideSize,
+    theme: PresentationTheme,
+    assets: AssetTable,
+    fonts: EmbeddedFont[],
+    guides: GuideSettings
+  ): PresentationData {
+    return {
       name: presentationName,
       slides,
+      slideSize,
+      theme,
+      // Only images still used by a slide are written
+      assets: pickUsedAssets(slides, assets),
+      fonts,
+      guides,
       version: this.CURRENT_VERSION,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
+  }
 
+  private static async saveAsJSON(data: PresentationData): Promise<void> {
     const jsonString = JSON.stringify(data, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
-    
+    this.downloadBlob(blob, `${this.toFileBaseName(data.name)}.json`);
+  }
+
+  // Zip bundle with binary media; much smaller and faster than JSON for image-heavy decks
+  private static async saveAsBundle(data: PresentationData): Promise<void> {
+    const blob = ChromadeckBundle.generate(data);
+    this.downloadBlob(blob, `${this.toFileBaseName(data.name)}${CHROMADECK_EXTENSION}`);
+  }
+
+  private static async saveAsPPTX(
+    presentationName: string,
+    slides: Slide[],
+    slideSize: SlideSize
+  ): Promise<void> {
+    const blob = PptxExporter.generate(presentationName, slides, slideSize);
+    this.downloadBlob(blob, `${this.toFileBaseName(presentationName)}.pptx`);
+  }
+
+  // Rendered entirely in the browser from each slide's canvas data
+  private static async saveAsPDF(
+    presentationName: string,
+    slides: Slide[],
+    slideSize: SlideSize
+  ): Promise<void> {
+    const blob = await PdfExporter.generate(presentationName, slides, slideSize);
+    this.downloadBlob(blob, `${this.toFileBaseName(presentationName)}.pdf`);
+  }
+
+  private static toFileBaseName(name: string): string {
+    return name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  }
+
+  private static downloadBlob(blob: Blob, fileName: string): void {
     // Create download link
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${presentationName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
+    link.download = fileName;
     
     // Trigger download
     document.body.appendChild(link);
@@ -55,27 +135,7 @@ export class FileHandlers {
     document.body.removeChild(link);
     
     // Cleanup
-        URL.revokeObjectURL(url);
-  }
-
-  private static async saveAsPPTX(
-    presentationName: string,
-    slides: Slide[]
-  ): Promise<void> {
-    // For now, show a user-friendly message
-    const message = `PPTX export is being developed! 
-    
-For now, you can:
-1. Save as JSON (fully supported)
-2. Export individual slides as images
-3. Copy content to PowerPoint manually
-
-We're working on full PPTX support - it will be available in a future update!`;
-
-    alert(message);
-    
-    // Fallback to JSON export
-    await this.saveAsJSON(presentationName, slides);
+    URL.revokeObjectURL(url);
   }
 
   private static async loadPPTXFile(
@@ -83,26 +143,41 @@ We're working on full PPTX support - it will be available in a future update!`;
     resolve: (data: PresentationData) => void, 
     reject: (error: Error) => void
   ): Promise<void> {
-    const message = `PPTX import is being developed!
+    try {
+      const buffer = await file.arrayBuffer();
+      // Keep the deck's own page size so slides are not letterboxed
+      const result = await PptxImporter.parse(buffer);
 
-For now, you can:
-1. Export your PowerPoint slides as images
-2. Use the Image tool to add them to your presentation
-3. Save your PowerPoint as PDF and convert pages to images
+      if (result.slides.length === 0) {
+        reject(new Error('The PowerPoint file does not contain any readable slides'));
+        return;
+      }
 
-We're working on full PPTX import - it will be available soon!`;
+      // Pictures repeated across slides, such as logos, are stored once
+      const { slides, assets } = await internInlineImages(result.slides);
 
-    reject(new Error(message));
+      resolve({
+        name: result.name || file.name.replace(/\.pptx$/i, ''),
+        slides,
+        slideSize: result.size,
+        assets,
+        version: this.CURRENT_VERSION,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        importReport: result.report,
+      });
+    } catch (error) {
+      console.error('Error importing PPTX file:', error);
+      reject(new Error('Failed to read PowerPoint file'));
+    }
   }
 
- 
-
   static async loadPresentation(): Promise<PresentationData> {
     return new Promise((resolve, reject) => {
       try {
         const input = document.createElement('input');
         input.type = 'file';
-        input.accept = '.json,.pptx';
+        input.accept = `.json,${CHROMADECK_EXTENSION},.pptx`;
         
         input.onchange = async (event) => {
           const file = (event.target as HTMLInputElement).files?.[0];
@@ -112,12 +187,15 @@ We're working on full PPTX import - it will be available soon!`;
           }
 
           try {
-            if (file.name.toLowerCase().endsWith('.json')) {
+            const fileName = file.name.toLowerCase();
+            if (fileName.endsWith('.json')) {
               await this.loadJSONFile(file, resolve, reject);
-            } else if (file.name.toLowerCase().endsWith('.pptx')) {
+            } else if (fileName.endsWith(CHROMADECK_EXTENSION)) {
+              await this.loadBundleFile(file, resolve, reject);
+            } else if (fileName.endsWith('.pptx')) {
               await this.loadPPTXFile(file, resolve, reject);
             } else {
-              reject(new Error('Unsupported file format. Please select a .json or .pptx file.'));
+              reject(new Error(`Unsupported file format. Please select a .json, ${CHROMADECK_EXTENSION} or .pptx file.`));
             }
           } catch (parseError) {
             reject(new Error('Failed to parse presentation file'));
@@ -141,34 +219,108 @@ We're working on full PPTX import - it will be available soon!`;
     reject: (error: Error) => void
   ): Promise<void> {
     const text = await file.text();
-    const data = JSON.parse(text) as PresentationData;
-    
-    // Validate the data structure
-    if (!this.validatePresentationData(data)) {
-      reject(new Error('Invalid JSON presentation file format'));
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      reject(new Error('The file is not valid JSON'));
+      return;
+    }
+
+    await this.acceptSavedData(data, resolve, reject);
+  }
+
+  private static async loadBundleFile(
+    file: File,
+    resolve: (data: PresentationData) => void,
+    reject: (error: Error) => void
+  ): Promise<void> {
+    let data: unknown;
+    try {
+      data = ChromadeckBundle.parse(await file.arrayBuffer());
+    } catch (error) {
+      reject(error instanceof Error ? error : new Error('Failed to read bundle'));
+      return;
+    }
+
+    await this.acceptSavedData(data, resolve, reject);
+  }
+
+  // Shared by .json files and bundles, which carry the same presentation data
+  private static async acceptSavedData(
+    data: unknown,
+    resolve: (data: PresentationData) => void,
+    reject: (error: Error) => void
+  ): Promise<void> {
+    // Upgrade files saved by older versions before checking their shape
+    let migrated: unknown;
+    try {
+      migrated = await migratePresentationData(data);
+    } catch (error) {
+      reject(error instanceof Error ? error : new Error('Unsupported presentation file'));
+      return;
+    }
+
+    if (!this.validatePresentationData(migrated)) {
+      reject(new Error(`Invalid presentation file: ${this.findValidationError(migrated)}`));
       return;
     }
     
-    resolve(data);
+    resolve(migrated);
+  }
+
+  static validatePresentationData(data: unknown): data is PresentationData {
+    return this.findValidationError(data) === null;
   }
 
+  // Describes the first problem found, naming the slide and field, or null if the data is valid
+  private static findValidationError(value: unknown): string | null {
+    if (typeof value !== 'object' || value === null) return 'the file does not contain a presentation';
+    const data = value as Record<string, unknown>;
+    if (typeof data.name !== 'string') return '"name" must be a string';
+    if (typeof data.version !== 'string') return '"version" must be a string';
+    if (data.slideSize !== undefined && !isValidSlideSize(data.slideSize)) return '"slideSize" is not a valid slide size';
+    if (data.theme !== undefined && !isValidTheme(data.theme)) return '"theme" is not a valid theme';
+    const assets = data.assets ?? {};
+    if (typeof assets !== 'object' || assets === null) return '"assets" must be an object';
+    const invalidAssetId = Object.entries(assets).find(([id, asset]) => !isValidAsset(asset, id))?.[0];
+    if (invalidAssetId) return `asset "${invalidAssetId}" is not a valid image asset`;
+    if (data.fonts !== undefined && !Array.isArray(data.fonts)) return '"fonts" must be a list';
+    const invalidFontIndex = (data.fonts ?? []).findIndex(font => !isValidEmbeddedFont(font));
+    if (invalidFontIndex !== -1) return `font ${invalidFontIndex + 1} is not a valid embedded font`;
+    if (data.guides !== undefined && !isValidGuideSettings(data.guides)) return '"guides" is not a valid grid and guide setup';
+    if (!Array.isArray(data.slides)) return '"slides" must be a list';
 
+    for (let index = 0; index < data.slides.length; index++) {
+      const slide: unknown = data.slides[index];
+      const name = typeof slide === 'object' && slide !== null ? (slide as Record<string, unknown>).name : undefined;
+      const label = typeof name === 'string' ? `slide ${index + 1} ("${name}")` : `slide ${index + 1}`;
+      const fieldError = this.findSlideFieldError(slide);
+      if (fieldError) return `${label}: ${fieldError}`;
+      // The field checks above make this a slide
+      const missingAssetId = Array.from(findUsedAssetIds([slide as Slide])).find(id => !(id in assets));
+      if (missingAssetId) return `${label}: "canvasData" references missing image asset "${missingAssetId}"`;
+    }
+    return null;
+  }
 
-  static validatePresentationData(data: any): data is PresentationData {
-    return (
-      typeof data === 'object' &&
-      data !== null &&
-      typeof data.name === 'string' &&
-      Array.isArray(data.slides) &&
-      typeof data.version === 'string' &&
-      data.slides.every((slide: any) => 
-        typeof slide.id === 'string' &&
-        typeof slide.name === 'string' &&
-        typeof slide.canvasData === 'string' &&
-        typeof slide.createdAt === 'number' &&
-        typeof slide.updatedAt === 'number'
-      )
-    );
+  private static findSlideFieldError(value: unknown): string | null {
+    if (typeof value !== 'object' || value === null) return 'must be an object';
+    const slide = value as Record<string, unknown>;
+    if (typeof slide.id !== 'string') return '"id" must be a string';
+    if (typeof slide.name !== 'string') return '"name" must be a string';
+    if (typeof slide.canvasData !== 'string') return '"canvasData" must be a string';
+    try {
+      JSON.parse(slide.canvasData);
+    } catch {
+      return '"canvasData" is not valid JSON';
+    }
+    if (slide.notes !== undefined && typeof slide.notes !== 'string') return '"notes" must be a string';
+    if (slide.layoutId !== undefined && typeof slide.layoutId !== 'string') return '"layoutId" must be a string';
+    if (typeof slide.createdAt !== 'number') return '"createdAt" must be a number';
+    if (typeof slide.updatedAt !== 'number') return '"updatedAt" must be a number';
+    return null;
   }
 
   static generateThumbnail(canvasElement: HTMLCanvasElement): string {
@@ -182,7 +334,7 @@ We're working on full PPTX import - it will be available soon!`;
       }
       
       // Set thumbnail dimensions
-      const thumbnailWidth = 150;
+      const thumbnailWidth = this.THUMBNAIL_WIDTH;
       const thumbnailHeight = (thumbnailWidth * canvasElement.height) / canvasElement.width;
       
       thumbnailCanvas.width = thumbnailWidth;
@@ -199,6 +351,21 @@ We're working on full PPTX import - it will be available soon!`;
     }
   }
 
+  // For slides that are not on screen, e.g. after the slide size changed
+  static async renderThumbnail(canvasData: string, slideSize: SlideSize): Promise<string> {
+    try {
+      const canvas = await createOffscreenSlideCanvas(canvasData, slideSize);
+      try {
+        return canvas.toDataURL({ format: 'png', multiplier: this.THUMBNAIL_WIDTH / slideSize.width });
+      } finally {
+        canvas.dispose();
+      }
+    } catch (error) {
+      console.error('Error rendering thumbnail:', error);
+      return '';
+    }
+  }
+
   static async loadImageFromFile(): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
@@ -241,6 +408,61 @@ We're working on full PPTX import - it will be available soon!`;
     });
   }
 
+  // Font file to embed in the presentation; the family is named after the file
+  static async loadFontFromFile(): Promise<EmbeddedFont> {
+    return new Promise((resolve, reject) => {
+      try {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = Object.values(FONT_EXTENSIONS).map(extension => `.${extension}`).join(',');
+
+        input.onchange = async (event) => {
+          const file = (event.target as HTMLInputElement).files?.[0];
+          if (!file) {
+            reject(new Error('No file selected'));
+            return;
+          }
+
+          const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+          const mimeType = Object.keys(FONT_EXTENSIONS).find(type => FONT_EXTENSIONS[type] === extension);
+          if (!mimeType) {
+            reject(new Error('Unsupported font format. Please select a .woff2, .woff, .ttf or .otf file.'));
+            return;
+          }
+
+          // Check file size (limit to 5MB)
+          if (file.size > 5 * 1024 * 1024) {
+            reject(new Error('File size too large (max 5MB)'));
+            return;
+          }
+
+          const reader = new FileReader();
+          reader.onload = (e) => {
+            // Browsers rarely know font MIME types, so the data URL is rebuilt with one
+            const result = e.target?.result as string;
+            const base64 = result.slice(result.indexOf(',') + 1);
+            resolve({
+              family: file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Embedded font',
+              src: `data:${mimeType};base64,${base64}`,
+            });
+          };
+          reader.onerror = () => {
+            reject(new Error('Failed to read font file'));
+          };
+          reader.readAsDataURL(file);
+        };
+
+        input.onerror = () => {
+          reject(new Error('Failed to read file'));
+        };
+
+        input.click();
+      } catch (error) {
+        reject(new Error('Failed to open file dialog'));
+      }
+    });
+  }
+
   static async loadImageFromUrl(url: string): Promise<string> {
     return new Promise((resolve, reject) => {
       const img = new Image();
@@ -276,6 +498,23 @@ We're working on full PPTX import - it will be available soon!`;
     });
   }
 
+  static async exportSlidesAsImages(
+    presentationName: string,
+    slides: Slide[],
+    slideSize: SlideSize,
+    assets: AssetTable,
+    options: ImageExportOptions,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<void> {
+    try {
+      const blob = await SlideImageExporter.generate(resolveSlideAssets(slides, assets), slideSize, options, onProgress);
+      this.downloadBlob(blob, `${this.toFileBaseName(presentationName)}_slides.zip`);
+    } catch (error) {
+      console.error('Error exporting slides:', error);
+      throw new Error('Failed to export slides');
+    }
+  }
+
   static exportSlideAsImage(canvasElement: HTMLCanvasElement, slideName: string): void {
     try {
       const dataUrl = canvasElement.toDataURL('image/png', 1.0);
@@ -0,0 +1,58 @@
+/**
+ * A font file carried by the presentation, so decks that use fonts beyond the
+ * web-safe set render the same on every machine.
+ */
+export interface EmbeddedFont {
+  family: string;
+  src: string; // Data URL of the font file
+  weight?: string;
+  style?: string;
+}
+
+export const FONT_EXTENSIONS: Record<string, string> = {
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+};
+
+export const isValidEmbeddedFont = (font: unknown): font is EmbeddedFont => {
+  if (typeof font !== 'object' || font === null) return false;
+  const { family, src, weight, style } = font as Record<string, unknown>;
+  return (
+    typeof family === 'string' &&
+    family.length > 0 &&
+    typeof src === 'string' &&
+    (weight === undefined || typeof weight === 'string') &&
+    (style === undefined || typeof style === 'string')
+  );
+};
+
+// FontFace objects already added to the document, by font source
+const registeredFonts = new Map<string, FontFace>();
+
+const fontKey = (font: EmbeddedFont) => `${font.family}|${font.weight ?? ''}|${font.style ?? ''}|${font.src}`;
+
+/**
+ * Make embedded fonts available to the canvas. Resolves once every font has
+ * loaded (or failed to), so slides rendered afterwards use them.
+ */
+export const registerEmbeddedFonts = async (fonts: EmbeddedFont[]): Promise<void> => {
+  if (typeof document === 'undefined' || !('fonts' in document)) return;
+
+  await Promise.all(fonts.map(async font => {
+    const key = fontKey(font);
+    if (registeredFonts.has(key)) return;
+    const face = new FontFace(font.family, `url(${font.src})`, {
+      ...(font.weight && { weight: font.weight }),
+      ...(font.style && { style: font.style }),
+    });
+    registeredFonts.set(key, face);
+    try {
+      await face.load();
+      document.fonts.add(face);
+    } catch (error) {
+      console.error(`Failed to load embedded font "${font.family}":`, error);
+    }
+  }));
+};
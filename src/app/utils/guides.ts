@@ -0,0 +1,190 @@
+import type { SlideSize } from '../redux/presentationSlice';
+import type { SnapLines } from './snapping';
+import { SlideSizeFit, slideSizeTransform } from './slideSize';
+
+export interface GridSettings {
+  visible: boolean;
+  snap: boolean;
+  spacing: number; // Slide pixels between major grid lines
+  subdivisions: number; // Minor cells per major cell; objects snap to the minor lines
+}
+
+// A guide line pulled from a ruler, at a position in slide pixels
+export interface Guide {
+  id: string;
+  orientation: 'horizontal' | 'vertical';
+  position: number;
+}
+
+// Layout aids saved with a presentation
+export interface GuideSettings {
+  grid: GridSettings;
+  lines: Guide[];
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  visible: false,
+  snap: false,
+  spacing: 50,
+  subdivisions: 5,
+};
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  grid: DEFAULT_GRID_SETTINGS,
+  lines: [],
+};
+
+export const MIN_GRID_SPACING = 5;
+export const MAX_GRID_SPACING = 500;
+export const MAX_GRID_SUBDIVISIONS = 10;
+
+export const isValidGridSpacing = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= MIN_GRID_SPACING && value <= MAX_GRID_SPACING;
+
+export const isValidGridSubdivisions = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_GRID_SUBDIVISIONS;
+
+const isValidGuide = (guide: unknown): guide is Guide => {
+  if (typeof guide !== 'object' || guide === null) return false;
+  const { id, orientation, position } = guide as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    (orientation === 'horizontal' || orientation === 'vertical') &&
+    typeof position === 'number' &&
+    Number.isFinite(position)
+  );
+};
+
+export const isValidGuideSettings = (settings: unknown): settings is GuideSettings => {
+  if (typeof settings !== 'object' || settings === null) return false;
+  const { grid, lines } = settings as Record<string, unknown>;
+  if (typeof grid !== 'object' || grid === null) return false;
+  const { visible, snap, spacing, subdivisions } = grid as Record<string, unknown>;
+  return (
+    typeof visible === 'boolean' &&
+    typeof snap === 'boolean' &&
+    isValidGridSpacing(spacing) &&
+    isValidGridSubdivisions(subdivisions) &&
+    Array.isArray(lines) &&
+    lines.every(isValidGuide)
+  );
+};
+
+/** Distance between the grid lines objects snap to, or 0 when grid snapping is off */
+export const gridSnapStep = (grid: GridSettings): number => (grid.snap ? grid.spacing / grid.subdivisions : 0);
+
+export const guideSnapLines = (guides: Guide[]): SnapLines => ({
+  vertical: guides.filter(guide => guide.orientation === 'vertical').map(guide => guide.position),
+  horizontal: guides.filter(guide => guide.orientation === 'horizontal').map(guide => guide.position),
+});
+
+export const isGuideOnSlide = (guide: Pick<Guide, 'orientation' | 'position'>, slideSize: SlideSize): boolean =>
+  guide.position >= 0 && guide.position <= (guide.orientation === 'vertical' ? slideSize.width : slideSize.height);
+
+/** Move guides for a new slide size along with the slide content they line up with */
+export const fitGuidesToSize = (guides: Guide[], from: SlideSize, to: SlideSize, fit: SlideSizeFit): Guide[] => {
+  const { scaleX, scaleY, offsetX, offsetY } = slideSizeTransform(from, to, fit);
+  return guides.map(guide => ({
+    ...guide,
+    position: guide.orientation === 'vertical'
+      ? guide.position * scaleX + offsetX
+      : guide.position * scaleY + offsetY,
+  }));
+};
+
+/**
+ * CSS background that draws the grid over a slide shown at `zoom`: major
+ * lines at the grid spacing and fainter lines at each subdivision.
+ */
+export const gridBackgroundStyle = (grid: GridSettings, zoom: number): { backgroundImage: string; backgroundSize: string } => {
+  const major = grid.spacing * zoom;
+  const minor = major / grid.subdivisions;
+  const line = (color: string, direction: 'right' | 'bottom') =>
+    `linear-gradient(to ${direction}, ${color} 1px, transparent 1px)`;
+  const layers = [
+    { image: line('rgba(59, 130, 246, 0.35)', 'right'), size: major },
+    { image: line('rgba(59, 130, 246, 0.35)', 'bottom'), size: major },
+  ];
+  // Subdivisions too dense to tell apart are left out
+  if (grid.subdivisions > 1 && minor >= 4) {
+    layers.push(
+      { image: line('rgba(59, 130, 246, 0.12)', 'right'), size: minor },
+      { image: line('rgba(59, 130, 246, 0.12)', 'bottom'), size: minor }
+    );
+  }
+  return {
+    backgroundImage: layers.map(layer => layer.image).join(', '),
+    backgroundSize: layers.map(layer => `${layer.size}px ${layer.size}px`).join(', '),
+  };
+};
+
+// Ruler label spacing: the smallest of these steps that leaves enough room between labels
+const RULER_STEPS = [1, 2, 5, 10, 20, 25, 50, 100, 200, 250, 500, 1000];
+const MIN_LABEL_GAP = 50; // Screen pixels
+
+/**
+ * Draw a ruler in slide pixels. `origin` is where slide position 0 is on the
+ * ruler, in screen pixels, and the slide's extent is shaded.
+ */
+export const drawRuler = (
+  ctx: CanvasRenderingContext2D,
+  orientation: 'horizontal' | 'vertical',
+  length: number,
+  thickness: number,
+  origin: number,
+  zoom: number,
+  slideLength: number
+) => {
+  ctx.clearRect(0, 0, orientation === 'horizontal' ? length : thickness, orientation === 'horizontal' ? thickness : length);
+  ctx.save();
+  if (orientation === 'vertical') {
+    // Drawn as a horizontal ruler mirrored across the diagonal, so ticks still face the slide
+    ctx.transform(0, 1, 1, 0, 0, 0);
+  }
+
+  ctx.fillStyle = '#f3f4f6';
+  ctx.fillRect(0, 0, length, thickness);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(origin, 0, slideLength * zoom, thickness);
+
+  const step = RULER_STEPS.find(candidate => candidate * zoom >= MIN_LABEL_GAP) ?? RULER_STEPS[RULER_STEPS.length - 1];
+  const minorStep = step / (step % 5 === 0 ? 5 : 2);
+  const first = Math.floor(-origin / zoom / minorStep) * minorStep;
+  const last = (length - origin) / zoom;
+
+  ctx.strokeStyle = '#9ca3af';
+  ctx.fillStyle = '#4b5563';
+  ctx.lineWidth = 1;
+  ctx.font = '10px sans-serif';
+  ctx.textBaseline = 'top';
+  ctx.beginPath();
+  for (let value = first; value <= last; value += minorStep) {
+    const rounded = Math.round(value * 1000) / 1000;
+    const x = Math.round(origin + rounded * zoom) + 0.5;
+    const isMajor = Math.abs(rounded % step) < 1e-6;
+    ctx.moveTo(x, thickness);
+    ctx.lineTo(x, thickness - (isMajor ? thickness * 0.6 : thickness * 0.25));
+    if (isMajor) {
+      ctx.save();
+      if (orientation === 'vertical') {
+        // Unmirrored and turned to read bottom to top, below the tick
+        ctx.translate(x, 0);
+        ctx.transform(0, 1, 1, 0, 0, 0);
+        ctx.rotate(-Math.PI / 2);
+        ctx.textAlign = 'right';
+        ctx.fillText(String(rounded), -3, 2);
+      } else {
+        ctx.fillText(String(rounded), x + 3, 2);
+      }
+      ctx.restore();
+    }
+  }
+  ctx.stroke();
+
+  ctx.strokeStyle = '#d1d5db';
+  ctx.beginPath();
+  ctx.moveTo(0, thickness - 0.5);
+  ctx.lineTo(length, thickness - 0.5);
+  ctx.stroke();
+  ctx.restore();
+};
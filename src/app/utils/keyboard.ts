@@ -0,0 +1,18 @@
+/**
+ * True when a key or clipboard event comes from a place where the user is
+ * typing text, such as form fields or Fabric's hidden textarea while a textbox
+ * is being edited. Editor shortcuts should leave those events alone.
+ */
+export const isTextInputEvent = (event: Event): boolean => {
+  const target = event.target as HTMLElement | null;
+  if (!target) return false;
+  return (
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT' ||
+    target.isContentEditable
+  );
+};
+
+/** Ctrl on Windows/Linux, Cmd on macOS */
+export const hasCommandModifier = (event: KeyboardEvent): boolean => event.ctrlKey || event.metaKey;
@@ -0,0 +1,150 @@
+import * as fabric from 'fabric';
+import { getShapeName } from './shapes';
+
+// Custom Fabric object properties set from the layers panel. Hidden objects
+// use Fabric's own `visible`, which is serialized already.
+export const LAYER_PROPERTIES = ['layerName', 'locked'] as const;
+
+export type ZOrderAction = 'forward' | 'backward' | 'front' | 'back';
+
+export const Z_ORDER_ACTIONS: { action: ZOrderAction; name: string; shortcut: string }[] = [
+  { action: 'front', name: 'Bring to front', shortcut: 'Ctrl+Shift+]' },
+  { action: 'forward', name: 'Bring forward', shortcut: 'Ctrl+]' },
+  { action: 'backward', name: 'Send backward', shortcut: 'Ctrl+[' },
+  { action: 'back', name: 'Send to back', shortcut: 'Ctrl+Shift+[' },
+];
+
+// One row of the layers panel; groups list their objects as children
+export interface LayerInfo {
+  path: number[]; // Stack positions from the canvas down through groups, 0 is the bottom
+  name: string;
+  type: string;
+  visible: boolean;
+  locked: boolean;
+  selected: boolean;
+  children?: LayerInfo[];
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  rect: 'Rectangle',
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  triangle: 'Triangle',
+  polygon: 'Polygon',
+  line: 'Line',
+  image: 'Image',
+  group: 'Group',
+};
+
+const isTextType = (type: string) => type === 'textbox' || type === 'i-text' || type === 'text';
+
+// Text layers are named after their first words until renamed
+const defaultLayerName = (obj: fabric.FabricObject): string => {
+  if (isTextType(obj.type)) {
+    const text = (obj as fabric.FabricText).text.replace(/\s+/g, ' ').trim();
+    if (!text) return 'Text';
+    return text.length > 30 ? `${text.slice(0, 30)}…` : text;
+  }
+  if (obj.brush) return obj.brush === 'highlighter' ? 'Highlight' : 'Drawing';
+  if (obj.shapeKind) return getShapeName(obj.shapeKind);
+  if (obj.connector) return 'Connector';
+  if (obj.table) return 'Table';
+  return TYPE_NAMES[obj.type] ?? obj.type.charAt(0).toUpperCase() + obj.type.slice(1);
+};
+
+export const getLayerName = (obj: fabric.FabricObject): string => obj.layerName || defaultLayerName(obj);
+
+/**
+ * Locked objects cannot be selected or moved, and clicks go through them to
+ * the objects behind, so a background image stays out of the way.
+ * `interactive` is false while a drawing tool is active.
+ */
+export const applyLayerLock = (obj: fabric.FabricObject, interactive = true) => {
+  obj.selectable = interactive && !obj.locked;
+  obj.evented = interactive && !obj.locked;
+};
+
+// A persistent group, as opposed to the temporary group of a multi-selection.
+// Tables are groups underneath but act as single objects.
+export const isGroup = (obj: fabric.FabricObject): obj is fabric.Group =>
+  obj instanceof fabric.Group && !(obj instanceof fabric.ActiveSelection) && !obj.table;
+
+export const describeLayers = (canvas: fabric.Canvas): LayerInfo[] => {
+  const selected = new Set(canvas.getActiveObjects());
+  const describe = (objects: fabric.FabricObject[], parentPath: number[]): LayerInfo[] =>
+    objects.map((obj, index) => {
+      const path = [...parentPath, index];
+      return {
+        path,
+        name: getLayerName(obj),
+        type: obj.type,
+        visible: obj.visible,
+        locked: !!obj.locked,
+        selected: selected.has(obj),
+        ...(isGroup(obj) && { children: describe(obj.getObjects(), path) }),
+      };
+    });
+  return describe(canvas.getObjects(), []);
+};
+
+// The object at a layer path, looking inside groups
+export const findLayerObject = (canvas: fabric.Canvas, path: number[]): fabric.FabricObject | undefined => {
+  let obj: fabric.FabricObject | undefined = canvas.item(path[0]);
+  for (const index of path.slice(1)) {
+    obj = obj && isGroup(obj) ? obj.item(index) : undefined;
+  }
+  return obj;
+};
+
+/**
+ * Replace objects with a group of them, at the stack position of the top-most
+ * one. Objects must be in slide coordinates, i.e. not in an active selection.
+ */
+export const groupObjects = (canvas: fabric.Canvas, objects: fabric.FabricObject[]): fabric.Group => {
+  const stack = canvas.getObjects();
+  const ordered = [...objects].sort((a, b) => stack.indexOf(a) - stack.indexOf(b));
+  const index = stack.indexOf(ordered[ordered.length - 1]) - (ordered.length - 1);
+  canvas.remove(...ordered);
+  const group = new fabric.Group(ordered);
+  canvas.insertAt(index, group);
+  return group;
+};
+
+/** Put a group's objects back on the canvas in its place, in slide coordinates */
+export const ungroupObject = (canvas: fabric.Canvas, group: fabric.Group): fabric.FabricObject[] => {
+  const index = canvas.getObjects().indexOf(group);
+  const objects = group.removeAll();
+  canvas.remove(group);
+  canvas.insertAt(index, ...objects);
+  return objects;
+};
+
+/**
+ * Move objects up or down the stack, keeping their order relative to each
+ * other. Returns whether anything moved.
+ */
+export const changeZOrder = (canvas: fabric.Canvas, objects: fabric.FabricObject[], action: ZOrderAction): boolean => {
+  const stack = canvas.getObjects();
+  const byIndex = [...objects].sort((a, b) => stack.indexOf(a) - stack.indexOf(b));
+  // Processed in the order that keeps the objects' own stacking intact
+  const ordered = action === 'front' || action === 'backward' ? byIndex : byIndex.reverse();
+
+  let moved = false;
+  ordered.forEach(obj => {
+    switch (action) {
+      case 'front':
+        moved = canvas.bringObjectToFront(obj) || moved;
+        break;
+      case 'forward':
+        moved = canvas.bringObjectForward(obj) || moved;
+        break;
+      case 'backward':
+        moved = canvas.sendObjectBackwards(obj) || moved;
+        break;
+      case 'back':
+        moved = canvas.sendObjectToBack(obj) || moved;
+        break;
+    }
+  });
+  return moved;
+};
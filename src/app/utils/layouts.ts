@@ -0,0 +1,175 @@
+import type { SlideSize } from '../redux/presentationSlice';
+import { PresentationTheme, themeBackgroundJSON } from './themes';
+import type { SerializedCanvas, SerializedObject } from './slideRenderer';
+
+export type SlideLayoutId = 'title' | 'title-content' | 'two-column' | 'section-header' | 'blank';
+
+// Placeholders with the same role are matched up when a slide switches layout
+export type PlaceholderRole = 'title' | 'subtitle' | 'body' | 'body2';
+
+interface PlaceholderDefinition {
+  role: PlaceholderRole;
+  hint: string;
+  // Box as fractions of the slide size, so layouts work for every page setup
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number; // Fraction of the slide height
+  fontWeight: 'normal' | 'bold';
+  textAlign: 'left' | 'center';
+}
+
+export interface SlideLayout {
+  id: SlideLayoutId;
+  name: string;
+  placeholders: PlaceholderDefinition[];
+}
+
+// Custom Fabric object properties that mark a text box as a layout placeholder
+export const PLACEHOLDER_PROPERTIES = ['placeholder', 'placeholderHint', 'placeholderEmpty'] as const;
+
+// Empty placeholders show their hint dimmed in the editor and are hidden everywhere else
+export const PLACEHOLDER_HINT_OPACITY = 0.45;
+
+export const SLIDE_LAYOUTS: SlideLayout[] = [
+  {
+    id: 'title',
+    name: 'Title',
+    placeholders: [
+      { role: 'title', hint: 'Click to add title', x: 0.1, y: 0.3, width: 0.8, fontSize: 0.075, fontWeight: 'bold', textAlign: 'center' },
+      { role: 'subtitle', hint: 'Click to add subtitle', x: 0.15, y: 0.55, width: 0.7, fontSize: 0.04, fontWeight: 'normal', textAlign: 'center' },
+    ],
+  },
+  {
+    id: 'title-content',
+    name: 'Title and Content',
+    placeholders: [
+      { role: 'title', hint: 'Click to add title', x: 0.07, y: 0.07, width: 0.86, fontSize: 0.06, fontWeight: 'bold', textAlign: 'left' },
+      { role: 'body', hint: 'Click to add text', x: 0.07, y: 0.25, width: 0.86, fontSize: 0.035, fontWeight: 'normal', textAlign: 'left' },
+    ],
+  },
+  {
+    id: 'two-column',
+    name: 'Two Column',
+    placeholders: [
+      { role: 'title', hint: 'Click to add title', x: 0.07, y: 0.07, width: 0.86, fontSize: 0.06, fontWeight: 'bold', textAlign: 'left' },
+      { role: 'body', hint: 'Click to add text', x: 0.07, y: 0.25, width: 0.41, fontSize: 0.035, fontWeight: 'normal', textAlign: 'left' },
+      { role: 'body2', hint: 'Click to add text', x: 0.52, y: 0.25, width: 0.41, fontSize: 0.035, fontWeight: 'normal', textAlign: 'left' },
+    ],
+  },
+  {
+    id: 'section-header',
+    name: 'Section Header',
+    placeholders: [
+      { role: 'title', hint: 'Click to add section title', x: 0.1, y: 0.4, width: 0.8, fontSize: 0.07, fontWeight: 'bold', textAlign: 'left' },
+      { role: 'subtitle', hint: 'Click to add description', x: 0.1, y: 0.6, width: 0.8, fontSize: 0.035, fontWeight: 'normal', textAlign: 'left' },
+    ],
+  },
+  {
+    id: 'blank',
+    name: 'Blank',
+    placeholders: [],
+  },
+];
+
+export const DEFAULT_FIRST_SLIDE_LAYOUT: SlideLayoutId = 'title';
+export const DEFAULT_SLIDE_LAYOUT: SlideLayoutId = 'title-content';
+
+export const getSlideLayout = (layoutId: string | undefined): SlideLayout | undefined =>
+  SLIDE_LAYOUTS.find(layout => layout.id === layoutId);
+
+// Geometry of a placeholder on a slide of the given size
+const placeholderGeometry = (definition: PlaceholderDefinition, slideSize: SlideSize) => ({
+  left: Math.round(definition.x * slideSize.width),
+  top: Math.round(definition.y * slideSize.height),
+  width: Math.round(definition.width * slideSize.width),
+  scaleX: 1,
+  scaleY: 1,
+  angle: 0,
+});
+
+const createPlaceholderObject = (definition: PlaceholderDefinition, slideSize: SlideSize, theme: PresentationTheme): SerializedObject => {
+  const fontSlot = definition.role === 'title' ? 'heading' : 'body';
+  return {
+    type: 'Textbox',
+    ...placeholderGeometry(definition, slideSize),
+    text: definition.hint,
+    fontSize: Math.round(definition.fontSize * slideSize.height),
+    fontFamily: theme.fonts[fontSlot],
+    fontSlot,
+    fontWeight: definition.fontWeight,
+    textAlign: definition.textAlign,
+    fill: theme.colors.text,
+    fillSlot: 'text',
+    opacity: PLACEHOLDER_HINT_OPACITY,
+    placeholder: definition.role,
+    placeholderHint: definition.hint,
+    placeholderEmpty: true,
+  };
+};
+
+// A filled placeholder that the new layout has no slot for stays on the slide as plain text
+export const detachPlaceholder = (obj: SerializedObject): SerializedObject => {
+  const { placeholder, placeholderHint, placeholderEmpty, ...rest } = obj;
+  return rest;
+};
+
+/** Fabric JSON of a new slide with the layout's placeholders */
+export const createLayoutCanvasData = (layoutId: string, slideSize: SlideSize, theme: PresentationTheme): string => {
+  const layout = getSlideLayout(layoutId);
+  return JSON.stringify({
+    objects: (layout?.placeholders ?? []).map(definition => createPlaceholderObject(definition, slideSize, theme)),
+    ...themeBackgroundJSON(theme, slideSize),
+  });
+};
+
+/**
+ * Rearrange a slide for another layout. Filled placeholders move into the new
+ * layout's placeholder with the same role and keep their text and formatting;
+ * other objects are left untouched.
+ */
+export const applyLayoutToCanvasData = (
+  canvasData: string,
+  layoutId: string,
+  slideSize: SlideSize,
+  theme: PresentationTheme
+): string => {
+  const data: SerializedCanvas = JSON.parse(canvasData);
+  const layout = getSlideLayout(layoutId);
+  const definitions = layout?.placeholders ?? [];
+  const objects = data.objects ?? [];
+
+  const filledByRole = new Map<string, SerializedObject>();
+  const otherObjects: SerializedObject[] = [];
+  objects.forEach(obj => {
+    if (!obj.placeholder) {
+      otherObjects.push(obj);
+    } else if (!obj.placeholderEmpty) {
+      if (filledByRole.has(obj.placeholder)) {
+        otherObjects.push(detachPlaceholder(obj));
+      } else {
+        filledByRole.set(obj.placeholder, obj);
+      }
+    }
+  });
+
+  const placeholders = definitions.map(definition => {
+    const filled = filledByRole.get(definition.role);
+    filledByRole.delete(definition.role);
+    return filled
+      ? { ...filled, ...placeholderGeometry(definition, slideSize) }
+      : createPlaceholderObject(definition, slideSize, theme);
+  });
+
+  // Placeholders sit at the back, like on a slide master
+  data.objects = [...placeholders, ...Array.from(filledByRole.values()).map(detachPlaceholder), ...otherObjects];
+  return JSON.stringify(data);
+};
+
+/** Drop placeholders that still show their hint, also inside groups; they are never presented or exported */
+export const removeEmptyPlaceholders = <T extends { objects?: SerializedObject[] }>(data: T): T => ({
+  ...data,
+  objects: (data.objects ?? [])
+    .filter(obj => !obj.placeholderEmpty)
+    .map(obj => (Array.isArray(obj.objects) ? removeEmptyPlaceholders(obj) : obj)),
+});
@@ -0,0 +1,208 @@
+import * as fabric from 'fabric';
+import { Slide, SlideSize } from '../../redux/presentationSlice';
+import { createOffscreenSlideCanvas } from '../slideRenderer';
+import { PdfDocument, PT_PER_PX, pdfNumber, pdfRef, winAnsiString, unicodeString } from './pdfDocument';
+
+// Resolution of the raster layer (shapes, images and text that cannot stay vector)
+const PRINT_DPI = 300;
+const JPEG_QUALITY = 0.92;
+
+// Standard PDF fonts for families with matching metrics: regular, bold, italic, bold italic
+const STANDARD_FONT_FAMILIES: { families: string[]; fonts: [string, string, string, string] }[] = [
+  {
+    families: ['arial', 'helvetica', 'liberation sans', 'arimo', 'sans-serif'],
+    fonts: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  },
+  {
+    families: ['times new roman', 'times', 'liberation serif', 'tinos', 'serif'],
+    fonts: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  },
+  {
+    families: ['courier new', 'courier', 'liberation mono', 'cousine', 'monospace'],
+    fonts: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique'],
+  },
+];
+
+const standardFontFor = (text: fabric.FabricText): string | null => {
+  const family = String(text.fontFamily ?? '').split(',')[0].trim().replace(/^['"]|['"]$/g, '').toLowerCase();
+  const match = STANDARD_FONT_FAMILIES.find(entry => entry.families.includes(family));
+  if (!match) return null;
+
+  const weight = String(text.fontWeight ?? 'normal');
+  const isBold = weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600;
+  const isItalic = text.fontStyle === 'italic' || text.fontStyle === 'oblique';
+  return match.fonts[(isBold ? 1 : 0) + (isItalic ? 2 : 0)];
+};
+
+const solidRgb = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const color = new fabric.Color(value);
+  if (color.isUnrecognised || color.getAlpha() !== 1) return null;
+  const [r, g, b] = color.getSource();
+  return `${pdfNumber(r / 255)} ${pdfNumber(g / 255)} ${pdfNumber(b / 255)}`;
+};
+
+const intersects = (a: fabric.TBBox, b: fabric.TBBox): boolean =>
+  a.left < b.left + b.width && b.left < a.left + a.width &&
+  a.top < b.top + b.height && b.top < a.top + a.height;
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Base font name -> resource name (F1, F2, ...), shared by all pages
+type FontResources = Map<string, string>;
+
+export class PdfExporter {
+  /**
+   * Build a PDF with one page per slide. Each page is a print-resolution
+   * raster of the slide, with plain text boxes drawn on top as real text.
+   */
+  static async generate(presentationName: string, slides: Slide[], slideSize: SlideSize): Promise<Blob> {
+    const doc = new PdfDocument();
+    const catalog = doc.reserve();
+    const pages = doc.reserve();
+    const fonts: FontResources = new Map();
+    const pageRefs: number[] = [];
+    const pendingPages: { page: number; width: number; height: number; content: number; image: number }[] = [];
+
+    for (const slide of slides) {
+      const canvas = await createOffscreenSlideCanvas(slide.canvasData, slideSize);
+      try {
+        const { content, image, width, height } = this.renderPage(doc, canvas, fonts);
+        const page = doc.reserve();
+        pageRefs.push(page);
+        pendingPages.push({ page, width, height, content, image });
+      } finally {
+        canvas.dispose();
+      }
+    }
+
+    const fontEntries = Array.from(fonts.entries()).map(([baseFont, resource]) => {
+      const font = doc.add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+      return `/${resource} ${pdfRef(font)}`;
+    });
+    const fontDictionary = fontEntries.length > 0 ? ` /Font << ${fontEntries.join(' ')} >>` : '';
+
+    for (const { page, width, height, content, image } of pendingPages) {
+      doc.set(page, [
+        '<< /Type /Page',
+        `/Parent ${pdfRef(pages)}`,
+        `/MediaBox [0 0 ${pdfNumber(width * PT_PER_PX)} ${pdfNumber(height * PT_PER_PX)}]`,
+        `/Resources << /XObject << /Im1 ${pdfRef(image)} >>${fontDictionary} >>`,
+        `/Contents ${pdfRef(content)}`,
+        '>>',
+      ].join('\n'));
+    }
+
+    doc.set(pages, `<< /Type /Pages /Kids [${pageRefs.map(pdfRef).join(' ')}] /Count ${pageRefs.length} >>`);
+    doc.set(catalog, `<< /Type /Catalog /Pages ${pdfRef(pages)} >>`);
+    const info = doc.add(`<< /Title ${unicodeString(presentationName)} /Producer ${unicodeString('Presentation App')} >>`);
+
+    return doc.toBlob(catalog, info);
+  }
+
+  private static renderPage(doc: PdfDocument, canvas: fabric.StaticCanvas, fonts: FontResources) {
+    const width = canvas.getWidth();
+    const height = canvas.getHeight();
+    const objects = canvas.getObjects();
+
+    // Text can only be lifted out of the raster if nothing is drawn over it
+    const textOperators: string[] = [];
+    objects.forEach((obj, index) => {
+      if (!(obj instanceof fabric.FabricText) || !obj.visible) return;
+      const bounds = obj.getBoundingRect();
+      const isCovered = objects.slice(index + 1).some(other => other.visible && intersects(bounds, other.getBoundingRect()));
+      if (isCovered) return;
+
+      const operators = this.textOperators(obj, fonts);
+      if (operators) {
+        textOperators.push(operators);
+        obj.visible = false;
+      }
+    });
+
+    // JPEG has no transparency, so an unset background must print as white
+    if (!canvas.backgroundColor) {
+      canvas.backgroundColor = '#ffffff';
+    }
+    const raster = canvas.toCanvasElement(PRINT_DPI / 96);
+    const image = doc.addStream(
+      `<< /Type /XObject /Subtype /Image /Width ${raster.width} /Height ${raster.height} ` +
+      '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode >>',
+      dataUrlToBytes(raster.toDataURL('image/jpeg', JPEG_QUALITY))
+    );
+
+    const pageWidth = width * PT_PER_PX;
+    const pageHeight = height * PT_PER_PX;
+    const content = doc.addStream('<< >>', [
+      `q ${pdfNumber(pageWidth)} 0 0 ${pdfNumber(pageHeight)} 0 0 cm /Im1 Do Q`,
+      // Text is placed in canvas pixels with the y axis pointing down
+      `q ${pdfNumber(PT_PER_PX)} 0 0 ${pdfNumber(-PT_PER_PX)} 0 ${pdfNumber(pageHeight)} cm`,
+      ...textOperators,
+      'Q',
+    ].join('\n'));
+
+    return { content, image, width, height };
+  }
+
+  /**
+   * Drawing operators for a text object using Fabric's own line layout, or
+   * null if it uses anything the standard fonts cannot reproduce.
+   */
+  private static textOperators(text: fabric.FabricText, fonts: FontResources): string | null {
+    if (
+      text.path ||
+      !text.isEmptyStyles() ||
+      text.charSpacing !== 0 ||
+      text.direction !== 'ltr' ||
+      text.textAlign.includes('justify') ||
+      text.underline || text.linethrough || text.overline ||
+      text.shadow ||
+      (text.stroke && text.strokeWidth > 0) ||
+      text.textBackgroundColor ||
+      text.backgroundColor ||
+      text.clipPath ||
+      text.opacity !== 1
+    ) {
+      return null;
+    }
+
+    const baseFont = standardFontFor(text);
+    const fill = solidRgb(text.fill);
+    if (!baseFont || !fill) return null;
+
+    const lines: string[] = [];
+    const left = text._getLeftOffset();
+    let top = text._getTopOffset();
+    for (let i = 0; i < text._textLines.length; i++) {
+      const encoded = winAnsiString(text._textLines[i].join(''));
+      if (encoded === null) return null;
+
+      // Same baseline as Fabric's _renderTextCommon/_renderChars
+      const heightOfLine = text.getHeightOfLine(i);
+      const baseline = top + heightOfLine / text.lineHeight - (heightOfLine * text._fontSizeFraction) / text.lineHeight;
+      const x = left + text._getLineLeftOffset(i);
+      if (encoded !== '()') {
+        lines.push(`1 0 0 -1 ${pdfNumber(x)} ${pdfNumber(baseline)} Tm ${encoded} Tj`);
+      }
+      top += heightOfLine;
+    }
+
+    if (!fonts.has(baseFont)) {
+      fonts.set(baseFont, `F${fonts.size + 1}`);
+    }
+    const matrix = text.calcTransformMatrix().map(pdfNumber).join(' ');
+    return [
+      `q ${matrix} cm ${fill} rg`,
+      `BT /${fonts.get(baseFont)} ${pdfNumber(text.fontSize)} Tf`,
+      ...lines,
+      'ET Q',
+    ].join('\n');
+  }
+}
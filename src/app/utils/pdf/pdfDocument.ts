@@ -0,0 +1,127 @@
+// Minimal PDF 1.4 object writer: numbered objects, streams and the cross-reference table
+
+export const PT_PER_PX = 0.75; // 96 DPI CSS pixels to 72 DPI points
+
+const encoder = new TextEncoder();
+
+// Characters 0x80-0x9F of WinAnsiEncoding; 0x20-0x7E and 0xA0-0xFF match Unicode
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86,
+  0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c,
+  0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95,
+  0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+/**
+ * Encode text as a PDF literal string in WinAnsiEncoding, as used by the
+ * standard fonts. Returns null if any character cannot be represented.
+ */
+export const winAnsiString = (text: string): string | null => {
+  let result = '(';
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    let code: number | undefined;
+    if ((codePoint >= 0x20 && codePoint <= 0x7e) || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+      code = codePoint;
+    } else {
+      code = WIN_ANSI_EXTRAS[codePoint];
+    }
+    if (code === undefined) return null;
+
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      result += `\\${String.fromCharCode(code)}`;
+    } else if (code > 0x7e) {
+      // Octal escapes keep content streams plain ASCII
+      result += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return `${result})`;
+};
+
+/** Encode any text as a UTF-16BE hex string, for document metadata */
+export const unicodeString = (text: string): string => {
+  let hex = '<FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `${hex}>`;
+};
+
+export const pdfNumber = (value: number): string => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+export const pdfRef = (objectNumber: number): string => `${objectNumber} 0 R`;
+
+export class PdfDocument {
+  private objects: (Uint8Array[] | null)[] = [];
+
+  /** Reserve an object number so it can be referenced before it is written */
+  reserve(): number {
+    this.objects.push(null);
+    return this.objects.length;
+  }
+
+  set(objectNumber: number, body: string): void {
+    this.objects[objectNumber - 1] = [encoder.encode(`${objectNumber} 0 obj\n${body}\nendobj\n`)];
+  }
+
+  setStream(objectNumber: number, dictionary: string, data: Uint8Array | string): void {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    const entries = dictionary.replace(/^<<|>>$/g, '').trim();
+    this.objects[objectNumber - 1] = [
+      encoder.encode(`${objectNumber} 0 obj\n<< ${entries ? `${entries} ` : ''}/Length ${bytes.length} >>\nstream\n`),
+      bytes,
+      encoder.encode('\nendstream\nendobj\n'),
+    ];
+  }
+
+  add(body: string): number {
+    const objectNumber = this.reserve();
+    this.set(objectNumber, body);
+    return objectNumber;
+  }
+
+  addStream(dictionary: string, data: Uint8Array | string): number {
+    const objectNumber = this.reserve();
+    this.setStream(objectNumber, dictionary, data);
+    return objectNumber;
+  }
+
+  toBlob(catalog: number, info?: number): Blob {
+    // The comment with high-bit bytes marks the file as containing binary data
+    const parts: Uint8Array[] = [encoder.encode('%PDF-1.4\n'), new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])];
+    let offset = parts.reduce((sum, part) => sum + part.length, 0);
+    const offsets: number[] = [];
+
+    this.objects.forEach((object, index) => {
+      if (!object) {
+        throw new Error(`PDF object ${index + 1} was reserved but never written`);
+      }
+      offsets.push(offset);
+      for (const part of object) {
+        parts.push(part);
+        offset += part.length;
+      }
+    });
+
+    const xref = [
+      'xref',
+      `0 ${this.objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(value => `${value.toString().padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${this.objects.length + 1} /Root ${pdfRef(catalog)}${info ? ` /Info ${pdfRef(info)}` : ''} >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    parts.push(encoder.encode(xref));
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,498 @@
+import PizZip from 'pizzip';
+import type { GradientOptions, SerializedLineProps, SerializedPathProps, SerializedPolylineProps, SerializedRectProps, SerializedTextProps, TSimplePathData } from 'fabric';
+import { Slide, SlideSize } from '../../redux/presentationSlice';
+import {
+  REL_TYPE,
+  NS_A,
+  NS_R,
+  NS_P,
+  IMAGE_EXTENSIONS,
+  PT_PER_PX,
+  Relationship,
+  pxToEmu,
+  escapeXml,
+  parseColor,
+  xmlDeclaration,
+  contentTypesXml,
+  relationshipsXml,
+  corePropsXml,
+  appPropsXml,
+  presentationXml,
+  presPropsXml,
+  viewPropsXml,
+  tableStylesXml,
+  slideMasterXml,
+  slideLayoutXml,
+  themeXml,
+} from './ooxml';
+import { Box, getObjectBox, getLineEndpoints, getPathOrigin } from './geometry';
+import { CELL_PADDING, TableData, anchorOf } from '../tables';
+import type { SerializedCanvas, SerializedObject } from '../slideRenderer';
+
+interface MediaFile {
+  path: string; // e.g. media/image1.png, relative to ppt/
+  extension: string;
+  base64: string;
+}
+
+// Per-slide writer state: shape ids and relationships are scoped to a slide part
+interface SlideContext {
+  nextShapeId: number;
+  relationships: Relationship[];
+  media: Map<string, MediaFile>;
+}
+
+// Serialized objects of one kind, as objectXml hands them on once it has checked their type
+type TextObject = SerializedObject & Partial<SerializedTextProps>;
+type RectObject = SerializedObject & Partial<SerializedRectProps>;
+type LineObject = SerializedObject & Partial<SerializedLineProps>;
+type PathObject = SerializedObject & Partial<SerializedPathProps>;
+type PolylineObject = SerializedObject & Partial<SerializedPolylineProps>;
+
+const colorFill = (value: unknown, opacity: number): string => {
+  const color = parseColor(value);
+  if (!color) return '<a:noFill/>';
+  const alpha = Math.round(color.alpha * opacity * 100000);
+  return alpha < 100000
+    ? `<a:solidFill><a:srgbClr val="${color.hex}"><a:alpha val="${alpha}"/></a:srgbClr></a:solidFill>`
+    : `<a:solidFill><a:srgbClr val="${color.hex}"/></a:solidFill>`;
+};
+
+const outline = (obj: SerializedObject, opacity: number): string => {
+  const color = parseColor(obj.stroke);
+  if (!color || !obj.strokeWidth) return '<a:ln><a:noFill/></a:ln>';
+  const scale = (Math.abs(obj.scaleX ?? 1) + Math.abs(obj.scaleY ?? 1)) / 2;
+  const width = pxToEmu(obj.strokeWidth * (obj.strokeUniform ? 1 : scale));
+  const cap = obj.strokeLineCap === 'round' ? ' cap="rnd"' : obj.strokeLineCap === 'square' ? ' cap="sq"' : '';
+  const dash = Array.isArray(obj.strokeDashArray) && obj.strokeDashArray.length > 0 ? '<a:prstDash val="dash"/>' : '';
+  return `<a:ln w="${width}"${cap}>${colorFill(obj.stroke, opacity)}${dash}</a:ln>`;
+};
+
+// Group children are positioned relative to the group's center, in unscaled group units
+const xfrm = (box: Box, childSize?: { width: number; height: number }): string => {
+  const rot = box.rotation ? ` rot="${Math.round((((box.rotation % 360) + 360) % 360) * 60000)}"` : '';
+  const flipH = box.flipH ? ' flipH="1"' : '';
+  const flipV = box.flipV ? ' flipV="1"' : '';
+  return `<a:xfrm${rot}${flipH}${flipV}>` +
+    `<a:off x="${pxToEmu(box.x)}" y="${pxToEmu(box.y)}"/>` +
+    `<a:ext cx="${Math.max(0, pxToEmu(box.width))}" cy="${Math.max(0, pxToEmu(box.height))}"/>` +
+    (childSize
+      ? `<a:chOff x="${pxToEmu(-childSize.width / 2)}" y="${pxToEmu(-childSize.height / 2)}"/>` +
+        `<a:chExt cx="${Math.max(0, pxToEmu(childSize.width))}" cy="${Math.max(0, pxToEmu(childSize.height))}"/>`
+      : '') +
+    '</a:xfrm>';
+};
+
+const nonVisualProps = (id: number, name: string, hidden: boolean): string =>
+  `<p:cNvPr id="${id}" name="${escapeXml(name)}"${hidden ? ' hidden="1"' : ''}/>`;
+
+export class PptxExporter {
+  /**
+   * Build an OOXML presentation package from the slides' Fabric JSON.
+   */
+  static generate(presentationName: string, slides: Slide[], size: SlideSize): Blob {
+    const zip = new PizZip();
+    const media = new Map<string, MediaFile>();
+    const slideRelIds: string[] = [];
+    const presentationRels: Relationship[] = [
+      { id: 'rId1', type: REL_TYPE.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+    ];
+
+    slides.forEach((slide, index) => {
+      const context: SlideContext = {
+        nextShapeId: 2,
+        relationships: [{ id: 'rId1', type: REL_TYPE.slideLayout, target: '../slideLayouts/slideLayout1.xml' }],
+        media,
+      };
+      const slideNumber = index + 1;
+      zip.file(`ppt/slides/slide${slideNumber}.xml`, this.slideXml(slide, context));
+      zip.file(`ppt/slides/_rels/slide${slideNumber}.xml.rels`, relationshipsXml(context.relationships));
+
+      const relId = `rId${slideNumber + 1}`;
+      slideRelIds.push(relId);
+      presentationRels.push({ id: relId, type: REL_TYPE.slide, target: `slides/slide${slideNumber}.xml` });
+    });
+
+    const nextRel = presentationRels.length + 1;
+    presentationRels.push(
+      { id: `rId${nextRel}`, type: REL_TYPE.theme, target: 'theme/theme1.xml' },
+      { id: `rId${nextRel + 1}`, type: REL_TYPE.presProps, target: 'presProps.xml' },
+      { id: `rId${nextRel + 2}`, type: REL_TYPE.viewProps, target: 'viewProps.xml' },
+      { id: `rId${nextRel + 3}`, type: REL_TYPE.tableStyles, target: 'tableStyles.xml' },
+    );
+
+    media.forEach(file => {
+      zip.file(`ppt/${file.path}`, file.base64, { base64: true });
+    });
+    const imageExtensions = Array.from(new Set(Array.from(media.values()).map(file => file.extension)));
+
+    zip.file('[Content_Types].xml', contentTypesXml(slides.length, imageExtensions));
+    zip.file('_rels/.rels', relationshipsXml([
+      { id: 'rId1', type: REL_TYPE.officeDocument, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: REL_TYPE.coreProperties, target: 'docProps/core.xml' },
+      { id: 'rId3', type: REL_TYPE.extendedProperties, target: 'docProps/app.xml' },
+    ]));
+    zip.file('docProps/core.xml', corePropsXml(presentationName));
+    zip.file('docProps/app.xml', appPropsXml(slides.length));
+    zip.file('ppt/presentation.xml', presentationXml(slideRelIds, pxToEmu(size.width), pxToEmu(size.height)));
+    zip.file('ppt/_rels/presentation.xml.rels', relationshipsXml(presentationRels));
+    zip.file('ppt/presProps.xml', presPropsXml());
+    zip.file('ppt/viewProps.xml', viewPropsXml());
+    zip.file('ppt/tableStyles.xml', tableStylesXml());
+    zip.file('ppt/slideMasters/slideMaster1.xml', slideMasterXml());
+    zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', relationshipsXml([
+      { id: 'rId1', type: REL_TYPE.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: REL_TYPE.theme, target: '../theme/theme1.xml' },
+    ]));
+    zip.file('ppt/slideLayouts/slideLayout1.xml', slideLayoutXml());
+    zip.file('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relationshipsXml([
+      { id: 'rId1', type: REL_TYPE.slideMaster, target: '../slideMasters/slideMaster1.xml' },
+    ]));
+    zip.file('ppt/theme/theme1.xml', themeXml());
+
+    return zip.generate({
+      type: 'blob',
+      mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      compression: 'DEFLATE',
+    });
+  }
+
+  private static slideXml(slide: Slide, context: SlideContext): string {
+    let canvasData: SerializedCanvas = {};
+    try {
+      canvasData = JSON.parse(slide.canvasData);
+    } catch (error) {
+      console.warn(`Skipping unreadable canvas data on slide "${slide.name}"`, error);
+    }
+
+    const backgroundXml = this.backgroundXml(canvasData, context);
+    // Empty layout placeholders only exist as editing hints
+    const shapes = (Array.isArray(canvasData.objects) ? canvasData.objects : [])
+      .filter(obj => !obj?.placeholderEmpty)
+      .map(obj => this.objectXml(obj, context))
+      .join('');
+
+    return xmlDeclaration +
+      `<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">` +
+      `<p:cSld name="${escapeXml(slide.name)}">` +
+      backgroundXml +
+      '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+      '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+      shapes +
+      '</p:spTree></p:cSld>' +
+      '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>' +
+      '</p:sld>';
+  }
+
+  // Slide background: a picture, a linear gradient or a solid color
+  private static backgroundXml(canvasData: SerializedCanvas, context: SlideContext): string {
+    const image = canvasData.backgroundImage;
+    const file = image ? this.registerMedia(image.src, context) : null;
+    if (image && file) {
+      const relId = `rId${context.relationships.length + 1}`;
+      context.relationships.push({ id: relId, type: REL_TYPE.image, target: `../${file.path}` });
+      // Themes centre the picture and crop the overflow evenly on both sides
+      const cropX = Math.max(0, Math.round((-(image.left ?? 0) / ((image.width ?? 1) * (image.scaleX ?? 1))) * 100000));
+      const cropY = Math.max(0, Math.round((-(image.top ?? 0) / ((image.height ?? 1) * (image.scaleY ?? 1))) * 100000));
+      return '<p:bg><p:bgPr>' +
+        `<a:blipFill dpi="0" rotWithShape="1"><a:blip r:embed="${relId}"/><a:srcRect l="${cropX}" t="${cropY}" r="${cropX}" b="${cropY}"/><a:stretch><a:fillRect/></a:stretch></a:blipFill>` +
+        '<a:effectLst/></p:bgPr></p:bg>';
+    }
+
+    const { background } = canvasData;
+    const gradient = typeof background === 'object' && background !== null ? (background as GradientOptions<'linear'>) : undefined;
+    if (gradient && Array.isArray(gradient.colorStops) && gradient.colorStops.length > 1) {
+      const stops = gradient.colorStops
+        .map(stop => {
+          const color = parseColor(stop.color);
+          return color ? `<a:gs pos="${Math.round((stop.offset ?? 0) * 100000)}"><a:srgbClr val="${color.hex}"/></a:gs>` : '';
+        })
+        .join('');
+      const { x1 = 0, y1 = 0, x2 = 1, y2 = 0 } = gradient.coords ?? {};
+      const angle = ((Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI + 360) % 360;
+      return '<p:bg><p:bgPr>' +
+        `<a:gradFill rotWithShape="1"><a:gsLst>${stops}</a:gsLst><a:lin ang="${Math.round(angle * 60000)}" scaled="0"/></a:gradFill>` +
+        '<a:effectLst/></p:bgPr></p:bg>';
+    }
+
+    return parseColor(background)
+      ? `<p:bg><p:bgPr>${colorFill(background, 1)}<a:effectLst/></p:bgPr></p:bg>`
+      : '';
+  }
+
+  private static objectXml(obj: SerializedObject, context: SlideContext): string {
+    // Tables are groups in the editor but real tables in PowerPoint
+    if (obj?.table) return this.tableXml(obj, obj.table, context);
+    switch (obj?.type?.toLowerCase()) {
+      case 'textbox':
+      case 'i-text':
+      case 'itext':
+      case 'text':
+        return this.textXml(obj as TextObject, context);
+      case 'rect': {
+        const rect = obj as RectObject;
+        return rect.rx || rect.ry
+          ? this.shapeXml(rect, 'roundRect', getObjectBox(rect), context, this.cornerAdjustment(rect))
+          : this.shapeXml(rect, 'rect', getObjectBox(rect), context);
+      }
+      case 'circle':
+      case 'ellipse':
+        return this.shapeXml(obj, 'ellipse', getObjectBox(obj), context);
+      case 'triangle':
+        return this.shapeXml(obj, 'triangle', getObjectBox(obj), context);
+      case 'line':
+        return this.lineXml(obj as LineObject, context);
+      case 'path': {
+        const { path } = obj as PathObject;
+        return this.pathXml(obj, context, Array.isArray(path) ? path : []);
+      }
+      case 'polygon':
+      case 'polyline':
+        return this.pathXml(obj, context, this.polygonCommands(obj as PolylineObject));
+      case 'image':
+        return this.pictureXml(obj, context);
+      case 'group':
+        return this.groupXml(obj, context);
+      default:
+        console.warn(`PPTX export: unsupported object type "${obj?.type}" was skipped`);
+        return '';
+    }
+  }
+
+  private static groupXml(obj: SerializedObject, context: SlideContext): string {
+    const id = context.nextShapeId++;
+    const children = (Array.isArray(obj.objects) ? obj.objects : [])
+      .filter(child => !child?.placeholderEmpty)
+      .map(child => this.objectXml(child, context))
+      .join('');
+    return '<p:grpSp>' +
+      `<p:nvGrpSpPr>${nonVisualProps(id, obj.layerName || `Group ${id}`, obj.visible === false)}<p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>` +
+      `<p:grpSpPr>${xfrm(getObjectBox(obj), { width: obj.width ?? 0, height: obj.height ?? 0 })}</p:grpSpPr>` +
+      children +
+      '</p:grpSp>';
+  }
+
+  // PowerPoint grows rows to fit their text as the editor does, so rows keep their
+  // set heights. Table frames cannot be turned, so rotation is dropped.
+  private static tableXml(obj: SerializedObject, data: TableData, context: SlideContext): string {
+    const id = context.nextShapeId++;
+    const opacity = obj.opacity ?? 1;
+    const scaleX = Math.abs(obj.scaleX ?? 1);
+    const scaleY = Math.abs(obj.scaleY ?? 1);
+    const box = getObjectBox(obj);
+    const padding = pxToEmu(CELL_PADDING);
+
+    const border = (side: string, color: string, width: number) => width > 0
+      ? `<a:${side} w="${pxToEmu(width)}">${colorFill(color, opacity)}</a:${side}>`
+      : `<a:${side} w="0"><a:noFill/></a:${side}>`;
+    const paragraphs = (text: string, isHeader: boolean) => {
+      const size = Math.round(data.fontSize * PT_PER_PX * 100);
+      const runProps =
+        `<a:rPr lang="en-US" sz="${size}"${isHeader ? ' b="1"' : ''} dirty="0">` +
+        colorFill(isHeader ? data.headerTextColor : data.textColor, opacity) +
+        `<a:latin typeface="${escapeXml(data.fontFamily)}"/>` +
+        '</a:rPr>';
+      return text
+        .split('\n')
+        .map(line => line
+          ? `<a:p><a:r>${runProps}<a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+          : `<a:p><a:endParaRPr lang="en-US" sz="${size}" dirty="0"/></a:p>`)
+        .join('');
+    };
+
+    const rows = data.cells.map((cells, row) => {
+      const isHeader = data.headerRow && row === 0;
+      const tableCells = cells.map((cell, col) => {
+        const [anchorRow, anchorCol] = anchorOf(data, row, col);
+        // Cells covered by a merge are still written, marked as continuing it
+        if (anchorRow !== row || anchorCol !== col) {
+          return `<a:tc${anchorCol < col ? ' hMerge="1"' : ''}${anchorRow < row ? ' vMerge="1"' : ''}>` +
+            '<a:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US" dirty="0"/></a:p></a:txBody><a:tcPr/></a:tc>';
+        }
+        const borderColor = cell.borderColor ?? data.borderColor;
+        const borderWidth = cell.borderWidth ?? data.borderWidth;
+        return `<a:tc${cell.colSpan ? ` gridSpan="${cell.colSpan}"` : ''}${cell.rowSpan ? ` rowSpan="${cell.rowSpan}"` : ''}>` +
+          `<a:txBody><a:bodyPr/><a:lstStyle/>${paragraphs(cell.text, isHeader)}</a:txBody>` +
+          `<a:tcPr marL="${padding}" marR="${padding}" marT="${padding}" marB="${padding}">` +
+          ['lnL', 'lnR', 'lnT', 'lnB'].map(side => border(side, borderColor, borderWidth)).join('') +
+          colorFill(cell.fill ?? (isHeader ? data.headerFill : data.fill), opacity) +
+          '</a:tcPr></a:tc>';
+      }).join('');
+      return `<a:tr h="${pxToEmu(data.rows[row] * scaleY)}">${tableCells}</a:tr>`;
+    }).join('');
+
+    return '<p:graphicFrame>' +
+      `<p:nvGraphicFramePr>${nonVisualProps(id, obj.layerName || `Table ${id}`, obj.visible === false)}<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>` +
+      `<p:xfrm><a:off x="${pxToEmu(box.x)}" y="${pxToEmu(box.y)}"/><a:ext cx="${pxToEmu(box.width)}" cy="${pxToEmu(box.height)}"/></p:xfrm>` +
+      '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl>' +
+      `<a:tblPr${data.headerRow ? ' firstRow="1"' : ''}/>` +
+      `<a:tblGrid>${data.columns.map(width => `<a:gridCol w="${pxToEmu(width * scaleX)}"/>`).join('')}</a:tblGrid>` +
+      rows +
+      '</a:tbl></a:graphicData></a:graphic>' +
+      '</p:graphicFrame>';
+  }
+
+  private static shapeXml(obj: SerializedObject, preset: string, box: Box, context: SlideContext, adjustments = ''): string {
+    const id = context.nextShapeId++;
+    const opacity = obj.opacity ?? 1;
+    return '<p:sp>' +
+      `<p:nvSpPr>${nonVisualProps(id, obj.layerName || `${preset} ${id}`, obj.visible === false)}<p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+      `<p:spPr>${xfrm(box)}<a:prstGeom prst="${preset}"><a:avLst>${adjustments}</a:avLst></a:prstGeom>` +
+      colorFill(obj.fill, opacity) +
+      outline(obj, opacity) +
+      '</p:spPr>' +
+      '</p:sp>';
+  }
+
+  // roundRect's adj is the corner radius as a fraction (x100000) of the shorter side
+  private static cornerAdjustment(obj: RectObject): string {
+    const shortSide = Math.min(obj.width ?? 0, obj.height ?? 0);
+    if (!shortSide) return '';
+    const radius = Math.max(obj.rx ?? 0, obj.ry ?? 0);
+    const value = Math.min(50000, Math.round((radius / shortSide) * 100000));
+    return `<a:gd name="adj" fmla="val ${value}"/>`;
+  }
+
+  private static lineXml(obj: LineObject, context: SlideContext): string {
+    const id = context.nextShapeId++;
+    const [start, end] = getLineEndpoints(obj);
+    const box: Box = {
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+      rotation: 0,
+      flipH: start.x > end.x,
+      flipV: start.y > end.y,
+    };
+    return '<p:cxnSp>' +
+      `<p:nvCxnSpPr>${nonVisualProps(id, obj.layerName || `Line ${id}`, obj.visible === false)}<p:cNvCxnSpPr/><p:nvPr/></p:nvCxnSpPr>` +
+      `<p:spPr>${xfrm(box)}<a:prstGeom prst="line"><a:avLst/></a:prstGeom>` +
+      outline(obj, obj.opacity ?? 1) +
+      '</p:spPr>' +
+      '</p:cxnSp>';
+  }
+
+  // Polygon points as the path commands that trace them, closed unless it is a polyline
+  private static polygonCommands(obj: PolylineObject): TSimplePathData {
+    const points = Array.isArray(obj.points) ? obj.points : [];
+    const commands: TSimplePathData = points.map((point, index) => [index === 0 ? 'M' : 'L', point.x, point.y]);
+    return obj.type?.toLowerCase() === 'polygon' && commands.length > 0 ? [...commands, ['Z']] : commands;
+  }
+
+  // Freehand drawings, library shapes and other paths, as custom geometry in the path's own units (x100 for precision)
+  private static pathXml(obj: SerializedObject, context: SlideContext, commands: TSimplePathData): string {
+    const id = context.nextShapeId++;
+    const origin = getPathOrigin(commands);
+    const unit = (value: number, start: number) => Math.round((value - start) * 100);
+    const point = (x: number, y: number) => `<a:pt x="${unit(x, origin.x)}" y="${unit(y, origin.y)}"/>`;
+    const points = (values: number[]) => {
+      const result: string[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) result.push(point(values[i], values[i + 1]));
+      return result.join('');
+    };
+    const segments = commands.map(([command, ...values]) => {
+      switch (command) {
+        case 'M':
+          return `<a:moveTo>${points(values)}</a:moveTo>`;
+        case 'L':
+          return `<a:lnTo>${points(values)}</a:lnTo>`;
+        case 'Q':
+          return `<a:quadBezTo>${points(values)}</a:quadBezTo>`;
+        case 'C':
+          return `<a:cubicBezTo>${points(values)}</a:cubicBezTo>`;
+        case 'Z':
+          return '<a:close/>';
+        default:
+          return '';
+      }
+    }).join('');
+    const width = Math.max(1, Math.round((obj.width ?? 0) * 100));
+    const height = Math.max(1, Math.round((obj.height ?? 0) * 100));
+    const opacity = obj.opacity ?? 1;
+    return '<p:sp>' +
+      `<p:nvSpPr>${nonVisualProps(id, obj.layerName || `${obj.brush ? 'Drawing' : obj.connector ? 'Connector' : 'Shape'} ${id}`, obj.visible === false)}<p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+      `<p:spPr>${xfrm(getObjectBox(obj))}` +
+      '<a:custGeom><a:avLst/><a:gdLst/><a:ahLst/><a:cxnLst/><a:rect l="0" t="0" r="r" b="b"/>' +
+      `<a:pathLst><a:path w="${width}" h="${height}"${obj.fill ? '' : ' fill="none"'}>${segments}</a:path></a:pathLst></a:custGeom>` +
+      colorFill(obj.fill, opacity) +
+      outline(obj, opacity) +
+      '</p:spPr>' +
+      '</p:sp>';
+  }
+
+  private static textXml(obj: TextObject, context: SlideContext): string {
+    const id = context.nextShapeId++;
+    const opacity = obj.opacity ?? 1;
+    const scale = Math.abs(obj.scaleY ?? 1);
+    const size = Math.round((obj.fontSize ?? 16) * scale * PT_PER_PX * 100);
+    const align = ({ left: 'l', center: 'ctr', right: 'r', justify: 'just' } as Record<string, string>)[obj.textAlign ?? 'left'] ?? 'l';
+    const runProps =
+      `<a:rPr lang="en-US" sz="${size}"` +
+      (obj.fontWeight === 'bold' || Number(obj.fontWeight) >= 600 ? ' b="1"' : '') +
+      (obj.fontStyle === 'italic' || obj.fontStyle === 'oblique' ? ' i="1"' : '') +
+      (obj.underline ? ' u="sng"' : '') +
+      (obj.linethrough ? ' strike="sngStrike"' : '') +
+      ' dirty="0">' +
+      colorFill(obj.fill, opacity) +
+      `<a:latin typeface="${escapeXml(String(obj.fontFamily ?? 'Arial'))}"/>` +
+      '</a:rPr>';
+
+    const paragraphs = String(obj.text ?? '')
+      .split('\n')
+      .map(line => line
+        ? `<a:p><a:pPr algn="${align}"/><a:r>${runProps}<a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+        : `<a:p><a:pPr algn="${align}"/><a:endParaRPr lang="en-US" sz="${size}" dirty="0"/></a:p>`)
+      .join('');
+
+    return '<p:sp>' +
+      `<p:nvSpPr>${nonVisualProps(id, obj.layerName || `TextBox ${id}`, obj.visible === false)}<p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+      `<p:spPr>${xfrm(getObjectBox(obj))}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+      colorFill(obj.backgroundColor, opacity) +
+      '</p:spPr>' +
+      '<p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" rtlCol="0"><a:noAutofit/></a:bodyPr><a:lstStyle/>' +
+      paragraphs +
+      '</p:txBody>' +
+      '</p:sp>';
+  }
+
+  private static pictureXml(obj: SerializedObject, context: SlideContext): string {
+    const file = this.registerMedia(obj.src, context);
+    if (!file) {
+      console.warn('PPTX export: image without embedded data was skipped');
+      return '';
+    }
+
+    const relId = `rId${context.relationships.length + 1}`;
+    context.relationships.push({ id: relId, type: REL_TYPE.image, target: `../${file.path}` });
+
+    const id = context.nextShapeId++;
+    const opacity = obj.opacity ?? 1;
+    const alpha = opacity < 1 ? `<a:alphaModFix amt="${Math.round(opacity * 100000)}"/>` : '';
+    return '<p:pic>' +
+      `<p:nvPicPr>${nonVisualProps(id, obj.layerName || `Picture ${id}`, obj.visible === false)}<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+      `<p:blipFill><a:blip r:embed="${relId}">${alpha}</a:blip><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+      `<p:spPr>${xfrm(getObjectBox(obj))}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${outline(obj, opacity)}</p:spPr>` +
+      '</p:pic>';
+  }
+
+  // Images are stored once per package even when several slides use them
+  private static registerMedia(src: unknown, context: SlideContext): MediaFile | null {
+    if (typeof src !== 'string') return null;
+    const existing = context.media.get(src);
+    if (existing) return existing;
+
+    const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(src);
+    if (!match) return null;
+    const extension = IMAGE_EXTENSIONS[match[1].toLowerCase()];
+    if (!extension) return null;
+
+    const file: MediaFile = {
+      path: `media/image${context.media.size + 1}.${extension}`,
+      extension,
+      base64: match[2],
+    };
+    context.media.set(src, file);
+    return file;
+  }
+}
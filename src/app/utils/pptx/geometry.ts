@@ -0,0 +1,155 @@
+// Conversions between Fabric object transforms and OOXML `a:xfrm` boxes
+
+import type { SerializedLineProps, TSimplePathData } from 'fabric';
+import type { SerializedObject } from '../slideRenderer';
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // degrees, clockwise around the box center
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const originFactor = (origin: unknown, fallback: number): number => {
+  if (typeof origin === 'number') return origin;
+  switch (origin) {
+    case 'left':
+    case 'top':
+      return 0;
+    case 'center':
+      return 0.5;
+    case 'right':
+    case 'bottom':
+      return 1;
+    default:
+      return fallback;
+  }
+};
+
+const rotate = (point: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+};
+
+/**
+ * Center of a serialized Fabric object in canvas coordinates. Fabric positions
+ * objects by their origin on the stroke-inclusive bounding box and rotates
+ * around that origin.
+ */
+export const getObjectCenter = (obj: SerializedObject): Point => {
+  const scaleX = Math.abs(obj.scaleX ?? 1);
+  const scaleY = Math.abs(obj.scaleY ?? 1);
+  const strokeWidth = obj.strokeWidth ?? 0;
+  const outerWidth = ((obj.width ?? 0) + strokeWidth) * scaleX;
+  const outerHeight = ((obj.height ?? 0) + strokeWidth) * scaleY;
+  const offset = rotate(
+    {
+      x: (0.5 - originFactor(obj.originX, 0)) * outerWidth,
+      y: (0.5 - originFactor(obj.originY, 0)) * outerHeight,
+    },
+    obj.angle ?? 0
+  );
+  return { x: (obj.left ?? 0) + offset.x, y: (obj.top ?? 0) + offset.y };
+};
+
+/**
+ * Geometry box (stroke excluded) of a serialized Fabric object, as used by DrawingML.
+ */
+export const getObjectBox = (obj: SerializedObject): Box => {
+  const center = getObjectCenter(obj);
+  const scaleX = obj.scaleX ?? 1;
+  const scaleY = obj.scaleY ?? 1;
+  const width = (obj.width ?? 0) * Math.abs(scaleX);
+  const height = (obj.height ?? 0) * Math.abs(scaleY);
+  return {
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+    rotation: obj.angle ?? 0,
+    flipH: Boolean(obj.flipX) !== scaleX < 0,
+    flipV: Boolean(obj.flipY) !== scaleY < 0,
+  };
+};
+
+/**
+ * Absolute endpoints of a serialized `fabric.Line`, whose x1..y2 are stored
+ * relative to the object center.
+ */
+export const getLineEndpoints = (obj: SerializedObject & Partial<SerializedLineProps>): [Point, Point] => {
+  const center = getObjectCenter(obj);
+  const scaleX = (obj.scaleX ?? 1) * (obj.flipX ? -1 : 1);
+  const scaleY = (obj.scaleY ?? 1) * (obj.flipY ? -1 : 1);
+  const toAbsolute = (x: number, y: number): Point => {
+    const rotated = rotate({ x: x * scaleX, y: y * scaleY }, obj.angle ?? 0);
+    return { x: center.x + rotated.x, y: center.y + rotated.y };
+  };
+  return [
+    toAbsolute(obj.x1 ?? 0, obj.y1 ?? 0),
+    toAbsolute(obj.x2 ?? 0, obj.y2 ?? 0),
+  ];
+};
+
+/**
+ * Fabric `left`/`top` (origin left/top) for an object whose geometry box and
+ * stroke are known, the inverse of `getObjectBox`.
+ */
+export const boxToFabricPosition = (box: Box, strokeWidth: number): Point => {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const offset = rotate(
+    { x: -(box.width + strokeWidth) / 2, y: -(box.height + strokeWidth) / 2 },
+    box.rotation
+  );
+  return { x: center.x + offset.x, y: center.y + offset.y };
+};
+
+// Steps used to find the extent of curve segments
+const CURVE_SAMPLES = 16;
+
+/**
+ * Top-left corner of a serialized `fabric.Path`'s own coordinates, i.e. the
+ * corner of the box its `width` and `height` measure. Fabric only stores the
+ * path commands (M, L, Q, C and Z once parsed), so the box is recomputed.
+ */
+export const getPathOrigin = (commands: TSimplePathData): Point => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let current: Point = { x: 0, y: 0 };
+  const include = (point: Point) => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+  };
+  commands.forEach(([command, ...values]) => {
+    if (command === 'Q' || command === 'C') {
+      const points = [current];
+      for (let i = 0; i < values.length; i += 2) points.push({ x: values[i], y: values[i + 1] });
+      // Bezier curves stay inside their control points but rarely reach them, so they are sampled
+      for (let step = 1; step <= CURVE_SAMPLES; step++) {
+        const t = step / CURVE_SAMPLES;
+        let level = points;
+        while (level.length > 1) {
+          level = level.slice(1).map((point, index) => ({
+            x: level[index].x + (point.x - level[index].x) * t,
+            y: level[index].y + (point.y - level[index].y) * t,
+          }));
+        }
+        include(level[0]);
+      }
+    }
+    if (values.length >= 2) {
+      current = { x: values[values.length - 2], y: values[values.length - 1] };
+      include(current);
+    }
+  });
+  return Number.isFinite(minX) ? { x: minX, y: minY } : { x: 0, y: 0 };
+};
@@ -0,0 +1,749 @@
+import PizZip from 'pizzip';
+import { Slide, SlideSize } from '../../redux/presentationSlice';
+import { DEFAULT_SLIDE_SIZE, isValidSlideSize } from '../slideSize';
+import { NS_A, NS_R, NS_P, PT_PER_PX, emuToPx } from './ooxml';
+import { Box, Point, boxToFabricPosition } from './geometry';
+import type { SerializedObject } from '../slideRenderer';
+
+export interface SlideImportReport {
+  slideNumber: number;
+  slideName: string;
+  skipped: string[]; // Human readable descriptions of elements that could not be imported
+}
+
+export interface PptxImportResult {
+  name: string | null;
+  slides: Slide[];
+  size: SlideSize; // Slide size the canvasData was laid out for
+  report: SlideImportReport[];
+}
+
+// Maps slide EMU coordinates onto the editor canvas
+interface Viewport {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Child coordinate space of a p:grpSp, applied to everything inside it
+interface GroupTransform {
+  offX: number;
+  offY: number;
+  chOffX: number;
+  chOffY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+interface Part {
+  path: string;
+  doc: Document;
+  rels: Map<string, string>; // relationship id -> absolute part path
+}
+
+interface SlideContext {
+  zip: PizZip;
+  slidePart: Part;
+  layoutPart: Part | null;
+  masterPart: Part | null;
+  colors: Record<string, string>; // scheme slot (after clrMap) -> RRGGBB
+  viewport: Viewport;
+  skipped: string[];
+  images: Promise<void>[];
+}
+
+const PRESET_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF',
+  yellow: 'FFFF00', gray: '808080', orange: 'FFA500', purple: '800080',
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+  bmp: 'image/bmp', svg: 'image/svg+xml', webp: 'image/webp',
+};
+
+// Direct element children in a namespace, optionally filtered by local name
+const children = (el: Element | null, ns: string, name?: string): Element[] =>
+  el ? Array.from(el.children).filter(c => c.namespaceURI === ns && (!name || c.localName === name)) : [];
+
+const child = (el: Element | null, ns: string, name: string): Element | null =>
+  children(el, ns, name)[0] ?? null;
+
+const path = (el: Element | null, steps: [string, string][]): Element | null =>
+  steps.reduce<Element | null>((current, [ns, name]) => child(current, ns, name), el);
+
+const numberAttr = (el: Element | null, name: string, fallback = 0): number => {
+  const value = el?.getAttribute(name);
+  return value != null && value !== '' ? Number(value) : fallback;
+};
+
+const resolvePartPath = (basePath: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = basePath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+const relsPathFor = (partPath: string): string => {
+  const segments = partPath.split('/');
+  const fileName = segments.pop();
+  return [...segments, '_rels', `${fileName}.rels`].join('/');
+};
+
+const generateSlideId = (index: number): string =>
+  `slide-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`;
+
+const adjustLuminance = (hex: string, lumMod: number, lumOff: number): string => {
+  const rgb = [0, 2, 4].map(i => parseInt(hex.substr(i, 2), 16) / 255);
+  const max = Math.max(...rgb);
+  const min = Math.min(...rgb);
+  let h = 0;
+  let s = 0;
+  let l = (max + min) / 2;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === rgb[0]) h = ((rgb[1] - rgb[2]) / d + (rgb[1] < rgb[2] ? 6 : 0)) / 6;
+    else if (max === rgb[1]) h = ((rgb[2] - rgb[0]) / d + 2) / 6;
+    else h = ((rgb[0] - rgb[1]) / d + 4) / 6;
+  }
+  l = Math.min(1, Math.max(0, l * lumMod + lumOff));
+
+  const hueToRgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const result = s === 0 ? [l, l, l] : [hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3)];
+  return result.map(v => Math.round(v * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+const loadImageSize = (src: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth || 1, height: img.naturalHeight || 1 });
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+
+export class PptxImporter {
+  /**
+   * Convert a .pptx package into slides whose canvasData is Fabric JSON sized
+   * for `target`, or for the deck's own page size when none is given. Elements
+   * that cannot be represented are listed in the per-slide report instead of
+   * aborting the import.
+   */
+  static async parse(data: ArrayBuffer, target?: SlideSize): Promise<PptxImportResult> {
+    const zip = new PizZip(data);
+    const presentation = this.readPart(zip, 'ppt/presentation.xml');
+    if (!presentation) {
+      throw new Error('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+    }
+
+    const slideSize = path(presentation.doc.documentElement, [[NS_P, 'sldSz']]);
+    const widthPx = emuToPx(numberAttr(slideSize, 'cx', 9144000));
+    const heightPx = emuToPx(numberAttr(slideSize, 'cy', 6858000));
+    const deckSize = { width: Math.round(widthPx), height: Math.round(heightPx) };
+    // Page sizes the editor cannot handle are letterboxed onto the default slide
+    const size = target ?? (isValidSlideSize(deckSize) ? deckSize : DEFAULT_SLIDE_SIZE);
+    const scale = Math.min(size.width / widthPx, size.height / heightPx);
+    const viewport: Viewport = {
+      scale,
+      offsetX: (size.width - widthPx * scale) / 2,
+      offsetY: (size.height - heightPx * scale) / 2,
+    };
+
+    const slidePaths = children(path(presentation.doc.documentElement, [[NS_P, 'sldIdLst']]), NS_P, 'sldId')
+      .map(sldId => presentation.rels.get(sldId.getAttributeNS(NS_R, 'id') ?? ''))
+      .filter((slidePath): slidePath is string => Boolean(slidePath));
+
+    const slides: Slide[] = [];
+    const report: SlideImportReport[] = [];
+
+    for (let index = 0; index < slidePaths.length; index++) {
+      const slideNumber = index + 1;
+      const slidePart = this.readPart(zip, slidePaths[index]);
+      if (!slidePart) {
+        report.push({ slideNumber, slideName: `Slide ${slideNumber}`, skipped: ['Slide part could not be read'] });
+        continue;
+      }
+
+      try {
+        const { slide, skipped } = await this.parseSlide(zip, slidePart, viewport, size, index);
+        slides.push(slide);
+        if (skipped.length > 0) {
+          report.push({ slideNumber, slideName: slide.name, skipped });
+        }
+      } catch (error) {
+        console.error(`Error importing slide ${slideNumber}:`, error);
+        report.push({ slideNumber, slideName: `Slide ${slideNumber}`, skipped: ['Slide could not be parsed'] });
+      }
+    }
+
+    const core = this.readPart(zip, 'docProps/core.xml');
+    const title = core?.doc.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', 'title')[0]?.textContent?.trim();
+
+    return { name: title || null, slides, size, report };
+  }
+
+  private static readPart(zip: PizZip, partPath: string): Part | null {
+    const file = zip.file(partPath);
+    if (!file) return null;
+
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(file.asText(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return null;
+
+    const rels = new Map<string, string>();
+    const relsFile = zip.file(relsPathFor(partPath));
+    if (relsFile) {
+      const relsDoc = parser.parseFromString(relsFile.asText(), 'application/xml');
+      Array.from(relsDoc.getElementsByTagName('Relationship')).forEach(rel => {
+        const id = rel.getAttribute('Id');
+        const target = rel.getAttribute('Target');
+        if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+          rels.set(id, resolvePartPath(partPath, target));
+        }
+      });
+    }
+    return { path: partPath, doc, rels };
+  }
+
+  // Follow the first relationship of a given type suffix, e.g. slide -> slideLayout
+  private static relatedPart(zip: PizZip, part: Part | null, typeSuffix: string): Part | null {
+    if (!part) return null;
+    const relsFile = zip.file(relsPathFor(part.path));
+    if (!relsFile) return null;
+    const relsDoc = new DOMParser().parseFromString(relsFile.asText(), 'application/xml');
+    const rel = Array.from(relsDoc.getElementsByTagName('Relationship'))
+      .find(r => (r.getAttribute('Type') ?? '').endsWith(`/${typeSuffix}`));
+    const target = rel?.getAttribute('Target');
+    return target ? this.readPart(zip, resolvePartPath(part.path, target)) : null;
+  }
+
+  private static async parseSlide(
+    zip: PizZip,
+    slidePart: Part,
+    viewport: Viewport,
+    target: SlideSize,
+    index: number
+  ): Promise<{ slide: Slide; skipped: string[] }> {
+    const layoutPart = this.relatedPart(zip, slidePart, 'slideLayout');
+    const masterPart = this.relatedPart(zip, layoutPart, 'slideMaster');
+    const themePart = this.relatedPart(zip, masterPart, 'theme');
+
+    const context: SlideContext = {
+      zip,
+      slidePart,
+      layoutPart,
+      masterPart,
+      colors: this.buildColorMap(themePart, masterPart),
+      viewport,
+      skipped: [],
+      images: [],
+    };
+
+    const cSld = child(slidePart.doc.documentElement, NS_P, 'cSld');
+    const objects: (SerializedObject | null)[] = [];
+    this.collectShapes(child(cSld, NS_P, 'spTree'), null, context, objects);
+    await Promise.all(context.images);
+
+    const background = this.resolveBackground(context);
+    const title = this.findTitle(cSld);
+    const timestamp = Date.now();
+    const slide: Slide = {
+      id: generateSlideId(index),
+      name: title || cSld?.getAttribute('name') || `Slide ${index + 1}`,
+      canvasData: JSON.stringify({
+        objects: objects.filter(obj => obj !== null),
+        background: background ?? '#ffffff',
+        width: target.width,
+        height: target.height,
+      }),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    return { slide, skipped: context.skipped };
+  }
+
+  private static buildColorMap(themePart: Part | null, masterPart: Part | null): Record<string, string> {
+    const scheme: Record<string, string> = {};
+    const clrScheme = themePart?.doc.getElementsByTagNameNS(NS_A, 'clrScheme')[0] ?? null;
+    children(clrScheme, NS_A).forEach(slot => {
+      const value = child(slot, NS_A, 'srgbClr')?.getAttribute('val') ?? child(slot, NS_A, 'sysClr')?.getAttribute('lastClr');
+      if (value) scheme[slot.localName] = value.toUpperCase();
+    });
+
+    // Slide-level names such as bg1/tx1 are aliases defined by the master's clrMap
+    const colors: Record<string, string> = { ...scheme };
+    const clrMap = path(masterPart?.doc.documentElement ?? null, [[NS_P, 'clrMap']]);
+    Array.from(clrMap?.attributes ?? []).forEach(attr => {
+      if (scheme[attr.value]) colors[attr.name] = scheme[attr.value];
+    });
+    colors.bg1 ??= scheme.lt1 ?? 'FFFFFF';
+    colors.tx1 ??= scheme.dk1 ?? '000000';
+    colors.bg2 ??= scheme.lt2 ?? 'EEEEEE';
+    colors.tx2 ??= scheme.dk2 ?? '333333';
+    return colors;
+  }
+
+  // Resolve the color element inside a fill/color container into a CSS color
+  private static resolveColor(container: Element | null, context: SlideContext): string | null {
+    const colorEl = children(container, NS_A).find(el =>
+      ['srgbClr', 'schemeClr', 'sysClr', 'prstClr', 'scrgbClr'].includes(el.localName));
+    if (!colorEl) return null;
+
+    let hex: string | undefined;
+    switch (colorEl.localName) {
+      case 'srgbClr':
+        hex = colorEl.getAttribute('val') ?? undefined;
+        break;
+      case 'schemeClr':
+        hex = context.colors[colorEl.getAttribute('val') ?? ''];
+        break;
+      case 'sysClr':
+        hex = colorEl.getAttribute('lastClr') ?? (colorEl.getAttribute('val') === 'window' ? 'FFFFFF' : '000000');
+        break;
+      case 'prstClr':
+        hex = PRESET_COLORS[colorEl.getAttribute('val') ?? ''];
+        break;
+      case 'scrgbClr':
+        hex = ['r', 'g', 'b']
+          .map(c => Math.round((numberAttr(colorEl, c) / 100000) * 255).toString(16).padStart(2, '0'))
+          .join('');
+        break;
+    }
+    if (!hex) return null;
+
+    const lumMod = child(colorEl, NS_A, 'lumMod');
+    const lumOff = child(colorEl, NS_A, 'lumOff');
+    if (lumMod || lumOff) {
+      hex = adjustLuminance(hex, numberAttr(lumMod, 'val', 100000) / 100000, numberAttr(lumOff, 'val', 0) / 100000);
+    }
+
+    const alpha = child(colorEl, NS_A, 'alpha');
+    if (alpha) {
+      const [r, g, b] = [0, 2, 4].map(i => parseInt(hex!.substr(i, 2), 16));
+      return `rgba(${r},${g},${b},${numberAttr(alpha, 'val', 100000) / 100000})`;
+    }
+    return `#${hex.toUpperCase()}`;
+  }
+
+  /**
+   * Fill of a shape property container. `undefined` means no explicit fill was
+   * given (use the style reference); `null` means explicitly unfilled.
+   */
+  private static resolveFill(container: Element | null, context: SlideContext, description: string): string | null | undefined {
+    if (child(container, NS_A, 'noFill')) return null;
+    const solid = child(container, NS_A, 'solidFill');
+    if (solid) return this.resolveColor(solid, context);
+    const gradient = child(container, NS_A, 'gradFill');
+    if (gradient) {
+      context.skipped.push(`${description}: gradient fill replaced by its first color`);
+      return this.resolveColor(gradient.getElementsByTagNameNS(NS_A, 'gs')[0] ?? null, context);
+    }
+    if (child(container, NS_A, 'blipFill') || child(container, NS_A, 'pattFill')) {
+      context.skipped.push(`${description}: picture or pattern fill was not imported`);
+      return null;
+    }
+    return undefined;
+  }
+
+  private static resolveBackground(context: SlideContext): string | null {
+    for (const part of [context.slidePart, context.layoutPart, context.masterPart]) {
+      const bg = path(part?.doc.documentElement ?? null, [[NS_P, 'cSld'], [NS_P, 'bg']]);
+      if (!bg) continue;
+      const bgPr = child(bg, NS_P, 'bgPr');
+      if (bgPr) {
+        const fill = this.resolveFill(bgPr, context, 'Background');
+        if (fill !== undefined) return fill;
+      }
+      const bgRef = child(bg, NS_P, 'bgRef');
+      if (bgRef) return this.resolveColor(bgRef, context);
+    }
+    return null;
+  }
+
+  private static findTitle(cSld: Element | null): string | null {
+    const shapes = cSld?.getElementsByTagNameNS(NS_P, 'sp') ?? [];
+    for (const shape of Array.from(shapes)) {
+      const type = path(shape, [[NS_P, 'nvSpPr'], [NS_P, 'nvPr'], [NS_P, 'ph']])?.getAttribute('type');
+      if (type === 'title' || type === 'ctrTitle') {
+        const text = this.readParagraphs(child(shape, NS_P, 'txBody')).map(p => p.text).join(' ').trim();
+        if (text) return text;
+      }
+    }
+    return null;
+  }
+
+  private static collectShapes(
+    container: Element | null,
+    group: GroupTransform | null,
+    context: SlideContext,
+    objects: (SerializedObject | null)[]
+  ): void {
+    children(container, NS_P).forEach(el => {
+      switch (el.localName) {
+        case 'sp':
+          objects.push(...this.convertShape(el, group, context));
+          break;
+        case 'cxnSp':
+          objects.push(this.convertConnector(el, group, context));
+          break;
+        case 'pic':
+          objects.push(this.convertPicture(el, group, context));
+          break;
+        case 'grpSp':
+          this.collectShapes(el, this.composeGroup(el, group), context, objects);
+          break;
+        case 'graphicFrame': {
+          const uri = el.getElementsByTagNameNS(NS_A, 'graphicData')[0]?.getAttribute('uri') ?? '';
+          const kind = uri.endsWith('/table') ? 'Table' : uri.endsWith('/chart') ? 'Chart' : uri.includes('diagram') ? 'SmartArt' : 'Embedded object';
+          context.skipped.push(`${kind} "${this.shapeName(el)}" is not supported`);
+          break;
+        }
+        case 'nvGrpSpPr':
+        case 'grpSpPr':
+        case 'extLst':
+          break;
+        default:
+          context.skipped.push(`Unsupported element <p:${el.localName}>`);
+      }
+    });
+  }
+
+  private static composeGroup(grpSp: Element, parent: GroupTransform | null): GroupTransform {
+    const xfrm = path(grpSp, [[NS_P, 'grpSpPr'], [NS_A, 'xfrm']]);
+    const off = child(xfrm, NS_A, 'off');
+    const ext = child(xfrm, NS_A, 'ext');
+    const chOff = child(xfrm, NS_A, 'chOff');
+    const chExt = child(xfrm, NS_A, 'chExt');
+    const local: GroupTransform = {
+      offX: numberAttr(off, 'x'),
+      offY: numberAttr(off, 'y'),
+      chOffX: numberAttr(chOff, 'x'),
+      chOffY: numberAttr(chOff, 'y'),
+      scaleX: numberAttr(chExt, 'cx') ? numberAttr(ext, 'cx') / numberAttr(chExt, 'cx') : 1,
+      scaleY: numberAttr(chExt, 'cy') ? numberAttr(ext, 'cy') / numberAttr(chExt, 'cy') : 1,
+    };
+    if (!parent) return local;
+
+    // Express the nested group's child space directly in slide space
+    return {
+      offX: parent.offX + (local.offX - parent.chOffX) * parent.scaleX,
+      offY: parent.offY + (local.offY - parent.chOffY) * parent.scaleY,
+      chOffX: local.chOffX,
+      chOffY: local.chOffY,
+      scaleX: local.scaleX * parent.scaleX,
+      scaleY: local.scaleY * parent.scaleY,
+    };
+  }
+
+  private static shapeName(el: Element): string {
+    const cNvPr = el.getElementsByTagNameNS(NS_P, 'cNvPr')[0];
+    return cNvPr?.getAttribute('name') || el.localName;
+  }
+
+  private static placeholderOf(el: Element): Element | null {
+    const nv = children(el, NS_P).find(c => c.localName.startsWith('nv'));
+    return path(nv ?? null, [[NS_P, 'nvPr'], [NS_P, 'ph']]);
+  }
+
+  // Placeholders usually inherit their position from the layout or master
+  private static inheritedXfrm(ph: Element, context: SlideContext): Element | null {
+    const type = ph.getAttribute('type') ?? 'body';
+    const idx = ph.getAttribute('idx');
+    for (const part of [context.layoutPart, context.masterPart]) {
+      const candidates = Array.from(part?.doc.getElementsByTagNameNS(NS_P, 'sp') ?? []);
+      const match =
+        candidates.find(sp => idx != null && this.placeholderOf(sp)?.getAttribute('idx') === idx) ??
+        candidates.find(sp => (this.placeholderOf(sp)?.getAttribute('type') ?? 'body') === type && this.placeholderOf(sp) != null);
+      const xfrm = match ? path(match, [[NS_P, 'spPr'], [NS_A, 'xfrm']]) : null;
+      if (xfrm) return xfrm;
+    }
+    return null;
+  }
+
+  private static readBox(xfrm: Element | null, group: GroupTransform | null, context: SlideContext): Box | null {
+    const off = child(xfrm, NS_A, 'off');
+    const ext = child(xfrm, NS_A, 'ext');
+    if (!off || !ext) return null;
+
+    let x = numberAttr(off, 'x');
+    let y = numberAttr(off, 'y');
+    let cx = numberAttr(ext, 'cx');
+    let cy = numberAttr(ext, 'cy');
+    if (group) {
+      x = group.offX + (x - group.chOffX) * group.scaleX;
+      y = group.offY + (y - group.chOffY) * group.scaleY;
+      cx *= group.scaleX;
+      cy *= group.scaleY;
+    }
+
+    const { scale, offsetX, offsetY } = context.viewport;
+    return {
+      x: emuToPx(x) * scale + offsetX,
+      y: emuToPx(y) * scale + offsetY,
+      width: emuToPx(cx) * scale,
+      height: emuToPx(cy) * scale,
+      rotation: numberAttr(xfrm, 'rot') / 60000,
+      flipH: xfrm?.getAttribute('flipH') === '1',
+      flipV: xfrm?.getAttribute('flipV') === '1',
+    };
+  }
+
+  private static shapeBox(el: Element, propsName: string, group: GroupTransform | null, context: SlideContext): Box | null {
+    const xfrm = path(el, [[NS_P, propsName], [NS_A, 'xfrm']]);
+    if (xfrm) return this.readBox(xfrm, group, context);
+    const ph = this.placeholderOf(el);
+    return ph ? this.readBox(this.inheritedXfrm(ph, context), group, context) : null;
+  }
+
+  private static strokeOf(el: Element, context: SlideContext, description: string): { stroke: string | null; strokeWidth: number } {
+    const ln = path(el, [[NS_P, 'spPr'], [NS_A, 'ln']]);
+    const styleRef = path(el, [[NS_P, 'style'], [NS_A, 'lnRef']]);
+    const explicit = this.resolveFill(ln, context, description);
+    const stroke = explicit !== undefined
+      ? explicit
+      : styleRef && numberAttr(styleRef, 'idx') > 0 ? this.resolveColor(styleRef, context) : null;
+    const widthEmu = numberAttr(ln, 'w', 12700);
+    return { stroke, strokeWidth: stroke ? Math.max(1, emuToPx(widthEmu) * context.viewport.scale) : 0 };
+  }
+
+  private static visibility(el: Element): { visible: boolean } {
+    const cNvPr = el.getElementsByTagNameNS(NS_P, 'cNvPr')[0];
+    return { visible: cNvPr?.getAttribute('hidden') !== '1' };
+  }
+
+  private static convertShape(sp: Element, group: GroupTransform | null, context: SlideContext): SerializedObject[] {
+    const description = `Shape "${this.shapeName(sp)}"`;
+    const box = this.shapeBox(sp, 'spPr', group, context);
+    if (!box) {
+      context.skipped.push(`${description} has no position`);
+      return [];
+    }
+
+    const spPr = child(sp, NS_P, 'spPr');
+    const preset = child(spPr, NS_A, 'prstGeom')?.getAttribute('prst') ?? (child(spPr, NS_A, 'custGeom') ? 'custom' : 'rect');
+    const explicitFill = this.resolveFill(spPr, context, description);
+    const fillRef = path(sp, [[NS_P, 'style'], [NS_A, 'fillRef']]);
+    const fill = explicitFill !== undefined
+      ? explicitFill
+      : fillRef && numberAttr(fillRef, 'idx') > 0 ? this.resolveColor(fillRef, context) : null;
+    const { stroke, strokeWidth } = this.strokeOf(sp, context, description);
+
+    const objects: SerializedObject[] = [];
+    const hasGeometry = fill || stroke;
+    if (hasGeometry) {
+      const geometry = this.convertGeometry(preset, box, { fill, stroke, strokeWidth, ...this.visibility(sp) }, sp);
+      if (geometry) {
+        objects.push(geometry);
+      } else {
+        context.skipped.push(`${description}: "${preset}" geometry is not supported, only its text was imported`);
+      }
+    }
+
+    const text = this.convertText(sp, box, context);
+    if (text) objects.push(text);
+    return objects;
+  }
+
+  private static convertGeometry(preset: string, box: Box, style: { fill: string | null; stroke: string | null; strokeWidth: number; visible: boolean }, sp: Element): SerializedObject | null {
+    const position = boxToFabricPosition(box, style.strokeWidth);
+    const common = {
+      left: position.x,
+      top: position.y,
+      angle: box.rotation,
+      flipX: box.flipH,
+      flipY: box.flipV,
+      fill: style.fill ?? 'transparent',
+      stroke: style.stroke,
+      strokeWidth: style.strokeWidth,
+      visible: style.visible,
+    };
+
+    switch (preset) {
+      case 'rect':
+        return { type: 'Rect', ...common, width: box.width, height: box.height };
+      case 'roundRect': {
+        const adj = sp.getElementsByTagNameNS(NS_A, 'gd')[0]?.getAttribute('fmla');
+        const ratio = adj?.startsWith('val ') ? Number(adj.slice(4)) / 100000 : 0.16667;
+        const radius = Math.min(box.width, box.height) * ratio;
+        return { type: 'Rect', ...common, width: box.width, height: box.height, rx: radius, ry: radius };
+      }
+      case 'ellipse':
+        return { type: 'Ellipse', ...common, rx: box.width / 2, ry: box.height / 2, width: box.width, height: box.height };
+      case 'triangle':
+        return { type: 'Triangle', ...common, width: box.width, height: box.height };
+      case 'line':
+      case 'straightConnector1':
+        return this.lineFromBox(box, style);
+      default:
+        return null;
+    }
+  }
+
+  private static lineFromBox(box: Box, style: { stroke: string | null; strokeWidth: number; visible: boolean }): SerializedObject {
+    const start: Point = { x: box.flipH ? box.x + box.width : box.x, y: box.flipV ? box.y + box.height : box.y };
+    const end: Point = { x: box.flipH ? box.x : box.x + box.width, y: box.flipV ? box.y : box.y + box.height };
+    const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    const rad = (box.rotation * Math.PI) / 180;
+    const rotate = (p: Point): Point => ({
+      x: center.x + (p.x - center.x) * Math.cos(rad) - (p.y - center.y) * Math.sin(rad),
+      y: center.y + (p.x - center.x) * Math.sin(rad) + (p.y - center.y) * Math.cos(rad),
+    });
+    const a = rotate(start);
+    const b = rotate(end);
+    const width = Math.abs(b.x - a.x);
+    const height = Math.abs(b.y - a.y);
+    return {
+      type: 'Line',
+      left: Math.min(a.x, b.x) - style.strokeWidth / 2,
+      top: Math.min(a.y, b.y) - style.strokeWidth / 2,
+      width,
+      height,
+      x1: a.x - (Math.min(a.x, b.x) + width / 2),
+      y1: a.y - (Math.min(a.y, b.y) + height / 2),
+      x2: b.x - (Math.min(a.x, b.x) + width / 2),
+      y2: b.y - (Math.min(a.y, b.y) + height / 2),
+      stroke: style.stroke ?? '#000000',
+      strokeWidth: style.strokeWidth || 1,
+      strokeLineCap: 'round',
+      visible: style.visible,
+    };
+  }
+
+  private static convertConnector(cxnSp: Element, group: GroupTransform | null, context: SlideContext): SerializedObject | null {
+    const description = `Connector "${this.shapeName(cxnSp)}"`;
+    const box = this.shapeBox(cxnSp, 'spPr', group, context);
+    if (!box) {
+      context.skipped.push(`${description} has no position`);
+      return null;
+    }
+    const preset = path(cxnSp, [[NS_P, 'spPr'], [NS_A, 'prstGeom']])?.getAttribute('prst') ?? 'line';
+    if (preset !== 'line' && preset !== 'straightConnector1') {
+      context.skipped.push(`${description}: "${preset}" was imported as a straight line`);
+    }
+    const { stroke, strokeWidth } = this.strokeOf(cxnSp, context, description);
+    return this.lineFromBox(box, { stroke: stroke ?? '#000000', strokeWidth, ...this.visibility(cxnSp) });
+  }
+
+  private static convertPicture(pic: Element, group: GroupTransform | null, context: SlideContext): SerializedObject | null {
+    const description = `Picture "${this.shapeName(pic)}"`;
+    const box = this.shapeBox(pic, 'spPr', group, context);
+    const blip = pic.getElementsByTagNameNS(NS_A, 'blip')[0];
+    const mediaPath = context.slidePart.rels.get(blip?.getAttributeNS(NS_R, 'embed') ?? '');
+    if (!box || !mediaPath) {
+      context.skipped.push(`${description} has no embedded image`);
+      return null;
+    }
+
+    const extension = mediaPath.split('.').pop()?.toLowerCase() ?? '';
+    const mime = MIME_BY_EXTENSION[extension];
+    const media = context.zip.file(mediaPath);
+    if (!mime || !media) {
+      context.skipped.push(`${description}: .${extension} images are not supported`);
+      return null;
+    }
+
+    const src = `data:${mime};base64,${btoa(media.asBinary())}`;
+    const image: SerializedObject = {
+      type: 'Image',
+      src,
+      angle: box.rotation,
+      flipX: box.flipH,
+      flipY: box.flipV,
+      strokeWidth: 0,
+      ...this.visibility(pic),
+    };
+
+    // Fabric crops by the element's natural size, so scale from it to the box
+    context.images.push(
+      loadImageSize(src)
+        .then(({ width, height }) => {
+          const position = boxToFabricPosition(box, 0);
+          Object.assign(image, {
+            left: position.x,
+            top: position.y,
+            width,
+            height,
+            scaleX: box.width / width,
+            scaleY: box.height / height,
+          });
+        })
+        .catch(() => {
+          context.skipped.push(`${description} could not be decoded`);
+          image.visible = false;
+        })
+    );
+    return image;
+  }
+
+  private static readParagraphs(txBody: Element | null): { text: string; runProps: Element | null; align: string | null }[] {
+    return children(txBody, NS_A, 'p').map(p => {
+      const runs = children(p, NS_A).filter(el => el.localName === 'r' || el.localName === 'fld' || el.localName === 'br');
+      const text = runs
+        .map(run => (run.localName === 'br' ? '\n' : child(run, NS_A, 't')?.textContent ?? ''))
+        .join('');
+      const firstRun = runs.find(run => run.localName !== 'br');
+      return {
+        text,
+        runProps: child(firstRun ?? null, NS_A, 'rPr') ?? child(p, NS_A, 'endParaRPr'),
+        align: child(p, NS_A, 'pPr')?.getAttribute('algn') ?? null,
+      };
+    });
+  }
+
+  private static convertText(sp: Element, box: Box, context: SlideContext): SerializedObject | null {
+    const paragraphs = this.readParagraphs(child(sp, NS_P, 'txBody'));
+    const text = paragraphs.map(p => p.text).join('\n');
+    if (!text.trim()) return null;
+
+    const ph = this.placeholderOf(sp);
+    const phType = ph?.getAttribute('type');
+    const isTitle = phType === 'title' || phType === 'ctrTitle';
+    const sample = paragraphs.find(p => p.text.trim()) ?? paragraphs[0];
+    const rPr = sample.runProps;
+    const defaultSize = isTitle ? 4400 : ph ? 2800 : 1800;
+    const sizePx = (numberAttr(rPr, 'sz', defaultSize) / 100 / PT_PER_PX) * context.viewport.scale;
+    const fontRef = path(sp, [[NS_P, 'style'], [NS_A, 'fontRef']]);
+    const color =
+      this.resolveColor(child(rPr, NS_A, 'solidFill'), context) ??
+      this.resolveColor(fontRef, context) ??
+      `#${context.colors.tx1 ?? '000000'}`;
+    const typeface = child(rPr, NS_A, 'latin')?.getAttribute('typeface');
+    const align = ({ l: 'left', ctr: 'center', r: 'right', just: 'justify' } as Record<string, string>)[sample.align ?? ''] ?? (phType === 'ctrTitle' ? 'center' : 'left');
+
+    const bodyPr = path(sp, [[NS_P, 'txBody'], [NS_A, 'bodyPr']]);
+    const insetX = emuToPx(numberAttr(bodyPr, 'lIns', 91440)) * context.viewport.scale;
+    const insetY = emuToPx(numberAttr(bodyPr, 'tIns', 45720)) * context.viewport.scale;
+    const textBox: Box = { ...box, x: box.x + insetX, y: box.y + insetY, width: Math.max(10, box.width - insetX * 2), height: Math.max(10, box.height - insetY * 2) };
+    const position = boxToFabricPosition(textBox, 1);
+
+    return {
+      type: 'Textbox',
+      text,
+      left: position.x,
+      top: position.y,
+      width: textBox.width,
+      angle: box.rotation,
+      fontSize: Math.max(1, Math.round(sizePx * 10) / 10),
+      fontFamily: typeface && !typeface.startsWith('+') ? typeface : 'Arial',
+      fontWeight: rPr?.getAttribute('b') === '1' ? 'bold' : 'normal',
+      fontStyle: rPr?.getAttribute('i') === '1' ? 'italic' : 'normal',
+      underline: Boolean(rPr?.getAttribute('u')) && rPr?.getAttribute('u') !== 'none',
+      linethrough: Boolean(rPr?.getAttribute('strike')) && rPr?.getAttribute('strike') !== 'noStrike',
+      fill: color,
+      textAlign: align,
+      ...this.visibility(sp),
+    };
+  }
+}
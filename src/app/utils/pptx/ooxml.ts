@@ -0,0 +1,215 @@
+import * as fabric from 'fabric';
+
+// Shared OOXML helpers used by the PPTX exporter and importer
+
+export const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+export const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+export const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+export const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export const REL_TYPE = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties',
+  slideMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideMaster',
+  slideLayout: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideLayout',
+  slide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide',
+  theme: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme',
+  presProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/presProps',
+  viewProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/viewProps',
+  tableStyles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/tableStyles',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+} as const;
+
+// Canvas pixels are treated as CSS pixels (96 DPI)
+export const EMU_PER_PX = 9525;
+export const PT_PER_PX = 0.75;
+
+export const pxToEmu = (px: number): number => Math.round(px * EMU_PER_PX);
+export const emuToPx = (emu: number): number => emu / EMU_PER_PX;
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+};
+
+export const escapeXml = (value: string): string =>
+  value
+    // Strip characters that are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Parse any CSS color Fabric understands into an OOXML `srgbClr` value and alpha.
+ * Returns null for empty or fully transparent colors.
+ */
+export const parseColor = (value: unknown): { hex: string; alpha: number } | null => {
+  if (typeof value !== 'string' || !value.trim() || value === 'transparent') {
+    return null;
+  }
+  const color = new fabric.Color(value);
+  if (color.isUnrecognised || color.getAlpha() === 0) {
+    return null;
+  }
+  return { hex: color.toHex().toUpperCase(), alpha: color.getAlpha() };
+};
+
+export const xmlDeclaration = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export const contentTypesXml = (slideCount: number, imageExtensions: string[]): string => {
+  const mimeByExtension: Record<string, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    svg: 'image/svg+xml',
+    webp: 'image/webp',
+  };
+  const imageDefaults = imageExtensions
+    .map(ext => `<Default Extension="${ext}" ContentType="${mimeByExtension[ext]}"/>`)
+    .join('');
+  const slideOverrides = Array.from({ length: slideCount }, (_, i) =>
+    `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`
+  ).join('');
+
+  return xmlDeclaration +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    imageDefaults +
+    '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>' +
+    '<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/>' +
+    '<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/>' +
+    '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>' +
+    '<Override PartName="/ppt/presProps.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presProps+xml"/>' +
+    '<Override PartName="/ppt/viewProps.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml"/>' +
+    '<Override PartName="/ppt/tableStyles.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>' +
+    slideOverrides +
+    '</Types>';
+};
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+export const relationshipsXml = (relationships: Relationship[]): string =>
+  xmlDeclaration +
+  `<Relationships xmlns="${NS_PKG_REL}">` +
+  relationships
+    .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"/>`)
+    .join('') +
+  '</Relationships>';
+
+export const corePropsXml = (title: string): string => {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return xmlDeclaration +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    '<dc:creator>Presentation App</dc:creator>' +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    '</cp:coreProperties>';
+};
+
+export const appPropsXml = (slideCount: number): string =>
+  xmlDeclaration +
+  '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties" ' +
+  'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">' +
+  '<Application>Presentation App</Application>' +
+  `<Slides>${slideCount}</Slides>` +
+  '</Properties>';
+
+export const presentationXml = (slideRelIds: string[], widthEmu: number, heightEmu: number): string =>
+  xmlDeclaration +
+  `<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" saveSubsetFonts="1">` +
+  '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+  '<p:sldIdLst>' +
+  slideRelIds.map((relId, i) => `<p:sldId id="${256 + i}" r:id="${relId}"/>`).join('') +
+  '</p:sldIdLst>' +
+  `<p:sldSz cx="${widthEmu}" cy="${heightEmu}"/>` +
+  '<p:notesSz cx="6858000" cy="9144000"/>' +
+  '</p:presentation>';
+
+export const presPropsXml = (): string =>
+  xmlDeclaration + `<p:presentationPr xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"/>`;
+
+export const viewPropsXml = (): string =>
+  xmlDeclaration +
+  `<p:viewPr xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">` +
+  '<p:normalViewPr><p:restoredLeft sz="15620"/><p:restoredTop sz="94660"/></p:normalViewPr>' +
+  '<p:gridSpacing cx="76200" cy="76200"/>' +
+  '</p:viewPr>';
+
+export const tableStylesXml = (): string =>
+  xmlDeclaration +
+  `<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`;
+
+const emptySpTree =
+  '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+  '</p:spTree>';
+
+export const slideMasterXml = (): string =>
+  xmlDeclaration +
+  `<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">` +
+  '<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>' + emptySpTree + '</p:cSld>' +
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+  '<p:txStyles>' +
+  '<p:titleStyle><a:lvl1pPr><a:defRPr sz="4400"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mj-lt"/></a:defRPr></a:lvl1pPr></p:titleStyle>' +
+  '<p:bodyStyle><a:lvl1pPr><a:defRPr sz="2400"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr></p:bodyStyle>' +
+  '<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr></p:otherStyle>' +
+  '</p:txStyles>' +
+  '</p:sldMaster>';
+
+export const slideLayoutXml = (): string =>
+  xmlDeclaration +
+  `<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1">` +
+  '<p:cSld name="Blank">' + emptySpTree + '</p:cSld>' +
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>' +
+  '</p:sldLayout>';
+
+const solidFill = (hex: string) => `<a:solidFill><a:srgbClr val="${hex}"/></a:solidFill>`;
+
+export const themeXml = (): string =>
+  xmlDeclaration +
+  `<a:theme xmlns:a="${NS_A}" name="Presentation Theme">` +
+  '<a:themeElements>' +
+  '<a:clrScheme name="Presentation">' +
+  '<a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>' +
+  '<a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>' +
+  '<a:accent1><a:srgbClr val="2563EB"/></a:accent1><a:accent2><a:srgbClr val="F97316"/></a:accent2>' +
+  '<a:accent3><a:srgbClr val="16A34A"/></a:accent3><a:accent4><a:srgbClr val="DC2626"/></a:accent4>' +
+  '<a:accent5><a:srgbClr val="9333EA"/></a:accent5><a:accent6><a:srgbClr val="0891B2"/></a:accent6>' +
+  '<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink>' +
+  '</a:clrScheme>' +
+  '<a:fontScheme name="Presentation">' +
+  '<a:majorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+  '<a:minorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>' +
+  '</a:fontScheme>' +
+  '<a:fmtScheme name="Presentation">' +
+  '<a:fillStyleLst>' + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3) + '</a:fillStyleLst>' +
+  '<a:lnStyleLst>' +
+  [6350, 12700, 19050].map(w => `<a:ln w="${w}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`).join('') +
+  '</a:lnStyleLst>' +
+  '<a:effectStyleLst>' + '<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3) + '</a:effectStyleLst>' +
+  '<a:bgFillStyleLst>' + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(2) + solidFill('FFFFFF') + '</a:bgFillStyleLst>' +
+  '</a:fmtScheme>' +
+  '</a:themeElements>' +
+  '</a:theme>';
@@ -0,0 +1,98 @@
+import { Slide, SlideSize } from '../redux/presentationSlice';
+import { PresentationTheme } from './themes';
+import { AssetTable } from './assets';
+import { EmbeddedFont } from './fonts';
+import { GuideSettings } from './guides';
+
+export interface StoredPresentation {
+  id: string;
+  name: string;
+  slides: Slide[];
+  slideSize?: SlideSize; // Missing in sessions saved before page setup existed
+  theme?: PresentationTheme; // Missing in sessions saved before themes existed
+  assets?: AssetTable; // Missing in sessions saved before the asset store existed
+  fonts?: EmbeddedFont[]; // Missing in sessions saved before embedded fonts existed
+  guides?: GuideSettings; // Missing in sessions saved before grid and guides existed
+  currentSlideId: string | null;
+  savedAt: number;
+}
+
+/**
+ * Local persistence of presentations in IndexedDB, used for autosave and
+ * crash recovery. Every presentation is stored under its presentation id.
+ */
+export class PresentationDB {
+  private static readonly DB_NAME = 'presentation-app';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'presentations';
+  private static readonly MAX_STORED_PRESENTATIONS = 5;
+
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+            const store = db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+            store.createIndex('savedAt', 'savedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error ?? new Error('Failed to open local database'));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async transaction<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.STORE_NAME, mode);
+      const request = run(tx.objectStore(this.STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error ?? new Error('Local database transaction failed'));
+      tx.onabort = () => reject(tx.error ?? new Error('Local database transaction aborted'));
+    });
+  }
+
+  static async save(presentation: StoredPresentation): Promise<void> {
+    await this.transaction('readwrite', store => store.put(presentation));
+    await this.prune();
+  }
+
+  /** The most recently saved presentation, if any */
+  static async loadLatest(): Promise<StoredPresentation | null> {
+    const all = await this.transaction<StoredPresentation[]>('readonly', store => store.getAll());
+    return all.reduce<StoredPresentation | null>(
+      (latest, item) => (!latest || item.savedAt > latest.savedAt ? item : latest),
+      null
+    );
+  }
+
+  static async remove(id: string): Promise<void> {
+    await this.transaction('readwrite', store => store.delete(id));
+  }
+
+  // Keep only the most recent presentations so storage does not grow forever
+  private static async prune(): Promise<void> {
+    const keys = await this.transaction<IDBValidKey[]>('readonly', store => store.index('savedAt').getAllKeys());
+    const excess = keys.slice(0, Math.max(0, keys.length - this.MAX_STORED_PRESENTATIONS));
+    for (const key of excess) {
+      await this.transaction('readwrite', store => store.delete(key));
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { DEFAULT_SLIDE_SIZE } from './slideSize';
+import { DEFAULT_THEME } from './themes';
+import { AssetTable, createAssetFromDataUrl, internInlineImages } from './assets';
+import { DEFAULT_GUIDE_SETTINGS } from './guides';
+
+// Parsed file data; a step only relies on the fields it checks
+type SavedData = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: SavedData) => SavedData | Promise<SavedData>;
+}
+
+/**
+ * Upgrades from each file format version to the next. Each step adds the
+ * fields its version introduced.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // Speaker notes
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: (data) => ({
+      ...data,
+      slides: Array.isArray(data.slides)
+        ? data.slides.map((slide: SavedData) => ({ ...slide, notes: '' }))
+        : data.slides,
+    }),
+  },
+  {
+    // Page setup
+    from: '1.1.0',
+    to: '1.2.0',
+    migrate: (data) => ({ ...data, slideSize: DEFAULT_SLIDE_SIZE }),
+  },
+  {
+    // Themes
+    from: '1.2.0',
+    to: '1.3.0',
+    migrate: (data) => ({ ...data, theme: DEFAULT_THEME }),
+  },
+  {
+    // Asset store: images embedded in slides move into a shared table
+    from: '1.3.0',
+    to: '1.4.0',
+    migrate: async (data) => {
+      if (!Array.isArray(data.slides)) return { ...data, assets: {} };
+      const { slides, assets } = await internInlineImages(data.slides);
+      return { ...data, slides, assets };
+    },
+  },
+  {
+    // Embedded fonts, introduced with .chromadeck bundles
+    from: '1.4.0',
+    to: '1.5.0',
+    migrate: (data) => ({ ...data, fonts: [] }),
+  },
+  {
+    // Grid and ruler guides
+    from: '1.5.0',
+    to: '1.6.0',
+    migrate: (data) => ({ ...data, guides: DEFAULT_GUIDE_SETTINGS }),
+  },
+  {
+    // Theme background images move into the asset table, and slides refer to them
+    from: '1.6.0',
+    to: '1.7.0',
+    migrate: async (data) => {
+      const theme = data.theme as SavedData | undefined;
+      const background = theme?.background as SavedData | undefined;
+      if (background?.type !== 'image' || typeof background.src !== 'string') return data;
+      const asset = await createAssetFromDataUrl(background.src);
+      if (!asset) return data;
+      const table = { ...(data.assets as AssetTable), [asset.id]: asset };
+      const { slides, assets } = Array.isArray(data.slides)
+        ? await internInlineImages(data.slides, table)
+        : { slides: data.slides, assets: table };
+      return { ...data, theme: { ...theme, background: { type: 'image', assetId: asset.id, width: background.width, height: background.height } }, slides, assets };
+    },
+  },
+  {
+    // Bundle slide files refer to the images in them as media files; the data itself is unchanged
+    from: '1.7.0',
+    to: '1.8.0',
+    migrate: (data) => data,
+  },
+  {
+    // Tables follow theme slots; tables saved before keep their colors
+    from: '1.8.0',
+    to: '1.9.0',
+    migrate: (data) => data,
+  },
+];
+
+export const CURRENT_PRESENTATION_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+const parseVersion = (version: string): number[] | null =>
+  /^\d+(\.\d+)*$/.test(version) ? version.split('.').map(Number) : null;
+
+const compareVersions = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+/**
+ * Bring parsed presentation file data up to the current format version,
+ * one migration step at a time. Throws for versions this app cannot read.
+ */
+export const migratePresentationData = async (data: unknown): Promise<SavedData> => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('The file does not contain a presentation');
+  }
+  const saved = data as SavedData;
+  if (typeof saved.version !== 'string') {
+    throw new Error('The presentation file has no "version" field');
+  }
+
+  const version = parseVersion(saved.version);
+  if (!version) {
+    throw new Error(`Unrecognized presentation file version "${saved.version}"`);
+  }
+  if (compareVersions(version, parseVersion(CURRENT_PRESENTATION_VERSION)!) > 0) {
+    throw new Error(`This presentation was saved by a newer version of the app (file version ${saved.version})`);
+  }
+
+  // Steps run in order, so every step the file's version predates still applies
+  let migrated = saved;
+  for (const migration of MIGRATIONS) {
+    if (compareVersions(version, parseVersion(migration.to)!) < 0) {
+      migrated = { ...(await migration.migrate(migrated)), version: migration.to };
+    }
+  }
+  return migrated;
+};
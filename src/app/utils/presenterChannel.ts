@@ -0,0 +1,47 @@
+import { Slide, SlideSize } from '../redux/presentationSlice';
+
+// What the presenter window needs of a slide; thumbnails are left out to keep messages small
+export type PresenterSlide = Pick<Slide, 'id' | 'name' | 'canvasData' | 'notes'>;
+
+/**
+ * Messages exchanged between the slideshow and the presenter window.
+ * - `request-deck`: sent by the presenter window when it opens
+ * - `deck`: the slides being presented, their size and when the show started
+ * - `navigate`: the slide index changed in the sending window
+ * - `end`: the slideshow or presenter view was closed
+ */
+export type PresenterMessage =
+  | { type: 'request-deck' }
+  | { type: 'deck'; presentationName: string; slides: PresenterSlide[]; slideSize: SlideSize; index: number; startedAt: number }
+  | { type: 'navigate'; index: number }
+  | { type: 'end' };
+
+export const PRESENTER_CHANNEL_NAME = 'presentation-presenter-view';
+export const PRESENTER_WINDOW_PATH = '/presenter';
+
+export interface PresenterChannel {
+  post: (message: PresenterMessage) => void;
+  close: () => void;
+}
+
+export const isPresenterViewSupported = (): boolean =>
+  typeof window !== 'undefined' && 'BroadcastChannel' in window;
+
+/**
+ * Open the channel shared by the slideshow and presenter windows. Returns null
+ * when BroadcastChannel is not available.
+ */
+export const openPresenterChannel = (onMessage: (message: PresenterMessage) => void): PresenterChannel | null => {
+  if (!isPresenterViewSupported()) return null;
+
+  const channel = new BroadcastChannel(PRESENTER_CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<PresenterMessage>) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+export const toPresenterSlides = (slides: Slide[]): PresenterSlide[] =>
+  slides.map(({ id, name, canvasData, notes }) => ({ id, name, canvasData, notes }));
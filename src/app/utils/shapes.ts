@@ -0,0 +1,276 @@
+import * as fabric from 'fabric';
+import type { SlideSize } from '../redux/presentationSlice';
+import type { ThemeColorSlot } from './themes';
+
+export type ShapeKind =
+  | 'rounded-rect'
+  | 'ellipse'
+  | 'triangle'
+  | 'polygon'
+  | 'star'
+  | 'arrow'
+  | 'double-arrow'
+  | 'block-arrow'
+  | 'block-double-arrow'
+  | 'callout';
+
+// The shape tool's current choice; sides and points apply to polygons and stars
+export interface ShapeToolOptions {
+  kind: ShapeKind;
+  sides: number;
+  starPoints: number;
+}
+
+export interface ShapeStyle {
+  fill: string;
+  fillSlot?: ThemeColorSlot;
+  stroke: string;
+  strokeSlot?: ThemeColorSlot;
+  strokeWidth: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Custom Fabric object property naming the library shape an object was made as
+export const SHAPE_PROPERTIES = ['shapeKind'] as const;
+
+export const DEFAULT_SHAPE_TOOL: ShapeToolOptions = { kind: 'rounded-rect', sides: 6, starPoints: 5 };
+
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 12;
+
+// Icons are 24x24 SVG path data, drawn with a stroke
+export const SHAPE_KINDS: { kind: ShapeKind; name: string; icon: string }[] = [
+  { kind: 'rounded-rect', name: 'Rounded rectangle', icon: 'M7 4h10a3 3 0 013 3v10a3 3 0 01-3 3H7a3 3 0 01-3-3V7a3 3 0 013-3z' },
+  { kind: 'ellipse', name: 'Ellipse', icon: 'M12 6c4.97 0 9 2.69 9 6s-4.03 6-9 6-9-2.69-9-6 4.03-6 9-6z' },
+  { kind: 'triangle', name: 'Triangle', icon: 'M12 4l9 16H3z' },
+  { kind: 'polygon', name: 'Polygon', icon: 'M12 3l8 4.5v9L12 21l-8-4.5v-9z' },
+  { kind: 'star', name: 'Star', icon: 'M12 3l2.6 5.9 6.4.6-4.8 4.3 1.4 6.3L12 16.8 6.4 20.1l1.4-6.3L3 9.5l6.4-.6z' },
+  { kind: 'arrow', name: 'Arrow', icon: 'M4 12h16m-5-5l5 5-5 5' },
+  { kind: 'double-arrow', name: 'Double arrow', icon: 'M4 12h16M9 7l-5 5 5 5m6-10l5 5-5 5' },
+  { kind: 'block-arrow', name: 'Block arrow', icon: 'M3 9h11V5l7 7-7 7v-4H3z' },
+  { kind: 'block-double-arrow', name: 'Block double arrow', icon: 'M2 12l5-6v3h10V6l5 6-5 6v-3H7v3z' },
+  { kind: 'callout', name: 'Speech bubble', icon: 'M6 4h12a2 2 0 012 2v8a2 2 0 01-2 2h-8l-4 4v-4a2 2 0 01-2-2V6a2 2 0 012-2z' },
+];
+
+export const getShapeName = (kind: ShapeKind): string => SHAPE_KINDS.find(shape => shape.kind === kind)?.name ?? 'Shape';
+
+// Line arrows run from where a drag starts to where it ends; other shapes fill the dragged box
+export const isLineShape = (kind: ShapeKind) => kind === 'arrow' || kind === 'double-arrow';
+
+/** Size of a shape placed with a click rather than a drag */
+export const defaultShapeSize = (kind: ShapeKind): { width: number; height: number } =>
+  kind === 'polygon' || kind === 'star' ? { width: 100, height: 100 } : { width: 120, height: 80 };
+
+// Corner radius of new rounded rectangles and speech bubbles, relative to the shorter side
+const CORNER_RATIO = 0.15;
+const STAR_INNER_RATIO = 0.5;
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Stretch points to exactly fill the box
+const fitToBox = (points: Point[], box: Box): Point[] => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1;
+  const spanY = Math.max(...ys) - minY || 1;
+  return points.map(point => ({
+    x: box.left + ((point.x - minX) / spanX) * box.width,
+    y: box.top + ((point.y - minY) / spanY) * box.height,
+  }));
+};
+
+// Points around a circle, starting at the top
+const radialPoints = (count: number, radiusAt: (index: number) => number): Point[] =>
+  Array.from({ length: count }, (_, index) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * index) / count;
+    const radius = radiusAt(index);
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+
+const blockArrowPoints = ({ left: x, top: y, width: w, height: h }: Box, isDouble: boolean): Point[] => {
+  const head = Math.min(w * (isDouble ? 0.3 : 0.4), h);
+  const shaftTop = y + h * 0.25;
+  const shaftBottom = y + h * 0.75;
+  const middle = y + h / 2;
+  return isDouble
+    ? [
+      { x, y: middle }, { x: x + head, y }, { x: x + head, y: shaftTop }, { x: x + w - head, y: shaftTop },
+      { x: x + w - head, y }, { x: x + w, y: middle }, { x: x + w - head, y: y + h }, { x: x + w - head, y: shaftBottom },
+      { x: x + head, y: shaftBottom }, { x: x + head, y: y + h },
+    ]
+    : [
+      { x, y: shaftTop }, { x: x + w - head, y: shaftTop }, { x: x + w - head, y }, { x: x + w, y: middle },
+      { x: x + w - head, y: y + h }, { x: x + w - head, y: shaftBottom }, { x, y: shaftBottom },
+    ];
+};
+
+/** Length of open arrowheads on a line of `strokeWidth`, at most half the line's `length` */
+export const arrowheadSize = (strokeWidth: number, length: number) => Math.min(Math.max(10, strokeWidth * 3), length / 2);
+
+/** Path commands for an open arrowhead at `tip`, pointing along `angle` (radians) */
+export const arrowheadPath = (tip: Point, angle: number, size: number): string => {
+  const side = (offset: number) => ({
+    x: tip.x - size * Math.cos(angle + offset),
+    y: tip.y - size * Math.sin(angle + offset),
+  });
+  const a = side(Math.PI / 6);
+  const b = side(-Math.PI / 6);
+  return ` M ${a.x} ${a.y} L ${tip.x} ${tip.y} L ${b.x} ${b.y}`;
+};
+
+// A line with open arrowheads, as one path so both take the line's color
+const arrowPath = (start: Point, end: Point, isDouble: boolean, strokeWidth: number): string => {
+  const head = arrowheadSize(strokeWidth, Math.hypot(end.x - start.x, end.y - start.y));
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  return `M ${start.x} ${start.y} L ${end.x} ${end.y}` +
+    arrowheadPath(end, angle, head) +
+    (isDouble ? arrowheadPath(start, angle + Math.PI, head) : '');
+};
+
+// Rounded box with a tail at the bottom left, pointing down
+const calloutPath = ({ left: x, top: y, width: w, height: h }: Box): string => {
+  const body = h * 0.8;
+  const r = Math.min(w, body) * CORNER_RATIO;
+  return [
+    `M ${x + r} ${y}`,
+    `L ${x + w - r} ${y} Q ${x + w} ${y} ${x + w} ${y + r}`,
+    `L ${x + w} ${y + body - r} Q ${x + w} ${y + body} ${x + w - r} ${y + body}`,
+    `L ${x + w * 0.35} ${y + body} L ${x + w * 0.1} ${y + h} L ${x + w * 0.2} ${y + body}`,
+    `L ${x + r} ${y + body} Q ${x} ${y + body} ${x} ${y + body - r}`,
+    `L ${x} ${y + r} Q ${x} ${y} ${x + r} ${y} Z`,
+  ].join(' ');
+};
+
+/**
+ * A library shape spanning a drag from `start` to `end`, in slide
+ * coordinates. Line arrows only take the stroke; the other shapes are filled.
+ */
+export const createShape = (
+  options: ShapeToolOptions,
+  start: Point,
+  end: Point,
+  style: ShapeStyle
+): fabric.FabricObject => {
+  const { kind } = options;
+  const box: Box = {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    width: Math.max(1, Math.abs(end.x - start.x)),
+    height: Math.max(1, Math.abs(end.y - start.y)),
+  };
+  const fill = { fill: style.fill, fillSlot: style.fillSlot };
+  const common = {
+    stroke: style.stroke,
+    strokeSlot: style.strokeSlot,
+    strokeWidth: style.strokeWidth,
+    strokeLineJoin: 'round' as const,
+    shapeKind: kind,
+  };
+
+  switch (kind) {
+    case 'rounded-rect': {
+      const radius = Math.min(box.width, box.height) * CORNER_RATIO;
+      return new fabric.Rect({ ...box, rx: radius, ry: radius, ...fill, ...common });
+    }
+    case 'ellipse':
+      return new fabric.Ellipse({ left: box.left, top: box.top, rx: box.width / 2, ry: box.height / 2, ...fill, ...common });
+    case 'triangle':
+      return new fabric.Triangle({ ...box, ...fill, ...common });
+    case 'polygon': {
+      const sides = Math.min(MAX_POLYGON_SIDES, Math.max(MIN_POLYGON_SIDES, Math.round(options.sides)));
+      return new fabric.Polygon(fitToBox(radialPoints(sides, () => 1), box), { ...fill, ...common });
+    }
+    case 'star': {
+      const points = Math.min(MAX_POLYGON_SIDES, Math.max(MIN_POLYGON_SIDES, Math.round(options.starPoints)));
+      return new fabric.Polygon(fitToBox(radialPoints(points * 2, index => (index % 2 === 0 ? 1 : STAR_INNER_RATIO)), box), { ...fill, ...common });
+    }
+    case 'block-arrow':
+    case 'block-double-arrow':
+      return new fabric.Polygon(blockArrowPoints(box, kind === 'block-double-arrow'), { ...fill, ...common });
+    case 'callout':
+      return new fabric.Path(calloutPath(box), { ...fill, ...common });
+    case 'arrow':
+    case 'double-arrow':
+      return new fabric.Path(arrowPath(start, end, kind === 'double-arrow', style.strokeWidth), {
+        ...common,
+        fill: null,
+        strokeLineCap: 'round',
+      });
+  }
+};
+
+/** Whether an object has an inside that takes a fill color, as opposed to lines and strokes */
+export const isFillableShape = (obj: fabric.FabricObject): boolean => {
+  switch (obj.type) {
+    case 'rect':
+    case 'circle':
+    case 'ellipse':
+    case 'triangle':
+    case 'polygon':
+      return true;
+    case 'path':
+      return obj.shapeKind === 'callout';
+    default:
+      return false;
+  }
+};
+
+/** Whether an object has an outline or line whose color and width can be set */
+export const isStrokableShape = (obj: fabric.FabricObject): boolean =>
+  isFillableShape(obj) || obj.type === 'line' || obj.type === 'path';
+
+/** How a drag turns into a shape's extent */
+export interface DragConstraints {
+  proportional: boolean; // Square boxes, and lines at 45° steps
+  fromCenter: boolean; // The shape grows both ways around where the drag started
+  isLine: boolean;
+}
+
+/**
+ * Start and end of a shape drawn by dragging from `origin` to `pointer`, in
+ * slide coordinates.
+ */
+export const constrainDrag = (origin: Point, pointer: Point, { proportional, fromCenter, isLine }: DragConstraints): { start: Point; end: Point } => {
+  let dx = pointer.x - origin.x;
+  let dy = pointer.y - origin.y;
+  if (proportional && isLine) {
+    const length = Math.hypot(dx, dy);
+    const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+    dx = Math.cos(angle) * length;
+    dy = Math.sin(angle) * length;
+  } else if (proportional) {
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    dx = dx < 0 ? -size : size;
+    dy = dy < 0 ? -size : size;
+  }
+  const end = { x: origin.x + dx, y: origin.y + dy };
+  return { start: fromCenter ? { x: origin.x - dx, y: origin.y - dy } : origin, end };
+};
+
+/**
+ * Start and end of a shape of `size` placed with a click, centered on it and
+ * kept 10px inside the slide. Lines run left to right through the middle.
+ */
+export const placeShapeAt = (
+  center: Point,
+  size: { width: number; height: number },
+  slideSize: SlideSize,
+  isLine: boolean
+): { start: Point; end: Point } => {
+  const left = Math.max(10, Math.min(center.x - size.width / 2, slideSize.width - size.width - 10));
+  const top = Math.max(10, Math.min(center.y - size.height / 2, slideSize.height - size.height - 10));
+  return isLine
+    ? { start: { x: left, y: top + size.height / 2 }, end: { x: left + size.width, y: top + size.height / 2 } }
+    : { start: { x: left, y: top }, end: { x: left + size.width, y: top + size.height } };
+};
@@ -0,0 +1,109 @@
+import PizZip from 'pizzip';
+import { Slide, SlideSize } from '../redux/presentationSlice';
+import { createOffscreenSlideCanvas } from './slideRenderer';
+
+export type ImageExportFormat = 'png' | 'jpeg' | 'svg';
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  quality: number; // 0-1, JPEG only
+  scale: number; // Multiplier of the slide size
+  fileNamePattern: string; // Supports {index} and {name}
+}
+
+export const DEFAULT_FILE_NAME_PATTERN = '{index}-{name}';
+
+const EXTENSIONS: Record<ImageExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  svg: 'svg',
+};
+
+/**
+ * File name (with extension) of a slide's image. {index} is the 1-based slide
+ * number, zero-padded so files sort in slide order; {name} is the slide name.
+ */
+export const formatSlideFileName = (
+  pattern: string,
+  slide: Pick<Slide, 'name'>,
+  index: number,
+  slideCount: number,
+  format: ImageExportFormat
+): string => {
+  const number = String(index + 1).padStart(Math.max(2, String(slideCount).length), '0');
+  const name = slide.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  const baseName = (pattern.trim() || DEFAULT_FILE_NAME_PATTERN)
+    .replace(/\{index\}/g, number)
+    .replace(/\{name\}/g, name)
+    // Keep everything in the zip root and valid on every platform
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_');
+  return `${baseName}.${EXTENSIONS[format]}`;
+};
+
+// Make names unique by suffixing duplicates: slide.png, slide-2.png, ...
+const uniqueFileName = (fileName: string, used: Set<string>): string => {
+  let candidate = fileName;
+  const dot = fileName.lastIndexOf('.');
+  for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+    candidate = `${fileName.slice(0, dot)}-${counter}${fileName.slice(dot)}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+export class SlideImageExporter {
+  /**
+   * Render every slide off-screen and collect the images in one zip file.
+   */
+  static async generate(
+    slides: Slide[],
+    slideSize: SlideSize,
+    options: ImageExportOptions,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<Blob> {
+    const zip = new PizZip();
+    const usedNames = new Set<string>();
+
+    for (let index = 0; index < slides.length; index++) {
+      const slide = slides[index];
+      const fileName = uniqueFileName(
+        formatSlideFileName(options.fileNamePattern, slide, index, slides.length, options.format),
+        usedNames
+      );
+
+      const canvas = await createOffscreenSlideCanvas(slide.canvasData, slideSize);
+      try {
+        if (options.format === 'svg') {
+          const width = canvas.getWidth();
+          const height = canvas.getHeight();
+          zip.file(fileName, canvas.toSVG({
+            width: String(width * options.scale),
+            height: String(height * options.scale),
+            viewBox: { x: 0, y: 0, width, height },
+          }));
+        } else {
+          // JPEG has no transparency, so an unset background must export as white
+          if (options.format === 'jpeg' && !canvas.backgroundColor) {
+            canvas.backgroundColor = '#ffffff';
+          }
+          const dataUrl = canvas.toDataURL({
+            format: options.format,
+            quality: options.quality,
+            multiplier: options.scale,
+          });
+          zip.file(fileName, dataUrl.slice(dataUrl.indexOf(',') + 1), { base64: true });
+        }
+      } finally {
+        canvas.dispose();
+      }
+
+      onProgress?.(index + 1, slides.length);
+    }
+
+    return zip.generate({
+      type: 'blob',
+      mimeType: 'application/zip',
+      compression: 'DEFLATE',
+    });
+  }
+}
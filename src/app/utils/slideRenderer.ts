@@ -0,0 +1,111 @@
+import * as fabric from 'fabric';
+import type { SlideSize } from '../redux/presentationSlice';
+import { PLACEHOLDER_PROPERTIES, PlaceholderRole, removeEmptyPlaceholders } from './layouts';
+import { THEME_PROPERTIES, ThemeColorSlot, ThemeFontSlot } from './themes';
+import { ASSET_PROPERTIES } from './assets';
+import { LAYER_PROPERTIES } from './layers';
+import { BrushMode, DRAWING_PROPERTIES } from './drawing';
+import { SHAPE_PROPERTIES, ShapeKind } from './shapes';
+import { CONNECTOR_PROPERTIES, ConnectorData } from './connectors';
+import { TABLE_PROPERTIES, TableData } from './tables';
+
+declare module 'fabric' {
+  interface FabricObject {
+    placeholder?: PlaceholderRole;
+    placeholderHint?: string;
+    placeholderEmpty?: boolean;
+    fillSlot?: ThemeColorSlot;
+    strokeSlot?: ThemeColorSlot;
+    fontSlot?: ThemeFontSlot;
+    assetId?: string;
+    layerName?: string;
+    locked?: boolean;
+    brush?: Exclude<BrushMode, 'eraser'>;
+    shapeKind?: ShapeKind;
+    objectId?: string;
+    connector?: ConnectorData;
+    table?: TableData;
+  }
+}
+
+const CUSTOM_PROPERTIES = [...PLACEHOLDER_PROPERTIES, ...THEME_PROPERTIES, ...ASSET_PROPERTIES, ...LAYER_PROPERTIES, ...DRAWING_PROPERTIES, ...SHAPE_PROPERTIES, ...CONNECTOR_PROPERTIES, ...TABLE_PROPERTIES] as const;
+
+// Fabric only serializes custom properties it has been told about
+fabric.FabricObject.customProperties = [...CUSTOM_PROPERTIES];
+
+/**
+ * A Fabric object as saved in a slide's canvasData: Fabric's common fields,
+ * the custom properties above and the children of groups. Fields that only
+ * some kinds of objects have are `unknown` until checked.
+ */
+export type SerializedObject = Record<string, unknown> &
+  Partial<fabric.SerializedObjectProps> &
+  Partial<Pick<fabric.FabricObject, typeof CUSTOM_PROPERTIES[number]>> & {
+    type?: string;
+    src?: string; // Images
+    objects?: SerializedObject[]; // Groups
+  };
+
+// A slide's canvasData as a whole
+export type SerializedCanvas = Record<string, unknown> & {
+  objects?: SerializedObject[];
+  background?: unknown; // A color or a serialized gradient
+  backgroundImage?: SerializedObject;
+};
+
+/**
+ * Load a slide's serialized canvasData into a Fabric canvas. This is the single
+ * deserialization path shared by the editor, the slideshow and exports so that
+ * slides look identical everywhere. Only the editor shows empty placeholders.
+ */
+export const loadCanvasData = async (
+  canvas: fabric.StaticCanvas,
+  canvasData: string,
+  options: { showEmptyPlaceholders?: boolean } = {}
+): Promise<void> => {
+  const data = JSON.parse(canvasData);
+  await canvas.loadFromJSON(options.showEmptyPlaceholders ? data : removeEmptyPlaceholders(data));
+  canvas.renderAll();
+};
+
+/**
+ * Size a canvas to fit a box while keeping the slide's aspect ratio, zooming
+ * the content so the whole slide stays visible. Returns the zoom factor.
+ */
+export const fitCanvasToBox = (
+  canvas: fabric.StaticCanvas,
+  slideSize: SlideSize,
+  boxWidth: number,
+  boxHeight: number
+): number => {
+  const zoom = Math.min(boxWidth / slideSize.width, boxHeight / slideSize.height);
+  canvas.setDimensions({
+    width: Math.floor(slideSize.width * zoom),
+    height: Math.floor(slideSize.height * zoom),
+  });
+  canvas.setZoom(zoom);
+  return zoom;
+};
+
+/**
+ * Render a slide on a detached canvas at its logical size, for exports.
+ * The caller owns the returned canvas and must dispose it.
+ */
+export const createOffscreenSlideCanvas = async (
+  canvasData: string,
+  slideSize: SlideSize
+): Promise<fabric.StaticCanvas> => {
+  const canvas = new fabric.StaticCanvas(undefined, {
+    width: slideSize.width,
+    height: slideSize.height,
+    renderOnAddRemove: false,
+    enableRetinaScaling: false,
+  });
+  try {
+    await loadCanvasData(canvas, canvasData);
+  } catch (error) {
+    canvas.dispose();
+    throw error;
+  }
+  return canvas;
+};
@@ -0,0 +1,77 @@
+import type { SlideSize } from '../redux/presentationSlice';
+import type { SerializedCanvas } from './slideRenderer';
+
+export const DEFAULT_SLIDE_SIZE: SlideSize = { width: 1200, height: 800 };
+
+// Limits for custom sizes; print-resolution exports multiply these by ~3
+export const MIN_SLIDE_DIMENSION = 100;
+export const MAX_SLIDE_DIMENSION = 4000;
+
+export interface SlideSizePreset {
+  id: string;
+  name: string;
+  size: SlideSize;
+}
+
+// Paper sizes are landscape at 96 DPI
+export const SLIDE_SIZE_PRESETS: SlideSizePreset[] = [
+  { id: '16:9', name: 'Widescreen (16:9)', size: { width: 1280, height: 720 } },
+  { id: '4:3', name: 'Standard (4:3)', size: { width: 1024, height: 768 } },
+  { id: '16:10', name: 'Widescreen (16:10)', size: { width: 1280, height: 800 } },
+  { id: '3:2', name: 'Classic (3:2)', size: DEFAULT_SLIDE_SIZE },
+  { id: 'a4', name: 'A4 paper', size: { width: 1123, height: 794 } },
+  { id: 'letter', name: 'Letter paper', size: { width: 1056, height: 816 } },
+];
+
+export const findSlideSizePreset = (size: SlideSize): SlideSizePreset | undefined =>
+  SLIDE_SIZE_PRESETS.find(preset => preset.size.width === size.width && preset.size.height === size.height);
+
+export const isValidSlideSize = (size: unknown): size is SlideSize => {
+  if (typeof size !== 'object' || size === null) return false;
+  const { width, height } = size as Record<string, unknown>;
+  return [width, height].every(
+    value =>
+      typeof value === 'number' && Number.isFinite(value) && value >= MIN_SLIDE_DIMENSION && value <= MAX_SLIDE_DIMENSION
+  );
+};
+
+/**
+ * How existing content adapts to a new slide size:
+ * - `scale` stretches it to fill the new slide exactly
+ * - `letterbox` keeps its proportions and centres it, leaving margins
+ */
+export type SlideSizeFit = 'scale' | 'letterbox';
+
+/** How a point on a slide of size `from` maps onto one of size `to`: x * scaleX + offsetX, likewise for y */
+export const slideSizeTransform = (from: SlideSize, to: SlideSize, fit: SlideSizeFit) => {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+  if (fit === 'scale') return { scaleX, scaleY, offsetX: 0, offsetY: 0 };
+
+  const scale = Math.min(scaleX, scaleY);
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    offsetX: (to.width - from.width * scale) / 2,
+    offsetY: (to.height - from.height * scale) / 2,
+  };
+};
+
+/** Transform the top-level objects of a slide's Fabric JSON for a new slide size */
+export const fitCanvasDataToSize = (canvasData: string, from: SlideSize, to: SlideSize, fit: SlideSizeFit): string => {
+  const data: SerializedCanvas = JSON.parse(canvasData);
+  const { scaleX, scaleY, offsetX, offsetY } = slideSizeTransform(from, to, fit);
+
+  // An object's origin point maps like any other point; scaling about it keeps the rest in place
+  data.objects = (data.objects ?? []).map(obj => ({
+    ...obj,
+    left: (obj.left ?? 0) * scaleX + offsetX,
+    top: (obj.top ?? 0) * scaleY + offsetY,
+    scaleX: (obj.scaleX ?? 1) * scaleX,
+    scaleY: (obj.scaleY ?? 1) * scaleY,
+  }));
+  if (data.width !== undefined) data.width = to.width;
+  if (data.height !== undefined) data.height = to.height;
+
+  return JSON.stringify(data);
+};
@@ -0,0 +1,335 @@
+import type { TMat2D } from 'fabric';
+import { SlideSize } from '../redux/presentationSlice';
+
+// Axis-aligned box in slide coordinates
+export interface Bounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Full-length line across the slide at a snapped position
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+// One of the equal gaps between neighbouring objects, drawn as a measurement
+export interface SpacingHint {
+  orientation: 'horizontal' | 'vertical';
+  start: number;
+  end: number;
+  at: number; // Position on the other axis
+}
+
+// Extra lines to snap to, such as user-placed guides, in slide coordinates
+export interface SnapLines {
+  vertical: number[];
+  horizontal: number[];
+}
+
+export interface SnapOptions {
+  lines?: SnapLines;
+  gridStep?: number; // Snap to a grid of this size when nothing closer is in range; 0 for none
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+  spacing: SpacingHint[];
+}
+
+// Snap distance in screen pixels; callers divide by the zoom
+export const SNAP_THRESHOLD = 6;
+
+type Axis = 'x' | 'y';
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+interface AxisCandidate {
+  offset: number;
+  gaps: SpacingHint[];
+}
+
+const rangeOf = (bounds: Bounds, axis: Axis): Range =>
+  axis === 'x'
+    ? { start: bounds.left, end: bounds.left + bounds.width }
+    : { start: bounds.top, end: bounds.top + bounds.height };
+
+const overlaps = (a: Range, b: Range) => a.start < b.end && b.start < a.end;
+
+const otherAxis = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+
+const gapHint = (axis: Axis, start: number, end: number, a: Bounds, b: Bounds): SpacingHint => {
+  // Measured halfway along the part the two objects share
+  const crossA = rangeOf(a, otherAxis(axis));
+  const crossB = rangeOf(b, otherAxis(axis));
+  const at = (Math.max(crossA.start, crossB.start) + Math.min(crossA.end, crossB.end)) / 2;
+  return { orientation: axis === 'x' ? 'horizontal' : 'vertical', start, end, at };
+};
+
+// Closest neighbour before or after `of` on the axis, among objects sharing its row or column
+const neighbour = (of: Bounds, others: Bounds[], axis: Axis, side: 'before' | 'after'): Bounds | null => {
+  const range = rangeOf(of, axis);
+  const cross = rangeOf(of, otherAxis(axis));
+  let best: Bounds | null = null;
+  for (const other of others) {
+    if (other === of || !overlaps(rangeOf(other, otherAxis(axis)), cross)) continue;
+    const otherRange = rangeOf(other, axis);
+    if (side === 'before' ? otherRange.end > range.start : otherRange.start < range.end) continue;
+    if (!best || (side === 'before' ? otherRange.end > rangeOf(best, axis).end : otherRange.start < rangeOf(best, axis).start)) {
+      best = other;
+    }
+  }
+  return best;
+};
+
+// Positions that space the moving object evenly with its neighbours
+const spacingCandidates = (moving: Bounds, others: Bounds[], axis: Axis, threshold: number): AxisCandidate[] => {
+  const { start, end } = rangeOf(moving, axis);
+  const size = end - start;
+  // Neighbours are looked up with some slack, so an object already at the snapped spot still counts
+  const probe = axis === 'x'
+    ? { ...moving, left: moving.left + threshold, width: Math.max(0, moving.width - 2 * threshold) }
+    : { ...moving, top: moving.top + threshold, height: Math.max(0, moving.height - 2 * threshold) };
+  const before = neighbour(probe, others, axis, 'before');
+  const after = neighbour(probe, others, axis, 'after');
+  const candidates: AxisCandidate[] = [];
+  const withOffset = (newStart: number, gaps: (newStart: number) => SpacingHint[]) => {
+    candidates.push({ offset: newStart - start, gaps: gaps(newStart) });
+  };
+
+  // Centered between the neighbours on both sides
+  if (before && after) {
+    const beforeEnd = rangeOf(before, axis).end;
+    const afterStart = rangeOf(after, axis).start;
+    const newStart = (beforeEnd + afterStart - size) / 2;
+    if (newStart > beforeEnd) {
+      withOffset(newStart, s => [
+        gapHint(axis, beforeEnd, s, before, moving),
+        gapHint(axis, s + size, afterStart, moving, after),
+      ]);
+    }
+  }
+
+  // Continuing the gap between the neighbour and the object beyond it
+  if (before) {
+    const further = neighbour(before, others, axis, 'before');
+    if (further) {
+      const beforeRange = rangeOf(before, axis);
+      const gap = beforeRange.start - rangeOf(further, axis).end;
+      withOffset(beforeRange.end + gap, s => [
+        gapHint(axis, beforeRange.start - gap, beforeRange.start, further, before),
+        gapHint(axis, beforeRange.end, s, before, moving),
+      ]);
+    }
+  }
+  if (after) {
+    const further = neighbour(after, others, axis, 'after');
+    if (further) {
+      const afterRange = rangeOf(after, axis);
+      const gap = rangeOf(further, axis).start - afterRange.end;
+      withOffset(afterRange.start - gap - size, s => [
+        gapHint(axis, s + size, afterRange.start, moving, after),
+        gapHint(axis, afterRange.end, afterRange.end + gap, after, further),
+      ]);
+    }
+  }
+
+  return candidates;
+};
+
+// Slide edges and center, every other object's edges and center, then any extra lines
+const targetLinesOf = (others: Bounds[], slideLength: number, axis: Axis, extraLines: number[]) => {
+  const targetLines = [0, slideLength / 2, slideLength];
+  others.forEach(other => {
+    const range = rangeOf(other, axis);
+    targetLines.push(range.start, (range.start + range.end) / 2, range.end);
+  });
+  return [...targetLines, ...extraLines];
+};
+
+const gridOffset = (position: number, gridStep: number) => Math.round(position / gridStep) * gridStep - position;
+
+const snapAxis = (
+  moving: Bounds,
+  others: Bounds[],
+  slideLength: number,
+  axis: Axis,
+  threshold: number,
+  extraLines: number[],
+  gridStep: number
+) => {
+  const { start, end } = rangeOf(moving, axis);
+  const movingLines = [start, (start + end) / 2, end];
+  const targetLines = targetLinesOf(others, slideLength, axis, extraLines);
+
+  const candidates: AxisCandidate[] = [];
+  targetLines.forEach(target => movingLines.forEach(line => candidates.push({ offset: target - line, gaps: [] })));
+  candidates.push(...spacingCandidates(moving, others, axis, threshold));
+
+  const best = candidates
+    .filter(candidate => Math.abs(candidate.offset) <= threshold)
+    .reduce<AxisCandidate | null>((closest, candidate) => (!closest || Math.abs(candidate.offset) < Math.abs(closest.offset) ? candidate : closest), null);
+  // The grid always has a line within reach, so it only decides when nothing else does
+  if (!best) return { offset: gridStep > 0 ? gridOffset(start, gridStep) : 0, lines: [], gaps: [] };
+
+  // Every line the snapped object now touches gets a guide
+  const lines = Array.from(new Set(
+    targetLines.filter(target => movingLines.some(line => Math.abs(line + best.offset - target) < 0.5))
+  ));
+  return { offset: best.offset, lines, gaps: best.gaps };
+};
+
+/**
+ * Where a dragged object should snap: to the slide's edges and center, to
+ * other objects' edges and centers, to extra lines, or to even spacing with
+ * its neighbours. Each axis snaps independently to its closest target within
+ * `threshold`, falling back to putting the object's top-left on the grid.
+ */
+export const findSnap = (
+  moving: Bounds,
+  others: Bounds[],
+  slideSize: SlideSize,
+  threshold: number,
+  { lines, gridStep = 0 }: SnapOptions = {}
+): SnapResult => {
+  const x = snapAxis(moving, others, slideSize.width, 'x', threshold, lines?.vertical ?? [], gridStep);
+  const y = snapAxis(moving, others, slideSize.height, 'y', threshold, lines?.horizontal ?? [], gridStep);
+  return {
+    dx: x.offset,
+    dy: y.offset,
+    guides: [
+      ...x.lines.map(position => ({ orientation: 'vertical' as const, position })),
+      ...y.lines.map(position => ({ orientation: 'horizontal' as const, position })),
+    ],
+    spacing: [...x.gaps, ...y.gaps],
+  };
+};
+
+// Which edge of a box is being dragged on each axis while resizing, if any
+export interface ResizeEdges {
+  x?: 'start' | 'end';
+  y?: 'start' | 'end';
+}
+
+const snapEdge = (
+  moving: Bounds,
+  others: Bounds[],
+  slideLength: number,
+  axis: Axis,
+  edge: 'start' | 'end',
+  threshold: number,
+  extraLines: number[],
+  gridStep: number
+) => {
+  const range = rangeOf(moving, axis);
+  const position = edge === 'start' ? range.start : range.end;
+  const targetLines = targetLinesOf(others, slideLength, axis, extraLines);
+  const best = targetLines
+    .map(target => target - position)
+    .filter(offset => Math.abs(offset) <= threshold)
+    .reduce<number | null>((closest, offset) => (closest === null || Math.abs(offset) < Math.abs(closest) ? offset : closest), null);
+  if (best === null) return { offset: gridStep > 0 ? gridOffset(position, gridStep) : 0, lines: [] };
+  return { offset: best, lines: [position + best] };
+};
+
+/**
+ * Where the dragged edges of a resized object should snap, to the same
+ * targets as `findSnap` without even spacing. `dx` and `dy` move only the
+ * dragged edges; the opposite edges stay put.
+ */
+export const findResizeSnap = (
+  moving: Bounds,
+  edges: ResizeEdges,
+  others: Bounds[],
+  slideSize: SlideSize,
+  threshold: number,
+  { lines, gridStep = 0 }: SnapOptions = {}
+): SnapResult => {
+  const none = { offset: 0, lines: [] as number[] };
+  const x = edges.x ? snapEdge(moving, others, slideSize.width, 'x', edges.x, threshold, lines?.vertical ?? [], gridStep) : none;
+  const y = edges.y ? snapEdge(moving, others, slideSize.height, 'y', edges.y, threshold, lines?.horizontal ?? [], gridStep) : none;
+  return {
+    dx: x.offset,
+    dy: y.offset,
+    guides: [
+      ...x.lines.map(position => ({ orientation: 'vertical' as const, position })),
+      ...y.lines.map(position => ({ orientation: 'horizontal' as const, position })),
+    ],
+    spacing: [],
+  };
+};
+
+const GUIDE_COLOR = '#ec4899';
+
+/**
+ * Draw snap guides and spacing measurements on the canvas's top layer, in
+ * slide coordinates. Line widths and labels stay the same at any zoom.
+ */
+export const drawSnapGuides = (
+  ctx: CanvasRenderingContext2D,
+  snap: SnapResult,
+  viewportTransform: TMat2D,
+  slideSize: SlideSize
+) => {
+  const zoom = viewportTransform[0];
+  ctx.save();
+  ctx.transform(...viewportTransform);
+  ctx.lineWidth = 1 / zoom;
+  ctx.strokeStyle = GUIDE_COLOR;
+  ctx.fillStyle = GUIDE_COLOR;
+
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  snap.guides.forEach(({ orientation, position }) => {
+    ctx.beginPath();
+    if (orientation === 'vertical') {
+      ctx.moveTo(position, 0);
+      ctx.lineTo(position, slideSize.height);
+    } else {
+      ctx.moveTo(0, position);
+      ctx.lineTo(slideSize.width, position);
+    }
+    ctx.stroke();
+  });
+
+  ctx.setLineDash([]);
+  ctx.font = `${11 / zoom}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  const tick = 4 / zoom;
+  snap.spacing.forEach(({ orientation, start, end, at }) => {
+    const label = String(Math.round(end - start));
+    ctx.beginPath();
+    if (orientation === 'horizontal') {
+      ctx.moveTo(start, at);
+      ctx.lineTo(end, at);
+      ctx.moveTo(start, at - tick);
+      ctx.lineTo(start, at + tick);
+      ctx.moveTo(end, at - tick);
+      ctx.lineTo(end, at + tick);
+      ctx.stroke();
+      ctx.fillText(label, (start + end) / 2, at - tick);
+    } else {
+      ctx.moveTo(at, start);
+      ctx.lineTo(at, end);
+      ctx.moveTo(at - tick, start);
+      ctx.lineTo(at + tick, start);
+      ctx.moveTo(at - tick, end);
+      ctx.lineTo(at + tick, end);
+      ctx.stroke();
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, at + tick * 1.5, (start + end) / 2);
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+    }
+  });
+
+  ctx.restore();
+};
@@ -0,0 +1,482 @@
+import * as fabric from 'fabric';
+import type { PresentationTheme, ThemeColorSlot, ThemeFontSlot } from './themes';
+
+// One table cell. Merged cells are stored on their top-left cell; the cells
+// they cover keep their place, so every row has a cell for every column.
+export interface TableCell {
+  text: string;
+  fill?: string; // Instead of the table's fill, or the header fill in the header row
+  borderColor?: string;
+  borderWidth?: number;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+type TableColor = 'fill' | 'textColor' | 'headerFill' | 'headerTextColor';
+
+// Theme slots a table's colors and font follow, like the slots of other objects
+export type TableThemeSlots = Partial<Record<TableColor, ThemeColorSlot>> & { fontFamily?: ThemeFontSlot };
+
+// Saved on the table's group, which is rebuilt from it after every edit
+export interface TableData {
+  columns: number[]; // Column widths
+  rows: number[]; // Row heights; rows grow past them to fit their text
+  cells: TableCell[][]; // By row, then column
+  headerRow: boolean; // The first row is bold, on the header fill
+  fill: string;
+  textColor: string;
+  headerFill: string;
+  headerTextColor: string;
+  borderColor: string;
+  borderWidth: number;
+  fontFamily: string;
+  fontSize: number;
+  themeSlots?: TableThemeSlots; // Missing in tables that keep their colors when the theme changes
+}
+
+// Rows and columns of a block of cells, inclusive
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export type CellStyle = Pick<TableCell, 'fill' | 'borderColor' | 'borderWidth'>;
+
+// The size of table the table tool adds
+export interface TableToolOptions {
+  rows: number;
+  columns: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Custom Fabric object property holding a table group's data
+export const TABLE_PROPERTIES = ['table'] as const;
+
+export const DEFAULT_TABLE_TOOL: TableToolOptions = { rows: 3, columns: 3 };
+
+// Rows and columns offered by the table tool's size picker
+export const TABLE_PICKER_SIZE = 8;
+
+export const CELL_PADDING = 6;
+export const MIN_COLUMN_WIDTH = 20;
+export const MIN_ROW_HEIGHT = 20;
+
+const TABLE_COLORS: TableColor[] = ['fill', 'textColor', 'headerFill', 'headerTextColor'];
+
+export const isTable = (obj: fabric.FabricObject | undefined): obj is fabric.Group =>
+  !!obj?.table && obj instanceof fabric.Group;
+
+/** Size of a table placed with a click rather than a drag */
+export const defaultTableSize = ({ rows, columns }: TableToolOptions): { width: number; height: number } => ({
+  width: Math.min(columns * 100, 600),
+  height: rows * 36,
+});
+
+/** An empty table filling the given size, colored from the theme */
+export const createTableData = (
+  { rows, columns }: TableToolOptions,
+  width: number,
+  height: number,
+  theme: PresentationTheme
+): TableData => ({
+  columns: Array(columns).fill(Math.max(MIN_COLUMN_WIDTH, width / columns)),
+  rows: Array(rows).fill(Math.max(MIN_ROW_HEIGHT, height / rows)),
+  cells: Array.from({ length: rows }, () => Array.from({ length: columns }, () => ({ text: '' }))),
+  headerRow: true,
+  fill: theme.colors.background,
+  textColor: theme.colors.text,
+  headerFill: theme.colors.accent1,
+  headerTextColor: theme.colors.background,
+  borderColor: '#9ca3af',
+  borderWidth: 1,
+  fontFamily: theme.fonts.body,
+  fontSize: 16,
+  themeSlots: { fill: 'background', textColor: 'text', headerFill: 'accent1', headerTextColor: 'background', fontFamily: 'body' },
+});
+
+/** A table's colors and font from a theme, for those that follow a theme slot */
+export const applyThemeToTable = (data: TableData, theme: PresentationTheme): TableData => {
+  const slots = data.themeSlots;
+  if (!slots) return data;
+  const themed = { ...data };
+  TABLE_COLORS.forEach(color => {
+    const slot = slots[color];
+    if (slot && theme.colors[slot]) themed[color] = theme.colors[slot];
+  });
+  if (slots.fontFamily && theme.fonts[slots.fontFamily]) themed.fontFamily = theme.fonts[slots.fontFamily];
+  return themed;
+};
+
+const rowSpanOf = (cell: TableCell) => cell.rowSpan ?? 1;
+const colSpanOf = (cell: TableCell) => cell.colSpan ?? 1;
+
+const withSpans = (cell: TableCell, rowSpan: number, colSpan: number): TableCell => {
+  const result = { ...cell };
+  delete result.rowSpan;
+  delete result.colSpan;
+  if (rowSpan > 1) result.rowSpan = rowSpan;
+  if (colSpan > 1) result.colSpan = colSpan;
+  return result;
+};
+
+const sum = (values: number[], start = 0, count = values.length - start) =>
+  values.slice(start, start + count).reduce((total, value) => total + value, 0);
+
+// Where each column or row starts
+const offsets = (sizes: number[]) => sizes.map((_, index) => sum(sizes, 0, index));
+
+const inRange = (range: CellRange, row: number, col: number) =>
+  row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+const mapCells = (data: TableData, update: (cell: TableCell, row: number, col: number) => TableCell): TableData => ({
+  ...data,
+  cells: data.cells.map((cells, row) => cells.map((cell, col) => update(cell, row, col))),
+});
+
+/** The top-left cell of the merged cells covering a cell, or the cell itself */
+export const anchorOf = (data: TableData, row: number, col: number): [number, number] => {
+  for (let r = 0; r <= row; r++) {
+    for (let c = 0; c <= col; c++) {
+      const cell = data.cells[r][c];
+      if ((r !== row || c !== col) && r + rowSpanOf(cell) > row && c + colSpanOf(cell) > col) return [r, c];
+    }
+  }
+  return [row, col];
+};
+
+// Every cell that is not covered by a merge, once
+const forEachAnchor = (data: TableData, callback: (cell: TableCell, row: number, col: number) => void) => {
+  data.cells.forEach((cells, row) => cells.forEach((cell, col) => {
+    const [anchorRow, anchorCol] = anchorOf(data, row, col);
+    if (anchorRow === row && anchorCol === col) callback(cell, row, col);
+  }));
+};
+
+/** Grow a range until it takes in the whole of every merged cell it touches */
+export const expandRange = (data: TableData, range: CellRange): CellRange => {
+  let result = range;
+  for (let changed = true; changed;) {
+    const next = { ...result };
+    for (let row = result.top; row <= result.bottom; row++) {
+      for (let col = result.left; col <= result.right; col++) {
+        const [anchorRow, anchorCol] = anchorOf(data, row, col);
+        const cell = data.cells[anchorRow][anchorCol];
+        next.top = Math.min(next.top, anchorRow);
+        next.left = Math.min(next.left, anchorCol);
+        next.bottom = Math.max(next.bottom, anchorRow + rowSpanOf(cell) - 1);
+        next.right = Math.max(next.right, anchorCol + colSpanOf(cell) - 1);
+      }
+    }
+    changed = next.top !== result.top || next.left !== result.left || next.bottom !== result.bottom || next.right !== result.right;
+    result = next;
+  }
+  return result;
+};
+
+/** The cells between two cells, taking in whole merged cells */
+export const rangeBetween = (data: TableData, [fromRow, fromCol]: [number, number], [toRow, toCol]: [number, number]): CellRange =>
+  expandRange(data, {
+    top: Math.min(fromRow, toRow),
+    left: Math.min(fromCol, toCol),
+    bottom: Math.max(fromRow, toRow),
+    right: Math.max(fromCol, toCol),
+  });
+
+/** The cell Tab moves to, row by row and skipping cells covered by merges; null past either end */
+export const adjacentCell = (data: TableData, [row, col]: [number, number], step: 1 | -1): [number, number] | null => {
+  const columns = data.columns.length;
+  for (let index = row * columns + col + step; index >= 0 && index < data.rows.length * columns; index += step) {
+    const next: [number, number] = [Math.floor(index / columns), index % columns];
+    const [anchorRow, anchorCol] = anchorOf(data, ...next);
+    if (anchorRow === next[0] && anchorCol === next[1]) return next;
+  }
+  return null;
+};
+
+export const hasMergedCells = (data: TableData, range: CellRange): boolean =>
+  data.cells.some((cells, row) => cells.some((cell, col) =>
+    inRange(range, row, col) && (rowSpanOf(cell) > 1 || colSpanOf(cell) > 1)));
+
+export const setCellText = (data: TableData, row: number, col: number, text: string): TableData =>
+  mapCells(data, (cell, r, c) => (r === row && c === col ? { ...cell, text } : cell));
+
+export const clearCells = (data: TableData, range: CellRange): TableData =>
+  mapCells(data, (cell, row, col) => (inRange(range, row, col) ? { ...cell, text: '' } : cell));
+
+export const setCellStyle = (data: TableData, range: CellRange, style: CellStyle): TableData =>
+  mapCells(data, (cell, row, col) => (inRange(range, row, col) ? { ...cell, ...style } : cell));
+
+/** A new empty row at `index`; merged cells it passes through grow around it */
+export const insertRow = (data: TableData, index: number): TableData => {
+  const cells = data.cells.map((cells, row) => (row < index
+    ? cells.map(cell => (row + rowSpanOf(cell) > index ? withSpans(cell, rowSpanOf(cell) + 1, colSpanOf(cell)) : cell))
+    : cells));
+  cells.splice(index, 0, data.columns.map(() => ({ text: '' })));
+  const rows = [...data.rows];
+  rows.splice(index, 0, data.rows[Math.min(index, data.rows.length - 1)]);
+  return { ...data, rows, cells };
+};
+
+/** Remove a row; merged cells lose it, and those that started on it start on the next row */
+export const deleteRow = (data: TableData, index: number): TableData => {
+  if (data.rows.length <= 1) return data;
+  const cells = data.cells.map((cells, row) => cells.map((cell, col) => {
+    if (row < index && row + rowSpanOf(cell) > index) return withSpans(cell, rowSpanOf(cell) - 1, colSpanOf(cell));
+    const removed = data.cells[index][col];
+    if (row === index + 1 && rowSpanOf(removed) > 1) return withSpans(removed, rowSpanOf(removed) - 1, colSpanOf(removed));
+    return cell;
+  }));
+  cells.splice(index, 1);
+  return { ...data, rows: data.rows.filter((_, row) => row !== index), cells };
+};
+
+// Rows and columns swapped, so column edits can reuse the row edits
+const transpose = (data: TableData): TableData => ({
+  ...data,
+  columns: data.rows,
+  rows: data.columns,
+  cells: data.columns.map((_, col) => data.rows.map((_, row) => {
+    const cell = data.cells[row][col];
+    return withSpans(cell, colSpanOf(cell), rowSpanOf(cell));
+  })),
+});
+
+export const insertColumn = (data: TableData, index: number): TableData => transpose(insertRow(transpose(data), index));
+
+export const deleteColumn = (data: TableData, index: number): TableData => transpose(deleteRow(transpose(data), index));
+
+/** Merge a range into one cell holding the text of all of them, a line each */
+export const mergeCells = (data: TableData, range: CellRange): TableData => {
+  const { top, left, bottom, right } = expandRange(data, range);
+  if (top === bottom && left === right) return data;
+  const text = data.cells
+    .slice(top, bottom + 1)
+    .flatMap(cells => cells.slice(left, right + 1))
+    .map(cell => cell.text)
+    .filter(text => text.trim())
+    .join('\n');
+  const merged = { top, left, bottom, right };
+  return mapCells(data, (cell, row, col) => {
+    if (row === top && col === left) return withSpans({ ...cell, text }, bottom - top + 1, right - left + 1);
+    return inRange(merged, row, col) ? withSpans({ ...cell, text: '' }, 1, 1) : cell;
+  });
+};
+
+/** Split merged cells in a range back into single cells; the text stays in the top-left one */
+export const unmergeCells = (data: TableData, range: CellRange): TableData => {
+  const expanded = expandRange(data, range);
+  return mapCells(data, (cell, row, col) => (inRange(expanded, row, col) ? withSpans(cell, 1, 1) : cell));
+};
+
+export const setColumnWidth = (data: TableData, col: number, width: number): TableData => ({
+  ...data,
+  columns: data.columns.map((value, index) => (index === col ? Math.max(MIN_COLUMN_WIDTH, width) : value)),
+});
+
+export const setRowHeight = (data: TableData, row: number, height: number): TableData => ({
+  ...data,
+  rows: data.rows.map((value, index) => (index === row ? Math.max(MIN_ROW_HEIGHT, height) : value)),
+});
+
+const cellTextbox = (data: TableData, cell: TableCell, row: number, width: number) => {
+  const isHeader = data.headerRow && row === 0;
+  return new fabric.Textbox(cell.text, {
+    width: Math.max(1, width - CELL_PADDING * 2),
+    fontSize: data.fontSize,
+    fontFamily: data.fontFamily,
+    fontWeight: isHeader ? 'bold' : 'normal',
+    fill: isHeader ? data.headerTextColor : data.textColor,
+    fillSlot: data.themeSlots?.[isHeader ? 'headerTextColor' : 'textColor'],
+    fontSlot: data.themeSlots?.fontFamily,
+  });
+};
+
+// Laying out text is slow enough to be worth keeping per table data, which edits replace
+const rowHeightCache = new WeakMap<TableData, number[]>();
+
+/**
+ * Row heights as shown: each row is at least its set height and tall enough
+ * for the text of its cells. Merged cells that need more room grow their last row.
+ */
+export const tableRowHeights = (data: TableData): number[] => {
+  const cached = rowHeightCache.get(data);
+  if (cached) return cached;
+
+  const rows = [...data.rows];
+  const anchors: { cell: TableCell; row: number; col: number }[] = [];
+  forEachAnchor(data, (cell, row, col) => {
+    if (cell.text) anchors.push({ cell, row, col });
+  });
+  // Single rows first, so merged cells only add what their rows still lack
+  anchors
+    .sort((a, b) => rowSpanOf(a.cell) - rowSpanOf(b.cell))
+    .forEach(({ cell, row, col }) => {
+      const needed = cellTextbox(data, cell, row, sum(data.columns, col, colSpanOf(cell))).height + CELL_PADDING * 2;
+      const available = sum(rows, row, rowSpanOf(cell));
+      if (needed > available) rows[row + rowSpanOf(cell) - 1] += needed - available;
+    });
+  rowHeightCache.set(data, rows);
+  return rows;
+};
+
+/** Table data resized to a scale, by resizing its columns and rows rather than stretching its text */
+export const scaleTable = (data: TableData, scaleX: number, scaleY: number): TableData => ({
+  ...data,
+  columns: data.columns.map(width => Math.max(MIN_COLUMN_WIDTH, width * Math.abs(scaleX))),
+  rows: tableRowHeights(data).map(height => Math.max(MIN_ROW_HEIGHT, height * Math.abs(scaleY))),
+});
+
+/**
+ * A table as a group of cell backgrounds and texts. The backgrounds come
+ * first, so borders never cover text. The group carries the table's data.
+ */
+export const buildTable = (data: TableData): fabric.Group => {
+  const rows = tableRowHeights(data);
+  const x = offsets(data.columns);
+  const y = offsets(rows);
+  const backgrounds: fabric.FabricObject[] = [];
+  const texts: fabric.FabricObject[] = [];
+
+  forEachAnchor(data, (cell, row, col) => {
+    const width = sum(data.columns, col, colSpanOf(cell));
+    const height = sum(rows, row, rowSpanOf(cell));
+    const isHeader = data.headerRow && row === 0;
+    const borderWidth = cell.borderWidth ?? data.borderWidth;
+    // Fabric positions objects by the outside of their stroke; borders are centered on the grid lines
+    backgrounds.push(new fabric.Rect({
+      left: x[col] - borderWidth / 2,
+      top: y[row] - borderWidth / 2,
+      width,
+      height,
+      fill: cell.fill ?? (isHeader ? data.headerFill : data.fill),
+      // Cell backgrounds and texts follow the theme with the table, even before it is rebuilt
+      fillSlot: cell.fill ? undefined : data.themeSlots?.[isHeader ? 'headerFill' : 'fill'],
+      stroke: borderWidth > 0 ? cell.borderColor ?? data.borderColor : null,
+      strokeWidth: borderWidth,
+    }));
+    if (cell.text) {
+      const text = cellTextbox(data, cell, row, width);
+      text.set({ left: x[col] + CELL_PADDING, top: y[row] + CELL_PADDING });
+      texts.push(text);
+    }
+  });
+
+  const group = new fabric.Group([...backgrounds, ...texts]);
+  group.table = data;
+  return group;
+};
+
+// Where the grid starts in the group's own coordinates: the inside corner of
+// the first cell's background, which is always the group's first object
+const gridOrigin = (table: fabric.Group): Point => {
+  const first = table.item(0);
+  return { x: first.left + first.strokeWidth / 2, y: first.top + first.strokeWidth / 2 };
+};
+
+/** The cell under a point on the slide, as its merged top-left cell; null outside the table */
+export const tableCellAt = (table: fabric.Group, point: Point): [number, number] | null => {
+  const data = table.table!;
+  const origin = gridOrigin(table);
+  const local = fabric.util.transformPoint(new fabric.Point(point), fabric.util.invertTransform(table.calcTransformMatrix()));
+  const gridX = local.x - origin.x;
+  const gridY = local.y - origin.y;
+  const rows = tableRowHeights(data);
+  if (gridX < 0 || gridY < 0 || gridX > sum(data.columns) || gridY > sum(rows)) return null;
+
+  const indexAt = (starts: number[], value: number) => starts.filter(start => start <= value).length - 1;
+  return anchorOf(data, indexAt(offsets(rows), gridY), indexAt(offsets(data.columns), gridX));
+};
+
+/**
+ * Corners of a range of cells on the slide, clockwise from its top-left,
+ * following the table's rotation.
+ */
+export const rangeCorners = (table: fabric.Group, range: CellRange): fabric.Point[] => {
+  const data = table.table!;
+  const origin = gridOrigin(table);
+  const rows = tableRowHeights(data);
+  const x = offsets(data.columns);
+  const y = offsets(rows);
+  const left = origin.x + x[range.left];
+  const top = origin.y + y[range.top];
+  const right = origin.x + x[range.right] + data.columns[range.right];
+  const bottom = origin.y + y[range.bottom] + rows[range.bottom];
+  const matrix = table.calcTransformMatrix();
+  return [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+  ].map(point => fabric.util.transformPoint(new fabric.Point(point), matrix));
+};
+
+/** Shade selected cells and outline them, in the editor's selection blue */
+export const drawCellRange = (
+  ctx: CanvasRenderingContext2D,
+  table: fabric.Group,
+  range: CellRange,
+  viewportTransform: fabric.TMat2D
+) => {
+  const zoom = viewportTransform[0];
+  ctx.save();
+  ctx.transform(...viewportTransform);
+  ctx.beginPath();
+  rangeCorners(table, range).forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+  ctx.fillStyle = 'rgba(37, 99, 235, 0.15)';
+  ctx.fill();
+  ctx.lineWidth = 2 / zoom;
+  ctx.strokeStyle = '#2563eb';
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Placement and appearance carried over when a table is rebuilt; its scale goes into its data
+const KEPT_PROPERTIES = [
+  'angle',
+  'flipX',
+  'flipY',
+  'opacity',
+  'visible',
+  'selectable',
+  'evented',
+  'objectId',
+  'layerName',
+  'locked',
+  'borderColor',
+  'borderScaleFactor',
+  'cornerColor',
+  'cornerSize',
+  'transparentCorners',
+  'borderOpacityWhenMoving',
+] as const;
+
+/**
+ * Swap a table on the canvas for one built from new data. The new table keeps
+ * the old one's stack position, selection and top-left corner, so cells grow
+ * to the right and down.
+ */
+export const replaceTable = (canvas: fabric.Canvas, table: fabric.Group, data: TableData): fabric.Group => {
+  const next = buildTable(data);
+  KEPT_PROPERTIES.forEach(key => next.set(key, table.get(key)));
+
+  // Line up the grid corners: the old one on the slide, the new one relative to its center
+  const corner = fabric.util.transformPoint(new fabric.Point(gridOrigin(table)), table.calcTransformMatrix());
+  const [a, b, c, d] = next.calcTransformMatrix();
+  const offset = fabric.util.transformPoint(new fabric.Point(gridOrigin(next)), [a, b, c, d, 0, 0]);
+  next.setPositionByOrigin(corner.subtract(offset), 'center', 'center');
+  next.setCoords();
+
+  const wasActive = canvas.getActiveObject() === table;
+  canvas.insertAt(canvas.getObjects().indexOf(table), next);
+  canvas.remove(table);
+  if (wasActive) canvas.setActiveObject(next);
+  canvas.requestRenderAll();
+  return next;
+};
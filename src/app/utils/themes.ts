@@ -0,0 +1,258 @@
+import type { SlideSize } from '../redux/presentationSlice';
+import { applyThemeToTable } from './tables';
+import type { SerializedCanvas, SerializedObject } from './slideRenderer';
+
+export const THEME_COLOR_SLOTS = [
+  'background',
+  'text',
+  'accent1',
+  'accent2',
+  'accent3',
+  'accent4',
+  'accent5',
+  'accent6',
+] as const;
+
+export type ThemeColorSlot = typeof THEME_COLOR_SLOTS[number];
+
+export type ThemeFontSlot = 'heading' | 'body';
+
+/**
+ * Slide background of a theme. Solid and gradient colors are plain CSS colors;
+ * images are kept in the asset table, with their natural size so they can be
+ * scaled to cover any slide size.
+ */
+export type ThemeBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number } // Degrees, 0 = left to right
+  | { type: 'image'; assetId: string; width: number; height: number };
+
+export interface PresentationTheme {
+  id: string;
+  name: string;
+  colors: Record<ThemeColorSlot, string>;
+  fonts: Record<ThemeFontSlot, string>;
+  background: ThemeBackground;
+}
+
+// Custom Fabric object properties that tie an object's styling to the theme
+export const THEME_PROPERTIES = ['fillSlot', 'strokeSlot', 'fontSlot'] as const;
+
+export const THEME_COLOR_NAMES: Record<ThemeColorSlot, string> = {
+  background: 'Background',
+  text: 'Text',
+  accent1: 'Accent 1',
+  accent2: 'Accent 2',
+  accent3: 'Accent 3',
+  accent4: 'Accent 4',
+  accent5: 'Accent 5',
+  accent6: 'Accent 6',
+};
+
+export const THEME_FONTS = ['Arial', 'Helvetica', 'Verdana', 'Trebuchet MS', 'Georgia', 'Times New Roman', 'Courier New'];
+
+export const THEME_PRESETS: PresentationTheme[] = [
+  {
+    id: 'default',
+    name: 'Default',
+    colors: {
+      background: '#ffffff',
+      text: '#1f2937',
+      accent1: '#2563eb',
+      accent2: '#f97316',
+      accent3: '#16a34a',
+      accent4: '#dc2626',
+      accent5: '#9333ea',
+      accent6: '#0891b2',
+    },
+    fonts: { heading: 'Arial', body: 'Arial' },
+    background: { type: 'solid', color: '#ffffff' },
+  },
+  {
+    id: 'midnight',
+    name: 'Midnight',
+    colors: {
+      background: '#111827',
+      text: '#f9fafb',
+      accent1: '#60a5fa',
+      accent2: '#fbbf24',
+      accent3: '#34d399',
+      accent4: '#f87171',
+      accent5: '#c084fc',
+      accent6: '#22d3ee',
+    },
+    fonts: { heading: 'Helvetica', body: 'Helvetica' },
+    background: { type: 'solid', color: '#111827' },
+  },
+  {
+    id: 'ocean',
+    name: 'Ocean',
+    colors: {
+      background: '#e0f2fe',
+      text: '#0c4a6e',
+      accent1: '#0284c7',
+      accent2: '#0d9488',
+      accent3: '#4f46e5',
+      accent4: '#f59e0b',
+      accent5: '#64748b',
+      accent6: '#06b6d4',
+    },
+    fonts: { heading: 'Trebuchet MS', body: 'Verdana' },
+    background: { type: 'gradient', from: '#f0f9ff', to: '#bae6fd', angle: 90 },
+  },
+  {
+    id: 'sunset',
+    name: 'Sunset',
+    colors: {
+      background: '#fff7ed',
+      text: '#431407',
+      accent1: '#ea580c',
+      accent2: '#db2777',
+      accent3: '#ca8a04',
+      accent4: '#7c3aed',
+      accent5: '#b91c1c',
+      accent6: '#0f766e',
+    },
+    fonts: { heading: 'Georgia', body: 'Trebuchet MS' },
+    background: { type: 'gradient', from: '#fff7ed', to: '#fed7aa', angle: 45 },
+  },
+  {
+    id: 'classic',
+    name: 'Classic',
+    colors: {
+      background: '#fdfbf7',
+      text: '#292524',
+      accent1: '#7f1d1d',
+      accent2: '#1e3a8a',
+      accent3: '#365314',
+      accent4: '#a16207',
+      accent5: '#57534e',
+      accent6: '#155e75',
+    },
+    fonts: { heading: 'Times New Roman', body: 'Georgia' },
+    background: { type: 'solid', color: '#fdfbf7' },
+  },
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0];
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+// Saved data is checked field by field, so objects are read as records of unknown values
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : undefined;
+
+const isPositive = (value: unknown): boolean => typeof value === 'number' && value > 0;
+
+export const isValidTheme = (value: unknown): value is PresentationTheme => {
+  const theme = asRecord(value);
+  if (!theme) return false;
+  if (typeof theme.id !== 'string' || typeof theme.name !== 'string') return false;
+  const colors = asRecord(theme.colors);
+  if (!THEME_COLOR_SLOTS.every(slot => isColor(colors?.[slot]))) return false;
+  const fonts = asRecord(theme.fonts);
+  if (typeof fonts?.heading !== 'string' || typeof fonts?.body !== 'string') return false;
+
+  const background = asRecord(theme.background);
+  switch (background?.type) {
+    case 'solid':
+      return isColor(background.color);
+    case 'gradient':
+      return isColor(background.from) && isColor(background.to) && typeof background.angle === 'number';
+    case 'image':
+      return typeof background.assetId === 'string' && isPositive(background.width) && isPositive(background.height);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Fabric JSON for the canvas background and background image of a theme. A
+ * background image refers to its asset and is filled in like other images.
+ */
+export const themeBackgroundJSON = (theme: PresentationTheme, slideSize: SlideSize): { background: unknown; backgroundImage?: unknown } => {
+  const { background } = theme;
+  const { width, height } = slideSize;
+
+  if (background.type === 'gradient') {
+    // Run the gradient through the slide centre, long enough to reach the corners
+    const radians = (background.angle * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    const halfLength = (width * Math.abs(dx) + height * Math.abs(dy)) / 2;
+    return {
+      background: {
+        type: 'linear',
+        gradientUnits: 'pixels',
+        coords: {
+          x1: width / 2 - dx * halfLength,
+          y1: height / 2 - dy * halfLength,
+          x2: width / 2 + dx * halfLength,
+          y2: height / 2 + dy * halfLength,
+        },
+        colorStops: [
+          { offset: 0, color: background.from },
+          { offset: 1, color: background.to },
+        ],
+      },
+    };
+  }
+
+  if (background.type === 'image') {
+    // Cover the slide, cropping the overflow evenly on both sides
+    const scale = Math.max(width / background.width, height / background.height);
+    return {
+      background: theme.colors.background,
+      backgroundImage: {
+        type: 'Image',
+        assetId: background.assetId,
+        src: '',
+        width: background.width,
+        height: background.height,
+        scaleX: scale,
+        scaleY: scale,
+        left: (width - background.width * scale) / 2,
+        top: (height - background.height * scale) / 2,
+        originX: 'left',
+        originY: 'top',
+      },
+    };
+  }
+
+  return { background: background.color };
+};
+
+const applyThemeToObject = (obj: SerializedObject, theme: PresentationTheme): SerializedObject => {
+  const themed = { ...obj };
+  if (obj.fillSlot && theme.colors[obj.fillSlot]) {
+    themed.fill = theme.colors[obj.fillSlot];
+  }
+  if (obj.strokeSlot && theme.colors[obj.strokeSlot]) {
+    themed.stroke = theme.colors[obj.strokeSlot];
+  }
+  if (obj.fontSlot && theme.fonts[obj.fontSlot]) {
+    themed.fontFamily = theme.fonts[obj.fontSlot];
+  }
+  if (obj.table) {
+    themed.table = applyThemeToTable(obj.table, theme);
+  }
+  if (Array.isArray(obj.objects)) {
+    themed.objects = obj.objects.map(child => applyThemeToObject(child, theme));
+  }
+  return themed;
+};
+
+/**
+ * Restyle a slide for a theme: the background always follows the theme, and
+ * objects that reference a color or font slot pick up the theme's value.
+ * Colors and fonts set directly on objects are left alone.
+ */
+export const applyThemeToCanvasData = (canvasData: string, theme: PresentationTheme, slideSize: SlideSize): string => {
+  const data: SerializedCanvas = JSON.parse(canvasData);
+  const { backgroundImage, ...rest } = data;
+  return JSON.stringify({
+    ...rest,
+    ...themeBackgroundJSON(theme, slideSize),
+    objects: (data.objects ?? []).map(obj => applyThemeToObject(obj, theme)),
+  });
+};
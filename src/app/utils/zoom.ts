@@ -0,0 +1,42 @@
+import { SlideSize } from '../redux/presentationSlice';
+
+// Fit modes follow the editor's size; a custom zoom stays put
+export type ZoomMode = 'fit-page' | 'fit-width' | 'custom';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+
+// Levels that zooming in and out steps through
+export const ZOOM_PRESETS = [0.1, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+export const clampZoom = (zoom: number): number => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** The next preset zoom level above or below `zoom` */
+export const stepZoom = (zoom: number, direction: 1 | -1): number => {
+  // A level within 1% of the current zoom counts as the current one
+  const next = direction > 0
+    ? ZOOM_PRESETS.find(preset => preset > zoom * 1.01)
+    : [...ZOOM_PRESETS].reverse().find(preset => preset < zoom / 1.01);
+  return next ?? (direction > 0 ? MAX_ZOOM : MIN_ZOOM);
+};
+
+/** Zoom that shows the whole slide, or its full width, in the available space */
+export const fitZoom = (
+  mode: Exclude<ZoomMode, 'custom'>,
+  slideSize: SlideSize,
+  availableWidth: number,
+  availableHeight: number
+): number => {
+  const widthZoom = availableWidth / slideSize.width;
+  return clampZoom(mode === 'fit-width' ? widthZoom : Math.min(widthZoom, availableHeight / slideSize.height));
+};
+
+/**
+ * Zoom factor for a wheel event, for Ctrl+wheel and trackpad pinches (which
+ * browsers report as Ctrl+wheel). Line-based wheel deltas are converted to
+ * pixels first.
+ */
+export const wheelZoomFactor = (event: WheelEvent): number => {
+  const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+  return Math.exp(-delta * 0.002);
+};